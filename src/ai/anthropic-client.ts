@@ -0,0 +1,702 @@
+/**
+ * Anthropic Client
+ *
+ * Handles interaction with Anthropic's Messages API. This is the only remote
+ * provider and is never used as a fallback; it must be selected explicitly
+ * with `ai.provider: "anthropic"` or `--provider anthropic`.
+ */
+
+import { logger } from '../utils/logger.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory, UserError } from '../errors/types.js';
+import { withTimeout, withRetry, isAbortError } from '../utils/async.js';
+import { authManager } from '../auth/index.js';
+import { AIProvider, CompletionOptions, CompletionResponse, ContentBlock, EmbeddingResponse, LoadedModel, StreamEvent, ToolChoice, ToolDefinition } from './provider.js';
+import { AIModel } from './types.js';
+import { parseSSEStream } from './sse.js';
+import { getTextContent } from './content.js';
+import { responseEvents } from './tools.js';
+import { completeStructured } from './structured.js';
+
+interface MessagesRequest {
+  model: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string | ContentBlock[] }>;
+  tools?: ToolDefinition[];
+  tool_choice?: { type: 'auto' | 'any' | 'none' } | { type: 'tool'; name: string };
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  stream: boolean;
+  system?: string;
+}
+
+// Default API configuration
+const DEFAULT_CONFIG = {
+  apiBaseUrl: 'https://api.anthropic.com',
+  apiVersion: '2023-06-01',
+  apiKey: '', // Used when the auth manager holds no token
+  useStoredCredentials: true, // Whether the login token and ANTHROPIC_API_KEY may be sent
+  timeout: 60000, // 60 seconds
+  retryOptions: {
+    maxRetries: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 10000
+  },
+  defaultModel: 'claude-3-opus-20240229',
+  defaultMaxTokens: 4096,
+  defaultTemperature: 0.7
+};
+
+/**
+ * Anthropic client for interacting with the Messages API
+ */
+export class AnthropicClient implements AIProvider {
+  private config: typeof DEFAULT_CONFIG;
+  private modelInfo = new Map<string, AIModel>();
+
+  /**
+   * Create a new Anthropic client
+   */
+  constructor(config: Partial<typeof DEFAULT_CONFIG> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    logger.debug('Anthropic client created with config', {
+      apiBaseUrl: this.config.apiBaseUrl,
+      apiVersion: this.config.apiVersion,
+      defaultModel: this.config.defaultModel
+    });
+  }
+
+  /**
+   * Resolve the API key
+   *
+   * Prefers a token from the auth manager (set by `login`), then the
+   * configured `api.key`, then the ANTHROPIC_API_KEY environment variable.
+   * Only the configured key is used when stored credentials are off.
+   */
+  private getApiKey(): string | null {
+    if (!this.config.useStoredCredentials) {
+      return this.config.apiKey || null;
+    }
+
+    return authManager.getToken()?.accessToken
+      || this.config.apiKey
+      || process.env.ANTHROPIC_API_KEY
+      || null;
+  }
+
+  /**
+   * Format API request headers
+   */
+  private getHeaders(): Record<string, string> {
+    const apiKey = this.getApiKey();
+
+    if (!apiKey && !this.config.useStoredCredentials) {
+      throw createUserError(`Not sending your Anthropic credentials to ${this.config.apiBaseUrl}`, {
+        category: ErrorCategory.AUTHENTICATION,
+        resolution: 'The project configuration sets api.baseUrl. Set it in ~/.knightcode/config.json or CLAUDE_API_URL if you trust that server.'
+      });
+    }
+
+    if (!apiKey) {
+      throw createUserError('No Anthropic API key available', {
+        category: ErrorCategory.AUTHENTICATION,
+        resolution: 'Run "knightcode login", set api.key in your configuration, or set ANTHROPIC_API_KEY.'
+      });
+    }
+
+    return {
+      'Content-Type': 'application/json',
+      'X-Api-Key': apiKey,
+      'anthropic-version': this.config.apiVersion,
+      'User-Agent': 'knightcode-cli'
+    };
+  }
+
+  /**
+   * Build a Messages API request
+   *
+   * The Messages API takes the system prompt as a top-level field, so any
+   * system-role messages are folded into it. Tool definitions and tool
+   * content blocks already use the Messages API's shape.
+   */
+  private buildRequest(options: CompletionOptions, stream: boolean): MessagesRequest {
+    const systemParts = options.system ? [options.system] : [];
+    const messages: MessagesRequest['messages'] = [];
+
+    for (const message of options.messages) {
+      if (message.role === 'system') {
+        systemParts.push(getTextContent(message.content));
+      } else {
+        messages.push({ role: message.role, content: message.content });
+      }
+    }
+
+    const request: MessagesRequest = {
+      model: options.model || this.config.defaultModel,
+      messages,
+      max_tokens: options.maxTokens || this.config.defaultMaxTokens,
+      temperature: options.temperature ?? this.config.defaultTemperature,
+      stream
+    };
+
+    // Add optional parameters
+    if (options.topP !== undefined) request.top_p = options.topP;
+    if (options.topK !== undefined) request.top_k = options.topK;
+    if (options.stopSequences) request.stop_sequences = options.stopSequences;
+    if (systemParts.length > 0) request.system = systemParts.join('\n\n');
+    if (options.tools?.length) {
+      request.tools = options.tools;
+      if (options.toolChoice) request.tool_choice = this.toToolChoice(options.toolChoice);
+    }
+
+    return request;
+  }
+
+  /**
+   * Convert a tool choice to the Messages API format
+   */
+  private toToolChoice(choice: ToolChoice): MessagesRequest['tool_choice'] {
+    if (typeof choice === 'object') {
+      return { type: 'tool', name: choice.name };
+    }
+
+    return { type: choice === 'required' ? 'any' : choice };
+  }
+
+  /**
+   * Send a completion request to Anthropic
+   *
+   * The Messages API has no JSON mode, so structured output relies on the
+   * schema instruction and validation alone.
+   */
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    return completeStructured(options, messageOptions => this.createMessage(messageOptions));
+  }
+
+  /**
+   * Send a single Messages API request
+   */
+  private async createMessage(options: CompletionOptions): Promise<CompletionResponse> {
+    logger.debug('Sending completion request', { model: options.model || this.config.defaultModel });
+
+    const request = this.buildRequest(options, false);
+
+    try {
+      const sendRequestWithPath = async (path: string, requestOptions: RequestInit, signal: AbortSignal) => {
+        return this.sendRequest(path, { ...requestOptions, signal });
+      };
+
+      const timeoutFn = withTimeout(sendRequestWithPath, this.config.timeout, { signal: options.signal });
+
+      const retryFn = withRetry(timeoutFn, {
+        maxRetries: this.config.retryOptions.maxRetries,
+        initialDelayMs: this.config.retryOptions.initialDelayMs,
+        maxDelayMs: this.config.retryOptions.maxDelayMs,
+        // Client errors such as a bad key will not succeed on retry
+        isRetryable: (error: Error) => !(error instanceof UserError) ||
+          error.category === ErrorCategory.RATE_LIMIT ||
+          error.category === ErrorCategory.SERVER,
+        signal: options.signal
+      });
+
+      const response = await retryFn('/v1/messages', {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(request)
+      });
+
+      return {
+        id: response.id,
+        model: response.model,
+        usage: {
+          input_tokens: response.usage?.input_tokens || 0,
+          output_tokens: response.usage?.output_tokens || 0
+        },
+        content: (response.content || [])
+          .filter((block: any) => block.type === 'text' || block.type === 'tool_use')
+          .map((block: any): ContentBlock => block.type === 'text'
+            ? { type: 'text', text: block.text }
+            : { type: 'tool_use', id: block.id, name: block.name, input: block.input || {} }),
+        stop_reason: response.stop_reason,
+        stop_sequence: response.stop_sequence ?? undefined
+      };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      logger.error('Completion request failed', error);
+
+      if (error instanceof UserError) {
+        throw error;
+      }
+
+      throw createUserError('Failed to get response from Anthropic', {
+        cause: error,
+        category: ErrorCategory.AI_SERVICE,
+        resolution: 'Check your internet connection and try again. If the problem persists, verify your API key.'
+      });
+    }
+  }
+
+  /**
+   * Send a streaming completion request to Anthropic
+   *
+   * The Messages API already streams events shaped like our StreamEvent
+   * union, so they are passed through with text deltas normalized and the
+   * accumulated content and usage attached to `message_stop`. Tool use
+   * blocks are held back until their streamed JSON input is complete.
+   */
+  async *completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    // Structured output has to be validated whole before it is shown
+    if (options.responseFormat) {
+      yield* responseEvents(await this.complete(options));
+      return;
+    }
+
+    logger.debug('Sending streaming completion request', { model: options.model || this.config.defaultModel });
+
+    const request = this.buildRequest(options, true);
+    const response = await this.openStream('/v1/messages', {
+      method: 'POST',
+      headers: { ...this.getHeaders(), 'Accept': 'text/event-stream' },
+      body: JSON.stringify(request),
+      signal: options.signal
+    });
+
+    let id = '';
+    let model = request.model;
+    let text = '';
+    const blocks: ContentBlock[] = [];
+    const toolInputs = new Map<number, string>();
+    let stopReason: string | undefined;
+    let stopSequence: string | undefined;
+    const usage = { input_tokens: 0, output_tokens: 0 };
+
+    for await (const sseEvent of parseSSEStream(response.body!)) {
+      let data: any;
+      try {
+        data = JSON.parse(sseEvent.data);
+      } catch (error) {
+        logger.error('Failed to parse stream event', { data: sseEvent.data, error });
+        continue;
+      }
+
+      switch (data.type) {
+        case 'message_start':
+          id = data.message?.id || id;
+          model = data.message?.model || model;
+          usage.input_tokens = data.message?.usage?.input_tokens || 0;
+          yield {
+            type: 'message_start',
+            message: { id, model, content: [] }
+          };
+          break;
+
+        case 'content_block_start':
+          if (data.content_block?.type === 'tool_use') {
+            blocks[data.index] = {
+              type: 'tool_use',
+              id: data.content_block.id,
+              name: data.content_block.name,
+              input: {}
+            };
+            toolInputs.set(data.index, '');
+          } else {
+            blocks[data.index] = { type: 'text', text: '' };
+            yield { type: 'content_block_start', index: data.index };
+          }
+          break;
+
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta' && data.delta.text) {
+            text += data.delta.text;
+            const block = blocks[data.index];
+            if (block?.type === 'text') block.text += data.delta.text;
+            yield {
+              type: 'content_block_delta',
+              index: data.index,
+              delta: { type: 'text', text: data.delta.text }
+            };
+          } else if (data.delta?.type === 'input_json_delta' && toolInputs.has(data.index)) {
+            toolInputs.set(data.index, toolInputs.get(data.index) + (data.delta.partial_json || ''));
+          }
+          break;
+
+        case 'content_block_stop': {
+          const block = blocks[data.index];
+          if (block?.type === 'tool_use') {
+            const input = toolInputs.get(data.index);
+            block.input = input ? JSON.parse(input) : {};
+            yield { type: 'content_block_start', index: data.index, content_block: block };
+          }
+          yield { type: 'content_block_stop', index: data.index };
+          break;
+        }
+
+        case 'message_delta':
+          stopReason = data.delta?.stop_reason ?? stopReason;
+          stopSequence = data.delta?.stop_sequence ?? stopSequence;
+          usage.output_tokens = data.usage?.output_tokens ?? usage.output_tokens;
+          yield { type: 'message_delta', usage_metadata: { ...usage } };
+          break;
+
+        case 'message_stop':
+          yield {
+            type: 'message_stop',
+            message: {
+              id,
+              model,
+              content: blocks.length > 0 ? blocks.filter(Boolean) : [{ type: 'text', text }],
+              stop_reason: stopReason,
+              stop_sequence: stopSequence
+            },
+            usage_metadata: { ...usage }
+          };
+          return;
+
+        case 'error':
+          throw createUserError(`Anthropic API error: ${data.error?.message || 'Unknown error'}`, {
+            category: data.error?.type === 'overloaded_error' ? ErrorCategory.SERVER : ErrorCategory.AI_SERVICE,
+            details: data.error
+          });
+
+        default:
+          // ping and unknown future event types
+          break;
+      }
+    }
+
+    throw createUserError('Anthropic stream ended before the response was complete', {
+      category: ErrorCategory.AI_SERVICE,
+      resolution: 'Check your internet connection and try again.'
+    });
+  }
+
+  /**
+   * Test the connection to the Anthropic API
+   */
+  async testConnection(): Promise<boolean> {
+    logger.debug('Testing connection to Anthropic API');
+
+    if (!this.getApiKey()) {
+      if (!this.config.useStoredCredentials) {
+        logger.warn(`Not sending your Anthropic credentials to ${this.config.apiBaseUrl}, which the project configuration sets as api.baseUrl`);
+      }
+      logger.debug('Connection test skipped - no Anthropic API key available');
+      return false;
+    }
+
+    try {
+      // Listing models is free, unlike sending a test message
+      await this.getModelList();
+      logger.debug('Connection test successful');
+      return true;
+    } catch (error) {
+      logger.debug('Connection test failed', error);
+      return false;
+    }
+  }
+
+  /**
+   * Anthropic has no embeddings API
+   */
+  async embed(): Promise<EmbeddingResponse> {
+    throw createUserError('Anthropic does not provide an embeddings API', {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Use a local provider such as Ollama (with an embedding model like nomic-embed-text) for embeddings.'
+    });
+  }
+
+  /**
+   * Get available models from Anthropic
+   */
+  async getModels(): Promise<string[]> {
+    try {
+      return await this.getModelList();
+    } catch (error) {
+      logger.error('Failed to get Anthropic models:', error);
+      return [];
+    }
+  }
+
+  /**
+   * List the models available to the API key
+   */
+  async listModels(): Promise<AIModel[]> {
+    try {
+      const entries = await this.getModelEntries();
+      return entries.map((entry: any): AIModel => ({
+        id: entry.id,
+        name: entry.display_name || entry.id,
+        supportsStreaming: true,
+        provider: 'anthropic',
+        modifiedAt: entry.created_at ? new Date(entry.created_at) : undefined
+      }));
+    } catch (error) {
+      logger.error('Failed to list Anthropic models:', error);
+      throw createUserError('Failed to get available models', {
+        cause: error,
+        category: ErrorCategory.CONNECTION,
+        resolution: 'Check your internet connection and API key.'
+      });
+    }
+  }
+
+  /**
+   * Anthropic models are hosted, so there is nothing to download
+   */
+  async pullModel(model: string): Promise<void> {
+    throw createUserError(`Anthropic models are hosted and can't be downloaded: ${model}`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Use Ollama to download models that run locally.'
+    });
+  }
+
+  /**
+   * Anthropic models are hosted, so there is nothing to delete
+   */
+  async deleteModel(model: string): Promise<void> {
+    throw createUserError(`Anthropic models are hosted and can't be deleted: ${model}`, {
+      category: ErrorCategory.CONFIGURATION
+    });
+  }
+
+  /**
+   * Anthropic models are hosted, so nothing is loaded locally
+   */
+  async listLoadedModels(): Promise<LoadedModel[]> {
+    throw createUserError('Anthropic models are hosted and don\'t use local memory', {
+      category: ErrorCategory.CONFIGURATION
+    });
+  }
+
+  /**
+   * Hosted models are always ready
+   */
+  async loadModel(model?: string): Promise<void> {
+    throw createUserError(`Anthropic models are hosted and can't be loaded: ${model || this.getModel()}`, {
+      category: ErrorCategory.CONFIGURATION
+    });
+  }
+
+  /**
+   * Hosted models can't be unloaded
+   */
+  async unloadModel(model: string): Promise<void> {
+    throw createUserError(`Anthropic models are hosted and can't be unloaded: ${model}`, {
+      category: ErrorCategory.CONFIGURATION
+    });
+  }
+
+  /**
+   * Fetch model IDs from the models endpoint
+   */
+  private async getModelList(): Promise<string[]> {
+    const entries = await this.getModelEntries();
+    return entries.map((model: any) => model.id);
+  }
+
+  /**
+   * Fetch the entries of the models endpoint
+   */
+  private async getModelEntries(): Promise<any[]> {
+    const timeoutFn = withTimeout(
+      (path: string, options: RequestInit, signal: AbortSignal) => this.sendRequest(path, { ...options, signal }),
+      this.config.timeout
+    );
+
+    const response = await timeoutFn('/v1/models?limit=100', {
+      method: 'GET',
+      headers: this.getHeaders()
+    });
+
+    return response.data || [];
+  }
+
+  /**
+   * Send a request to the Anthropic API
+   */
+  private async sendRequest(path: string, options: RequestInit): Promise<any> {
+    const url = `${this.config.apiBaseUrl}${path}`;
+
+    logger.debug(`Sending request to ${url}`);
+
+    const response = await fetch(url, options);
+
+    if (!response.ok) {
+      await this.handleErrorResponse(response);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Open a streaming request to the Anthropic API
+   */
+  private async openStream(path: string, options: RequestInit): Promise<Response> {
+    const url = `${this.config.apiBaseUrl}${path}`;
+
+    logger.debug(`Sending streaming request to ${url}`);
+
+    // Only the wait for response headers is bounded by the timeout
+    const timeoutFetch = withTimeout(
+      (timeoutSignal: AbortSignal) => fetch(url, { ...options, signal: timeoutSignal }),
+      this.config.timeout,
+      { signal: options.signal ?? undefined }
+    );
+    const response = await timeoutFetch();
+
+    if (!response.ok) {
+      await this.handleErrorResponse(response);
+    }
+
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
+
+    return response;
+  }
+
+  /**
+   * Handle error responses from the API
+   */
+  private async handleErrorResponse(response: Response): Promise<never> {
+    let errorData: any = {};
+    let errorMessage = `API request failed with status ${response.status}`;
+
+    try {
+      // Try to parse the error response
+      errorData = await response.json();
+
+      if (errorData.error && errorData.error.message) {
+        errorMessage = errorData.error.message;
+      }
+    } catch {
+      // If we can't parse the response, use the status text
+      errorMessage = `API request failed: ${response.statusText || response.status}`;
+    }
+
+    logger.error('API error response', { status: response.status, errorData });
+
+    // Handle specific error codes
+    switch (response.status) {
+      case 401:
+        throw createUserError('Authentication failed. Please check your API key.', {
+          category: ErrorCategory.AUTHENTICATION,
+          resolution: 'Verify your API key and try again. You may need to log in again with the login command.'
+        });
+
+      case 403:
+        throw createUserError('You do not have permission to access this resource.', {
+          category: ErrorCategory.AUTHENTICATION,
+          resolution: 'Verify that your API key has the necessary permissions.'
+        });
+
+      case 404:
+        throw createUserError(errorMessage, {
+          category: ErrorCategory.API,
+          resolution: 'Check that you are using the correct API endpoint and model name.'
+        });
+
+      case 429:
+        throw createUserError('Rate limit exceeded.', {
+          category: ErrorCategory.RATE_LIMIT,
+          resolution: 'Please wait before sending more requests.'
+        });
+
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+      case 529:
+        throw createUserError('The API server encountered an error.', {
+          category: ErrorCategory.SERVER,
+          resolution: 'This is likely a temporary issue. Please try again later.'
+        });
+
+      default:
+        throw createUserError(errorMessage, {
+          category: ErrorCategory.API,
+          resolution: 'Check the error details and try again.'
+        });
+    }
+  }
+
+  /**
+   * Set the model to use
+   */
+  setModel(model: string): void {
+    this.config.defaultModel = model;
+    logger.debug('Anthropic model set to:', model);
+  }
+
+  /**
+   * Get the current model
+   */
+  getModel(): string {
+    return this.config.defaultModel;
+  }
+
+  /**
+   * Get model details from the models endpoint
+   *
+   * The endpoint only returns the ID and display name; every current
+   * Claude model has a 200K token context window.
+   */
+  async getModelInfo(model: string = this.config.defaultModel): Promise<AIModel> {
+    const cached = this.modelInfo.get(model);
+    if (cached) {
+      return cached;
+    }
+
+    const timeoutFn = withTimeout(
+      (path: string, options: RequestInit, signal: AbortSignal) => this.sendRequest(path, { ...options, signal }),
+      this.config.timeout
+    );
+
+    const response = await timeoutFn(`/v1/models/${encodeURIComponent(model)}`, {
+      method: 'GET',
+      headers: this.getHeaders()
+    });
+
+    const info: AIModel = {
+      id: response.id || model,
+      name: response.display_name || model,
+      maxContextLength: response.max_input_tokens || 200000,
+      supportsStreaming: true,
+      provider: 'anthropic',
+      family: 'claude',
+      capabilities: ['completion', 'tools', 'vision']
+    };
+
+    this.modelInfo.set(model, info);
+    return info;
+  }
+
+  /**
+   * Get configuration information
+   */
+  getConfig(): typeof DEFAULT_CONFIG {
+    // Never hand out the key itself
+    return { ...this.config, apiKey: this.config.apiKey ? '********' : '' };
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<typeof DEFAULT_CONFIG>): void {
+    this.config = { ...this.config, ...newConfig };
+    logger.debug('Anthropic client configuration updated');
+  }
+
+  /**
+   * Get provider name
+   */
+  getProviderName(): string {
+    return 'anthropic';
+  }
+}
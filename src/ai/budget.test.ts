@@ -0,0 +1,126 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyContextBudget, estimateTokens, fitToContext } from './budget.js';
+import { AIProvider, CompletionOptions } from './provider.js';
+
+/**
+ * Lines `line0`, `line1`, ... joined with newlines
+ */
+function numberedLines(count: number): string {
+  return Array.from({ length: count }, (_, i) => `line${i}`).join('\n');
+}
+
+function lastContent(options: CompletionOptions): string {
+  return options.messages[options.messages.length - 1].content as string;
+}
+
+describe('applyContextBudget', () => {
+  it('sends a request that fits unchanged, with attachments before the question', () => {
+    const result = applyContextBudget(
+      { messages: [{ role: 'user', content: 'What does it do?' }], maxTokens: 100 },
+      8192,
+      [{ name: 'a.ts', content: 'export const a = 1;' }]
+    );
+
+    expect(result.notices).toEqual([]);
+    expect(result.options.maxTokens).toBe(100);
+    expect(lastContent(result.options)).toMatch(/a\.ts[\s\S]*export const a = 1;[\s\S]*What does it do\?$/);
+    expect(result.options.contextLength).toBe(4096);
+  });
+
+  it('caps the response limit at half the window', () => {
+    const result = applyContextBudget({ messages: [{ role: 'user', content: 'hi' }], maxTokens: 4000 }, 4096);
+
+    expect(result.options.maxTokens).toBe(2048);
+    expect(result.notices[0]).toMatch(/Reduced the response limit from 4000 to 2048/);
+  });
+
+  it('drops the oldest messages first and never opens with an assistant turn', () => {
+    const long = 'x'.repeat(3000);
+    const result = applyContextBudget({
+      messages: [
+        { role: 'user', content: long },
+        { role: 'assistant', content: long },
+        { role: 'user', content: 'short' },
+        { role: 'assistant', content: 'short' },
+        { role: 'user', content: 'latest' }
+      ],
+      maxTokens: 256
+    }, 1024);
+
+    expect(result.options.messages.map(message => message.content)).toEqual(['short', 'short', 'latest']);
+    expect(result.notices).toContain('Left out the 2 oldest messages of the conversation');
+  });
+
+  it('trims only the largest attachments, keeping their head and tail', () => {
+    const small = 'export const small = true;';
+    const large = numberedLines(2000);
+    const result = applyContextBudget(
+      { messages: [{ role: 'user', content: 'Compare them' }], maxTokens: 256 },
+      2048,
+      [{ name: 'small.ts', content: small }, { name: 'large.ts', content: large }]
+    );
+
+    const content = lastContent(result.options);
+    expect(content).toContain(small);
+    expect(content).toContain('line0\n');
+    expect(content).toContain('line1999');
+    expect(content).toMatch(/\.\.\. \[\d+ lines omitted to fit the context window\] \.\.\./);
+    expect(result.notices).toEqual([expect.stringMatching(/^Trimmed large\.ts: kept lines 1-\d+ and \d+-2000 of 2000$/)]);
+    expect(result.inputTokens).toBeLessThanOrEqual(2048 * 0.95 - 256);
+  });
+
+  it('throws when the system prompt and question alone do not fit', () => {
+    expect(() => applyContextBudget({
+      system: 'x'.repeat(3000),
+      messages: [{ role: 'user', content: 'hi' }],
+      maxTokens: 256
+    }, 1024)).toThrow(/too large for the model's context window/);
+  });
+
+  it('throws without messages', () => {
+    expect(() => applyContextBudget({ messages: [] }, 4096)).toThrow(/without messages/);
+  });
+});
+
+describe('fitToContext', () => {
+  const providerWith = (getModelInfo: () => Promise<{ maxContextLength?: number }>): AIProvider =>
+    ({ getModelInfo }) as unknown as AIProvider;
+
+  it('uses the context length the model reports', async () => {
+    const result = await fitToContext(
+      providerWith(async () => ({ maxContextLength: 2000 })),
+      { messages: [{ role: 'user', content: 'hi' }] }
+    );
+
+    expect(result.contextLength).toBe(2000);
+    expect(result.options.maxTokens).toBe(1000);
+  });
+
+  it('falls back to the default window when the model info is unavailable', async () => {
+    const result = await fitToContext(
+      providerWith(async () => {
+        throw new Error('offline');
+      }),
+      { messages: [{ role: 'user', content: 'hi' }] }
+    );
+
+    expect(result.contextLength).toBe(8192);
+  });
+
+  it('prefers an explicit context length', async () => {
+    const result = await fitToContext(
+      providerWith(async () => ({ maxContextLength: 2000 })),
+      { messages: [{ role: 'user', content: 'hi' }] },
+      { contextLength: 16384 }
+    );
+
+    expect(result.contextLength).toBe(16384);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('rounds up', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(2);
+  });
+});
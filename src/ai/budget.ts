@@ -0,0 +1,357 @@
+/**
+ * Context Budget
+ *
+ * Estimates prompt size and fits completion requests into the model's
+ * context window before they are sent, so large inputs are trimmed
+ * predictably on our side instead of silently truncated by the server.
+ */
+
+import { logger } from '../utils/logger.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { AIProvider, CompletionOptions, Message } from './provider.js';
+import { createFileContextMessage } from './prompts.js';
+
+/**
+ * A file or other large text sent along with the request
+ */
+export interface ContextAttachment {
+  /**
+   * Label shown to the model, usually a file path
+   */
+  name: string;
+
+  /**
+   * Attachment text
+   */
+  content: string;
+
+  /**
+   * Language for the code fence (derived from the name when omitted)
+   */
+  language?: string;
+}
+
+/**
+ * Options for fitting a request into the context window
+ */
+export interface BudgetOptions {
+  /**
+   * Attachments to place before the text of the last message
+   */
+  attachments?: ContextAttachment[];
+
+  /**
+   * Context window to budget for, overriding what the model reports
+   */
+  contextLength?: number;
+}
+
+/**
+ * A request fitted into the context window
+ */
+export interface BudgetResult {
+  /**
+   * Options to send, with attachments rendered into the last message
+   */
+  options: CompletionOptions;
+
+  /**
+   * Context window the request was fitted into
+   */
+  contextLength: number;
+
+  /**
+   * Estimated prompt size in tokens
+   */
+  inputTokens: number;
+
+  /**
+   * What was cut or changed to make the request fit
+   */
+  notices: string[];
+}
+
+// Average characters per token; code tokenizes denser than prose, so this
+// errs towards overestimating
+const CHARS_PER_TOKEN = 3;
+
+// Formatting overhead each message adds (role markers, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Tokens an attached image takes up; vision models encode images into a
+// fixed number of patches regardless of the file size
+const IMAGE_TOKENS = 1024;
+
+// Context length assumed when the provider can't report one
+const DEFAULT_CONTEXT_LENGTH = 8192;
+
+// Output reserve used when the request doesn't set maxTokens
+const DEFAULT_OUTPUT_TOKENS = 2048;
+
+// Share of the window kept free to absorb estimation error
+const SAFETY_MARGIN = 0.05;
+
+// Output may take at most this share of the window
+const MAX_OUTPUT_SHARE = 0.5;
+
+// Smallest window requested from servers that size it per request
+const MIN_REQUESTED_CONTEXT = 4096;
+
+// Attachments are never trimmed below this many tokens
+const MIN_ATTACHMENT_TOKENS = 64;
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the number of tokens a list of messages takes up
+ */
+export function estimateMessageTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => {
+    if (typeof message.content === 'string') {
+      return total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+    }
+
+    // Image data is not tokenized as text, so count images separately
+    const blocks = message.content.filter(block => block.type !== 'image');
+    const images = message.content.length - blocks.length;
+    return total + estimateTokens(JSON.stringify(blocks)) + images * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS;
+  }, 0);
+}
+
+/**
+ * Fit a request into the context window of the provider's model
+ */
+export async function fitToContext(
+  provider: AIProvider,
+  options: CompletionOptions,
+  budgetOptions: BudgetOptions = {}
+): Promise<BudgetResult> {
+  let contextLength = budgetOptions.contextLength;
+
+  if (!contextLength) {
+    try {
+      const info = await provider.getModelInfo(options.model);
+      contextLength = info.maxContextLength;
+    } catch (error) {
+      logger.debug('Could not get the model context length, using the default', error);
+    }
+  }
+
+  return applyContextBudget(options, contextLength || DEFAULT_CONTEXT_LENGTH, budgetOptions.attachments);
+}
+
+/**
+ * Fit a request into a context window of the given size
+ *
+ * Trimming is deterministic and happens in this order:
+ * 1. The output reserve is capped at half the window.
+ * 2. The oldest messages are dropped, keeping the last one.
+ * 3. The largest attachments are cut down to a common size, keeping the
+ *    head and tail of each.
+ * The system prompt and the last message are never trimmed; if they alone
+ * don't fit, an error is thrown.
+ */
+export function applyContextBudget(
+  options: CompletionOptions,
+  contextLength: number,
+  attachments: ContextAttachment[] = []
+): BudgetResult {
+  const notices: string[] = [];
+
+  // Reserve room for the response
+  const requestedOutput = options.maxTokens || DEFAULT_OUTPUT_TOKENS;
+  const maxTokens = Math.min(requestedOutput, Math.floor(contextLength * MAX_OUTPUT_SHARE));
+  if (maxTokens < requestedOutput) {
+    notices.push(`Reduced the response limit from ${requestedOutput} to ${maxTokens} tokens to fit the ${contextLength}-token context window`);
+  }
+
+  const inputBudget = Math.floor(contextLength * (1 - SAFETY_MARGIN)) - maxTokens;
+
+  // The system prompt and the current message must always fit
+  const messages = [...options.messages];
+  const lastMessage = messages.pop();
+  if (!lastMessage) {
+    throw createUserError('Cannot send a request without messages', {
+      category: ErrorCategory.VALIDATION
+    });
+  }
+
+  const systemTokens = options.system ? estimateTokens(options.system) + MESSAGE_OVERHEAD_TOKENS : 0;
+  const fixedTokens = systemTokens
+    + estimateMessageTokens([lastMessage])
+    + attachments.reduce((total, attachment) => total + estimateTokens(renderAttachment(attachment, '')), 0);
+
+  if (fixedTokens + attachments.length * MIN_ATTACHMENT_TOKENS > inputBudget) {
+    throw createUserError(`The request is too large for the model's context window (about ${fixedTokens} tokens of prompt, ${inputBudget} available)`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: 'Shorten the request or use a model with a larger context window.'
+    });
+  }
+
+  // Drop the oldest messages until the history fits alongside the attachments
+  const attachmentTokens = attachments.reduce((total, attachment) => total + estimateTokens(attachment.content), 0);
+  let historyTokens = estimateMessageTokens(messages);
+  let dropped = 0;
+
+  while (messages.length > 0 && fixedTokens + historyTokens + attachmentTokens > inputBudget) {
+    historyTokens -= estimateMessageTokens([messages.shift()!]);
+    dropped++;
+  }
+
+  // A conversation has to open with a user turn
+  while (messages.length > 0 && messages[0].role === 'assistant') {
+    historyTokens -= estimateMessageTokens([messages.shift()!]);
+    dropped++;
+  }
+
+  if (dropped > 0) {
+    notices.push(`Left out the ${dropped} oldest message${dropped === 1 ? '' : 's'} of the conversation`);
+  }
+
+  // Trim attachments into whatever room is left
+  const attachmentBudget = inputBudget - fixedTokens - historyTokens;
+  const fitted = fitAttachments(attachments, attachmentBudget, notices);
+
+  const finalMessages = [...messages, withAttachments(lastMessage, fitted)];
+  const inputTokens = systemTokens + estimateMessageTokens(finalMessages);
+
+  for (const notice of notices) {
+    logger.debug(`Context budget: ${notice}`);
+  }
+
+  return {
+    options: {
+      ...options,
+      messages: finalMessages,
+      maxTokens,
+      contextLength: requestedContextLength(inputTokens + maxTokens, contextLength)
+    },
+    contextLength,
+    inputTokens,
+    notices
+  };
+}
+
+/**
+ * Cut attachments down to fit the token budget
+ *
+ * Finds the largest size limit that lets every attachment fit, so small
+ * attachments stay whole and only the largest ones are trimmed.
+ */
+function fitAttachments(attachments: ContextAttachment[], budget: number, notices: string[]): ContextAttachment[] {
+  const sizes = attachments.map(attachment => estimateTokens(attachment.content));
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+
+  if (total <= budget) {
+    return attachments;
+  }
+
+  // Largest per-attachment limit whose total still fits
+  const sorted = [...sizes].sort((a, b) => a - b);
+  let remaining = budget;
+  let limit = MIN_ATTACHMENT_TOKENS;
+  for (let i = 0; i < sorted.length; i++) {
+    const share = Math.floor(remaining / (sorted.length - i));
+    if (sorted[i] > share) {
+      limit = Math.max(share, MIN_ATTACHMENT_TOKENS);
+      break;
+    }
+    remaining -= sorted[i];
+  }
+
+  return attachments.map((attachment, i) => {
+    if (sizes[i] <= limit) {
+      return attachment;
+    }
+
+    const { content, notice } = trimText(attachment.content, limit * CHARS_PER_TOKEN);
+    notices.push(`Trimmed ${attachment.name}: ${notice}`);
+    return { ...attachment, content };
+  });
+}
+
+/**
+ * Trim text to a character limit on line boundaries
+ *
+ * Keeps roughly the first two thirds and the last third of the allowance,
+ * with a marker noting the omitted lines; the marker counts against the
+ * allowance too.
+ */
+function trimText(text: string, maxChars: number): { content: string; notice: string } {
+  const lines = text.split('\n');
+  const marker = (omitted: number): string => `... [${omitted} lines omitted to fit the context window] ...`;
+  const allowance = Math.max(0, maxChars - marker(lines.length).length - 1);
+  const headChars = Math.floor(allowance * 2 / 3);
+  const tailChars = allowance - headChars;
+
+  let headEnd = 0;
+  let used = 0;
+  while (headEnd < lines.length && used + lines[headEnd].length + 1 <= headChars) {
+    used += lines[headEnd].length + 1;
+    headEnd++;
+  }
+
+  let tailStart = lines.length;
+  used = 0;
+  while (tailStart > headEnd && used + lines[tailStart - 1].length + 1 <= tailChars) {
+    used += lines[tailStart - 1].length + 1;
+    tailStart--;
+  }
+
+  const omitted = tailStart - headEnd;
+  const content = [
+    ...lines.slice(0, headEnd),
+    marker(omitted),
+    ...lines.slice(tailStart)
+  ].join('\n');
+
+  const kept = tailStart < lines.length
+    ? `kept lines 1-${headEnd} and ${tailStart + 1}-${lines.length} of ${lines.length}`
+    : `kept lines 1-${headEnd} of ${lines.length}`;
+
+  return { content, notice: kept };
+}
+
+/**
+ * Render an attachment the way it is sent to the model
+ */
+function renderAttachment(attachment: ContextAttachment, content: string = attachment.content): string {
+  return createFileContextMessage(attachment.name, content, attachment.language);
+}
+
+/**
+ * Place attachments before the text of a message
+ */
+function withAttachments(message: Message, attachments: ContextAttachment[]): Message {
+  if (attachments.length === 0) {
+    return message;
+  }
+
+  const rendered = attachments.map(attachment => renderAttachment(attachment)).join('\n\n');
+
+  if (typeof message.content === 'string') {
+    return { ...message, content: `${rendered}\n\n${message.content}` };
+  }
+
+  return { ...message, content: [{ type: 'text', text: rendered }, ...message.content] };
+}
+
+/**
+ * Choose the window to request from servers that allocate it per request
+ *
+ * Rounded up to a power of two so similar requests share a size and the
+ * server doesn't reload the model for each one.
+ */
+function requestedContextLength(needed: number, contextLength: number): number {
+  let size = MIN_REQUESTED_CONTEXT;
+  while (size < needed) {
+    size *= 2;
+  }
+  return Math.min(size, contextLength);
+}
@@ -0,0 +1,202 @@
+/**
+ * Built-in AI Providers
+ *
+ * Registers the providers that ship with Knight Code.
+ */
+
+import path from 'path';
+import { OllamaClient } from './ollama-client.js';
+import { LMStudioClient } from './lmstudio-client.js';
+import { OpenAICompatibleClient } from './openai-compatible-client.js';
+import { AnthropicClient } from './anthropic-client.js';
+import { RecordingProvider, ReplayProvider } from './replay.js';
+import { providerRegistry, ProviderSettings } from './registry.js';
+import { logger } from '../utils/logger.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { isProjectSetting } from '../config/index.js';
+
+/**
+ * Map provider settings onto the option names shared by the built-in clients
+ */
+function toClientConfig(settings: ProviderSettings): Record<string, any> {
+  const clientConfig: Record<string, any> = {};
+
+  if (settings.baseUrl) clientConfig.apiBaseUrl = settings.baseUrl;
+  if (settings.apiKey) clientConfig.apiKey = settings.apiKey;
+  if (settings.model) clientConfig.defaultModel = settings.model;
+  if (settings.embeddingModel) clientConfig.defaultEmbeddingModel = settings.embeddingModel;
+  if (settings.embeddingBatchSize) clientConfig.embeddingBatchSize = settings.embeddingBatchSize;
+  if (settings.timeout) clientConfig.timeout = settings.timeout;
+  if (settings.temperature !== undefined) clientConfig.defaultTemperature = settings.temperature;
+  if (settings.maxTokens) clientConfig.defaultMaxTokens = settings.maxTokens;
+  if (settings.toolMode) clientConfig.toolMode = settings.toolMode;
+  if (settings.keepAlive !== undefined) clientConfig.keepAlive = settings.keepAlive;
+  if (settings.useStoredCredentials !== undefined) clientConfig.useStoredCredentials = settings.useStoredCredentials;
+
+  return clientConfig;
+}
+
+/**
+ * Check whether a URL points at the Anthropic API
+ */
+function isAnthropicApi(url: string | undefined): boolean {
+  try {
+    const parsed = new URL(url || 'https://api.anthropic.com');
+    return parsed.protocol === 'https:' && parsed.host === 'api.anthropic.com';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a URL points at this machine
+ */
+function isLoopbackUrl(url: string | undefined): boolean {
+  try {
+    const hostname = new URL(url || 'http://localhost').hostname;
+    return hostname === 'localhost' || hostname === '[::1]' || hostname.startsWith('127.');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Register the built-in providers
+ *
+ * Safe to call more than once.
+ */
+export function registerBuiltinProviders(): void {
+  if (!providerRegistry.has('ollama')) {
+    providerRegistry.register({
+      name: 'ollama',
+      description: 'Ollama local model server',
+      local: true,
+      configSchema: {
+        baseUrl: { type: 'url', description: 'Ollama server URL', default: 'http://localhost:11434' },
+        model: { type: 'string', description: 'Model to use' },
+        embeddingModel: { type: 'string', description: 'Embedding model (defaults to nomic-embed-text)' },
+        keepAlive: { type: 'string', description: 'How long models stay loaded after a request, e.g. "30m", or "-1" for always' },
+        toolMode: { type: 'string', description: 'Tool calling: auto, native, or prompt', default: 'auto' }
+      },
+      create: settings => new OllamaClient(toClientConfig(settings))
+    });
+  }
+
+  if (!providerRegistry.has('lmstudio')) {
+    providerRegistry.register({
+      name: 'lmstudio',
+      description: 'LM Studio local server',
+      local: true,
+      configSchema: {
+        baseUrl: { type: 'url', description: 'LM Studio server URL', default: 'http://localhost:1234' },
+        model: { type: 'string', description: 'Model to use' },
+        embeddingModel: { type: 'string', description: 'Embedding model (defaults to a downloaded one)' },
+        toolMode: { type: 'string', description: 'Tool calling: auto, native, or prompt', default: 'auto' }
+      },
+      create: settings => new LMStudioClient(toClientConfig(settings))
+    });
+  }
+
+  if (!providerRegistry.has('openai-compatible')) {
+    providerRegistry.register({
+      name: 'openai-compatible',
+      description: 'Any OpenAI-compatible server (llama.cpp, vLLM, LocalAI)',
+      local: true,
+      configKey: 'openaiCompatible',
+      // Like the Anthropic key, KNIGHTCODE_OPENAI_API_KEY and keys the user
+      // configured only go to this machine or a base URL the user set
+      loadSettings: config => {
+        const section = (config.ai?.openaiCompatible || {}) as { baseUrl?: string; apiKey?: string };
+        const trusted = !isProjectSetting('ai.openaiCompatible.baseUrl') || isLoopbackUrl(section.baseUrl);
+
+        if (section.apiKey && !trusted && !isProjectSetting('ai.openaiCompatible.apiKey')) {
+          logger.warn(`Not sending your API key to ${section.baseUrl}, which the project configuration sets as ai.openaiCompatible.baseUrl`);
+          return { ...section, apiKey: undefined };
+        }
+
+        return section;
+      },
+      configSchema: {
+        baseUrl: { type: 'url', description: 'Server URL', default: 'http://localhost:8080' },
+        apiKey: { type: 'string', description: 'Bearer token sent with each request' },
+        model: { type: 'string', description: 'Model to use (defaults to the first one the server lists)' },
+        embeddingModel: { type: 'string', description: 'Embedding model (defaults to the completion model)' },
+        toolMode: { type: 'string', description: 'Tool calling: auto, native, or prompt', default: 'auto' }
+      },
+      create: settings => new OpenAICompatibleClient(toClientConfig(settings))
+    });
+  }
+
+  if (!providerRegistry.has('anthropic')) {
+    providerRegistry.register({
+      name: 'anthropic',
+      description: 'Anthropic Claude API',
+      local: false,
+      configSchema: {
+        baseUrl: { type: 'url', description: 'API base URL', default: 'https://api.anthropic.com' },
+        apiKey: { type: 'string', description: 'API key (or ANTHROPIC_API_KEY)' },
+        timeout: { type: 'number', description: 'Request timeout in milliseconds' },
+        model: { type: 'string', description: 'Model to use' }
+      },
+      // The remote provider keeps its settings in the top-level `api` section.
+      // A base URL from the project config may point anywhere, so the login
+      // token, ANTHROPIC_API_KEY and keys the user configured are only sent
+      // to the Anthropic API or to a URL the user set.
+      loadSettings: config => {
+        const trusted = !isProjectSetting('api.baseUrl') || isAnthropicApi(config.api?.baseUrl);
+
+        return {
+          baseUrl: config.api?.baseUrl,
+          apiKey: trusted || isProjectSetting('api.key') ? config.api?.key : undefined,
+          useStoredCredentials: trusted,
+          timeout: config.api?.timeout,
+          model: (config.ai?.anthropic as ProviderSettings | undefined)?.model
+        };
+      },
+      create: settings => new AnthropicClient(toClientConfig(settings))
+    });
+  }
+
+  if (!providerRegistry.has('replay')) {
+    providerRegistry.register({
+      name: 'replay',
+      description: 'Record provider traffic to a fixture file and play it back',
+      local: true,
+      // Answers must come from the fixture, or reach the recorder
+      cacheable: false,
+      configSchema: {
+        fixture: { type: 'string', description: 'Fixture file (or --fixture)', required: true },
+        mode: { type: 'string', description: 'record or replay (--record selects record)', default: 'replay' },
+        provider: { type: 'string', description: 'Provider to record from', default: 'ollama' },
+        model: { type: 'string', description: 'Model to use' }
+      },
+      create: (settings, config) => {
+        // The schema has checked that these are strings
+        const fixture = path.resolve(settings.fixture as string);
+
+        if (settings.mode === 'record') {
+          if (settings.provider === 'replay') {
+            throw createUserError('The replay provider cannot record from itself', {
+              category: ErrorCategory.CONFIGURATION,
+              resolution: 'Set ai.replay.provider to a live provider such as ollama.'
+            });
+          }
+          return new RecordingProvider(providerRegistry.create(settings.provider as string, config, true), fixture);
+        }
+
+        if (settings.mode !== 'replay') {
+          throw createUserError(`Unknown replay mode: ${settings.mode}`, {
+            category: ErrorCategory.CONFIGURATION,
+            resolution: 'Set ai.replay.mode to record or replay.'
+          });
+        }
+
+        return new ReplayProvider(fixture, toClientConfig(settings));
+      },
+      // Never fall back to a live provider; a missing fixture or an
+      // unreachable recorded provider fails the request instead
+      healthCheck: async () => true
+    });
+  }
+}
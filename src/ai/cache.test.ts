@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CachingProvider, ResponseCache, canonicalJson, createResponseCache } from './cache.js';
+import { AIProvider, CompletionOptions, CompletionResponse, StreamEvent } from './provider.js';
+import { responseEvents } from './tools.js';
+
+let cacheDir: string;
+
+beforeEach(async () => {
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'knightcode-cache-'));
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.rm(cacheDir, { recursive: true, force: true });
+});
+
+function response(text: string): CompletionResponse {
+  return {
+    id: `msg_${text}`,
+    model: 'qwen2.5-coder:7b',
+    content: [{ type: 'text', text }],
+    stop_reason: 'stop',
+    usage: { input_tokens: 10, output_tokens: 2 }
+  };
+}
+
+/**
+ * A provider that answers with a numbered reply and counts its calls
+ */
+function fakeProvider(defaultTemperature = 0): AIProvider & { calls: number } {
+  const provider = {
+    calls: 0,
+    getModel: (): string => 'qwen2.5-coder:7b',
+    getConfig: (): { defaultTemperature: number } => ({ defaultTemperature }),
+    complete: async (): Promise<CompletionResponse> => response(`reply ${++provider.calls}`),
+    completeStream: async function* (): AsyncGenerator<StreamEvent> {
+      yield* responseEvents(response(`reply ${++provider.calls}`));
+    }
+  };
+  return provider as unknown as AIProvider & { calls: number };
+}
+
+async function collect(events: AsyncGenerator<StreamEvent>): Promise<StreamEvent[]> {
+  const result: StreamEvent[] = [];
+  for await (const event of events) {
+    result.push(event);
+  }
+  return result;
+}
+
+const request: CompletionOptions = { messages: [{ role: 'user', content: 'Explain closures' }], maxTokens: 100 };
+
+describe('canonicalJson', () => {
+  it('sorts object keys and drops undefined fields', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, undefined], c: undefined } })).toBe('{"a":{"d":[1,null]},"b":1}');
+    expect(canonicalJson({ a: 1, b: 2 })).toBe(canonicalJson({ b: 2, a: 1 }));
+  });
+});
+
+describe('ResponseCache', () => {
+  it('keys requests on everything that changes the output', () => {
+    const cache = new ResponseCache({ directory: cacheDir });
+    const key = cache.createKey('ollama', 'm', request, 0);
+
+    expect(cache.createKey('ollama', 'm', { maxTokens: 100, messages: [{ content: 'Explain closures', role: 'user' }] }, 0)).toBe(key);
+    expect(cache.createKey('ollama', 'm', { ...request, contextLength: 8192 }, 0)).not.toBe(key);
+    expect(cache.createKey('ollama', 'm', { ...request, maxTokens: 200 }, 0)).not.toBe(key);
+    expect(cache.createKey('ollama', 'm', request, 0.7)).not.toBe(key);
+    expect(cache.createKey('lmstudio', 'm', request, 0)).not.toBe(key);
+    expect(cache.createKey('ollama', 'm', { ...request, signal: new AbortController().signal, cache: true }, 0)).toBe(key);
+  });
+
+  it('only caches reproducible requests unless told otherwise', () => {
+    const cache = new ResponseCache({ directory: cacheDir });
+
+    expect(cache.isCacheable(request, 0)).toBe(true);
+    expect(cache.isCacheable({ ...request, seed: 42 }, 0.7)).toBe(true);
+    expect(cache.isCacheable(request, 0.7)).toBe(false);
+    expect(cache.isCacheable({ ...request, cache: false }, 0)).toBe(false);
+    expect(new ResponseCache({ directory: cacheDir, deterministicOnly: false }).isCacheable(request, 0.7)).toBe(true);
+  });
+
+  it('drops entries older than the TTL', async () => {
+    const cache = new ResponseCache({ directory: cacheDir, ttl: 1000 });
+    await cache.set('abc123', 'ollama', 'm', response('one'));
+    expect(await cache.get('abc123')).toEqual(response('one'));
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+
+    expect(await cache.get('abc123')).toBeNull();
+    expect((await cache.stats()).entries).toBe(0);
+  });
+
+  it('evicts the oldest entries once over the size limit', async () => {
+    const unlimited = new ResponseCache({ directory: cacheDir, maxSize: 0 });
+    await unlimited.set('aa01', 'ollama', 'm', response('one'));
+    const entrySize = (await unlimited.stats()).totalSize;
+
+    const cache = new ResponseCache({ directory: cacheDir, maxSize: Math.floor(entrySize * 2.5) });
+    await cache.set('bb02', 'ollama', 'm', response('two'));
+
+    // Make the first entry the oldest regardless of timestamp resolution
+    const past = new Date(Date.now() - 60000);
+    await fs.utimes(path.join(cacheDir, 'aa', 'aa01.json'), past, past);
+    await cache.set('cc03', 'ollama', 'm', response('tri'));
+
+    expect(await cache.get('aa01')).toBeNull();
+    expect(await cache.get('bb02')).toEqual(response('two'));
+    expect(await cache.get('cc03')).toEqual(response('tri'));
+  });
+
+  it('treats unreadable entries as misses and removes them', async () => {
+    const cache = new ResponseCache({ directory: cacheDir });
+    await fs.mkdir(path.join(cacheDir, 'de'), { recursive: true });
+    await fs.writeFile(path.join(cacheDir, 'de', 'dead.json'), '{not json');
+
+    expect(await cache.get('dead')).toBeNull();
+    expect(await cache.clear()).toBe(0);
+  });
+});
+
+describe('createResponseCache', () => {
+  it('keeps responses under paths.cache', () => {
+    expect(createResponseCache({ paths: { cache: cacheDir } }).getDirectory()).toBe(path.join(cacheDir, 'responses'));
+  });
+});
+
+describe('CachingProvider', () => {
+  it('answers a repeated request from the cache', async () => {
+    const provider = fakeProvider();
+    const caching = new CachingProvider(provider, 'ollama', createResponseCache({ paths: { cache: cacheDir } }));
+
+    const first = await caching.complete(request);
+    const second = await caching.complete({ ...request });
+
+    expect(second).toEqual(first);
+    expect(provider.calls).toBe(1);
+  });
+
+  it('passes requests that are not reproducible through', async () => {
+    const provider = fakeProvider(0.7);
+    const caching = new CachingProvider(provider, 'ollama', createResponseCache({ paths: { cache: cacheDir } }));
+
+    await caching.complete(request);
+    await caching.complete(request);
+
+    expect(provider.calls).toBe(2);
+  });
+
+  it('replays a cached stream and shares entries with complete', async () => {
+    const provider = fakeProvider();
+    const caching = new CachingProvider(provider, 'ollama', createResponseCache({ paths: { cache: cacheDir } }));
+
+    const live = await collect(caching.completeStream(request));
+    const replayed = await collect(caching.completeStream(request));
+    const completed = await caching.complete(request);
+
+    expect(provider.calls).toBe(1);
+    expect(replayed.map(event => event.type)).toEqual(live.map(event => event.type));
+    expect(completed.content).toEqual([{ type: 'text', text: 'reply 1' }]);
+  });
+
+  it('does not store a stream that was interrupted', async () => {
+    const provider = fakeProvider();
+    const caching = new CachingProvider(provider, 'ollama', createResponseCache({ paths: { cache: cacheDir } }));
+
+    for await (const event of caching.completeStream(request)) {
+      if (event.type === 'content_block_delta') {
+        break;
+      }
+    }
+    await caching.complete(request);
+
+    expect(provider.calls).toBe(2);
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * Response Cache
+ *
+ * Content-addressed disk cache for completions. Entries are keyed by a hash
+ * of everything that determines the model's output, so an identical request
+ * is answered from disk instead of being generated again. Only requests
+ * that are reproducible (temperature 0 or a fixed seed) are cached unless
+ * configured otherwise.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { AIProvider, CompletionOptions, CompletionResponse, StreamEvent } from './provider.js';
+import { ProviderWrapper } from './wrapper.js';
+import { responseEvents } from './tools.js';
+
+/**
+ * Response cache settings
+ */
+export interface ResponseCacheOptions {
+  /**
+   * Directory holding the cache entries
+   */
+  directory: string;
+
+  /**
+   * How long entries stay valid, in milliseconds (0 keeps them forever)
+   */
+  ttl: number;
+
+  /**
+   * Total size the cache may grow to, in bytes (0 for no limit)
+   */
+  maxSize: number;
+
+  /**
+   * Only cache requests with temperature 0 or a fixed seed
+   */
+  deterministicOnly: boolean;
+}
+
+/**
+ * Summary of the cache contents
+ */
+export interface ResponseCacheStats {
+  directory: string;
+  entries: number;
+  totalSize: number;
+  expired: number;
+  oldest?: Date;
+  newest?: Date;
+}
+
+/**
+ * A cached response as stored on disk
+ */
+interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  createdAt: number;
+  response: CompletionResponse;
+}
+
+/**
+ * A cache file found on disk
+ */
+interface CacheFile {
+  path: string;
+  size: number;
+  mtimeMs: number;
+}
+
+// Cache settings used when the configuration doesn't override them
+export const DEFAULT_CACHE_OPTIONS: Omit<ResponseCacheOptions, 'directory'> = {
+  ttl: 7 * 24 * 60 * 60 * 1000, // 7 days
+  maxSize: 100 * 1024 * 1024, // 100MB
+  deterministicOnly: true
+};
+
+/**
+ * Serialize a value to JSON with object keys in sorted order, so equal
+ * requests always produce the same key
+ */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Disk-backed store of completion responses
+ */
+export class ResponseCache {
+  private options: ResponseCacheOptions;
+
+  /**
+   * Create a cache rooted at the configured directory
+   */
+  constructor(options: Partial<ResponseCacheOptions> & { directory: string }) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+  }
+
+  /**
+   * Get the cache directory
+   */
+  getDirectory(): string {
+    return this.options.directory;
+  }
+
+  /**
+   * Check whether a request may be cached
+   *
+   * `temperature` is the temperature the provider will actually use, which
+   * may come from its defaults rather than the request.
+   */
+  isCacheable(options: CompletionOptions, temperature: number | undefined): boolean {
+    if (options.cache === false) {
+      return false;
+    }
+
+    return !this.options.deterministicOnly || temperature === 0 || options.seed !== undefined;
+  }
+
+  /**
+   * Compute the cache key for a request
+   *
+   * Besides the provider, model, messages, system prompt, temperature and
+   * seed, the key covers the other settings that change the output, such as
+   * the token limit, context length and tools.
+   */
+  createKey(provider: string, model: string, options: CompletionOptions, temperature: number | undefined): string {
+    const request = {
+      provider,
+      model,
+      system: options.system,
+      messages: options.messages,
+      temperature,
+      seed: options.seed,
+      maxTokens: options.maxTokens,
+      contextLength: options.contextLength,
+      topP: options.topP,
+      topK: options.topK,
+      stopSequences: options.stopSequences,
+      tools: options.tools,
+      toolChoice: options.toolChoice,
+      responseFormat: options.responseFormat?.schema
+    };
+
+    return createHash('sha256').update(canonicalJson(request)).digest('hex');
+  }
+
+  /**
+   * Look up a cached response
+   *
+   * Expired and unreadable entries are removed and count as misses.
+   */
+  async get(key: string): Promise<CompletionResponse | null> {
+    const entryPath = this.getEntryPath(key);
+
+    try {
+      const entry: CacheEntry = JSON.parse(await fs.readFile(entryPath, 'utf8'));
+
+      if (entry.key !== key || this.isExpired(entry.createdAt)) {
+        await fs.rm(entryPath, { force: true });
+        return null;
+      }
+
+      return entry.response;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.debug(`Discarding unreadable cache entry ${entryPath}`, error);
+        await fs.rm(entryPath, { force: true }).catch(() => undefined);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Store a response, then evict the oldest entries if the cache is over
+   * its size limit
+   */
+  async set(key: string, provider: string, model: string, response: CompletionResponse): Promise<void> {
+    const entryPath = this.getEntryPath(key);
+    const entry: CacheEntry = { key, provider, model, createdAt: Date.now(), response };
+
+    await fs.mkdir(path.dirname(entryPath), { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial entry
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+    await fs.rename(tempPath, entryPath);
+
+    await this.evict();
+  }
+
+  /**
+   * Remove every entry
+   *
+   * Returns the number of entries removed.
+   */
+  async clear(): Promise<number> {
+    const files = await this.listFiles();
+
+    await Promise.all(files.map(file => fs.rm(file.path, { force: true })));
+
+    return files.length;
+  }
+
+  /**
+   * Summarize the cache contents
+   */
+  async stats(): Promise<ResponseCacheStats> {
+    const files = await this.listFiles();
+    const times = files.map(file => file.mtimeMs);
+
+    return {
+      directory: this.options.directory,
+      entries: files.length,
+      totalSize: files.reduce((total, file) => total + file.size, 0),
+      expired: files.filter(file => this.isExpired(file.mtimeMs)).length,
+      oldest: times.length > 0 ? new Date(Math.min(...times)) : undefined,
+      newest: times.length > 0 ? new Date(Math.max(...times)) : undefined
+    };
+  }
+
+  /**
+   * Remove expired entries, then the oldest ones until the cache fits its
+   * size limit
+   */
+  private async evict(): Promise<void> {
+    const files = (await this.listFiles()).sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalSize = files.reduce((total, file) => total + file.size, 0);
+
+    for (const file of files) {
+      const overLimit = this.options.maxSize > 0 && totalSize > this.options.maxSize;
+      if (!overLimit && !this.isExpired(file.mtimeMs)) {
+        continue;
+      }
+
+      await fs.rm(file.path, { force: true });
+      totalSize -= file.size;
+    }
+  }
+
+  /**
+   * List the entry files, which are spread over subdirectories named after
+   * the first two characters of their key
+   */
+  private async listFiles(): Promise<CacheFile[]> {
+    const files: CacheFile[] = [];
+
+    let buckets: string[];
+    try {
+      buckets = await fs.readdir(this.options.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return files;
+      }
+      throw error;
+    }
+
+    for (const bucket of buckets) {
+      const bucketPath = path.join(this.options.directory, bucket);
+      let names: string[];
+      try {
+        names = await fs.readdir(bucketPath);
+      } catch {
+        continue;
+      }
+
+      for (const name of names.filter(name => name.endsWith('.json'))) {
+        const filePath = path.join(bucketPath, name);
+        try {
+          const stats = await fs.stat(filePath);
+          files.push({ path: filePath, size: stats.size, mtimeMs: stats.mtimeMs });
+        } catch {
+          // Removed by another process in the meantime
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Get the path of the file holding an entry
+   */
+  private getEntryPath(key: string): string {
+    return path.join(this.options.directory, key.slice(0, 2), `${key}.json`);
+  }
+
+  /**
+   * Check whether an entry written at the given time has expired
+   */
+  private isExpired(createdAt: number): boolean {
+    return this.options.ttl > 0 && Date.now() - createdAt > this.options.ttl;
+  }
+}
+
+/**
+ * Create the response cache described by the application configuration
+ *
+ * Entries live in a `responses` directory under `paths.cache`.
+ */
+export function createResponseCache(config: any = {}): ResponseCache {
+  const cacheConfig = config.ai?.cache || {};
+  const cacheDir = config.paths?.cache || path.join(os.homedir(), '.knightcode', 'cache');
+
+  return new ResponseCache({
+    directory: path.join(cacheDir, 'responses'),
+    ttl: cacheConfig.ttl ?? DEFAULT_CACHE_OPTIONS.ttl,
+    maxSize: cacheConfig.maxSize ?? DEFAULT_CACHE_OPTIONS.maxSize,
+    deterministicOnly: cacheConfig.deterministicOnly ?? DEFAULT_CACHE_OPTIONS.deterministicOnly
+  });
+}
+
+/**
+ * Provider wrapper that answers repeated requests from the response cache
+ *
+ * Everything other than completions is passed straight through. Cache
+ * failures are logged and never fail the request.
+ */
+export class CachingProvider extends ProviderWrapper {
+  /**
+   * Wrap a provider, registered under `name`, with a cache
+   */
+  constructor(
+    provider: AIProvider,
+    private name: string,
+    private cache: ResponseCache
+  ) {
+    super(provider);
+  }
+
+  /**
+   * Complete text, using the cache when the request allows it
+   */
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const key = this.getKey(options);
+    if (!key) {
+      return this.provider.complete(options);
+    }
+
+    const cached = await this.lookup(key);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.provider.complete(options);
+    await this.store(key, options, response);
+    return response;
+  }
+
+  /**
+   * Stream a completion, replaying cached responses as a stream
+   *
+   * A live stream is only stored once it completes, so interrupted
+   * generations are never cached.
+   */
+  async *completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    const key = this.getKey(options);
+    if (!key) {
+      yield* this.provider.completeStream(options);
+      return;
+    }
+
+    const cached = await this.lookup(key);
+    if (cached) {
+      yield* responseEvents(cached);
+      return;
+    }
+
+    for await (const event of this.provider.completeStream(options)) {
+      if (event.type === 'message_stop' && event.message) {
+        await this.store(key, options, {
+          id: event.message.id,
+          model: event.message.model,
+          content: event.message.content,
+          stop_reason: event.message.stop_reason,
+          stop_sequence: event.message.stop_sequence,
+          usage: event.usage_metadata || { input_tokens: 0, output_tokens: 0 }
+        });
+      }
+
+      yield event;
+    }
+  }
+
+  /**
+   * Get the cache key for a request, or null if it shouldn't be cached
+   */
+  private getKey(options: CompletionOptions): string | null {
+    const temperature = options.temperature ?? this.provider.getConfig()?.defaultTemperature;
+
+    if (!this.cache.isCacheable(options, temperature)) {
+      return null;
+    }
+
+    const model = options.model || this.provider.getModel();
+    return this.cache.createKey(this.name, model, options, temperature);
+  }
+
+  /**
+   * Read a response from the cache
+   */
+  private async lookup(key: string): Promise<CompletionResponse | null> {
+    try {
+      const response = await this.cache.get(key);
+      logger.debug(`Response cache ${response ? 'hit' : 'miss'}: ${key}`);
+      return response;
+    } catch (error) {
+      logger.warn('Could not read the response cache', error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a response to the cache
+   */
+  private async store(key: string, options: CompletionOptions, response: CompletionResponse): Promise<void> {
+    try {
+      await this.cache.set(key, this.name, options.model || this.provider.getModel(), response);
+    } catch (error) {
+      logger.warn('Could not write to the response cache', error);
+    }
+  }
+}
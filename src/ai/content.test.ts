@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { extractCode, extractCodeBlocks } from './content.js';
+
+describe('extractCodeBlocks', () => {
+  it('finds backtick and tilde fences with their language', () => {
+    expect(extractCodeBlocks('Intro\n```ts\nconst a = 1;\n```\ntext\n~~~\nplain\n~~~\n')).toEqual([
+      { language: 'ts', code: 'const a = 1;' },
+      { language: undefined, code: 'plain' }
+    ]);
+  });
+
+  it('keeps shorter fences inside a longer one', () => {
+    expect(extractCodeBlocks('````md\n```js\nx\n```\n````')).toEqual([{ language: 'md', code: '```js\nx\n```' }]);
+  });
+
+  it('runs a block left open to the end of the text', () => {
+    expect(extractCodeBlocks('```py\nprint(1)\nprint(2)')).toEqual([{ language: 'py', code: 'print(1)\nprint(2)' }]);
+  });
+});
+
+describe('extractCode', () => {
+  it('takes the largest block in the language of the file', () => {
+    const reply = [
+      'Install it first:',
+      '```bash',
+      'npm install left-pad and some other long command line',
+      '```',
+      'Then:',
+      '```ts',
+      'export const a = 1;',
+      '```',
+      'Or the full version:',
+      '```typescript',
+      'export const a = 1;',
+      'export const b = 2;',
+      '```'
+    ].join('\n');
+
+    expect(extractCode(reply, 'src/a.ts')).toBe('export const a = 1;\nexport const b = 2;\n');
+  });
+
+  it('takes the only block, whatever its language', () => {
+    expect(extractCode('Here:\n```js\nconst a = 1;\n```\nDone.', 'src/a.ts')).toBe('const a = 1;\n');
+  });
+
+  it('takes the largest unlabeled block rather than one in another language', () => {
+    const reply = '```bash\nnpm test -- --coverage --verbose\n```\n```\nx = 1\n```\n```\nx = 1\ny = 2\n```';
+    expect(extractCode(reply, 'main.py')).toBe('x = 1\ny = 2\n');
+  });
+
+  it('returns nothing when every block is in another language', () => {
+    expect(extractCode('```bash\nnpm test\n```\n```json\n{}\n```', 'src/a.ts')).toBe('');
+  });
+
+  it('takes the largest block without a file path', () => {
+    expect(extractCode('```\na\n```\n```\nabc\n```')).toBe('abc\n');
+  });
+
+  it('takes an unfenced reply as all code', () => {
+    expect(extractCode('  const a = 1;\n\n', 'a.ts')).toBe('const a = 1;\n');
+    expect(extractCode('   ')).toBe('');
+  });
+});
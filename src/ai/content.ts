@@ -0,0 +1,146 @@
+/**
+ * Message Content Helpers
+ *
+ * Utilities for working with message content, which is either a plain
+ * string or an array of content blocks.
+ */
+
+import { ContentBlock, ImageContent, ToolUseContent } from './provider.js';
+import { getLanguageFromFilePath } from './prompts.js';
+
+/**
+ * A fenced code block in a reply
+ */
+export interface CodeBlock {
+  /**
+   * Language from the opening fence, if any
+   */
+  language?: string;
+  code: string;
+}
+
+/**
+ * Get the text of a message or response, ignoring non-text blocks
+ */
+export function getTextContent(content: string | ContentBlock[]): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .filter(block => block.type === 'text')
+    .map(block => (block as { text: string }).text)
+    .join('');
+}
+
+/**
+ * Get the tool calls from a response's content
+ */
+export function getToolUses(content: string | ContentBlock[]): ToolUseContent[] {
+  if (typeof content === 'string') {
+    return [];
+  }
+
+  return content.filter((block): block is ToolUseContent => block.type === 'tool_use');
+}
+
+/**
+ * Get the images attached to a message
+ */
+export function getImages(content: string | ContentBlock[]): ImageContent[] {
+  if (typeof content === 'string') {
+    return [];
+  }
+
+  return content.filter((block): block is ImageContent => block.type === 'image');
+}
+
+/**
+ * Get an image as a `data:` URI
+ */
+export function toDataUri(image: ImageContent): string {
+  return `data:${image.source.media_type};base64,${image.source.data}`;
+}
+
+/**
+ * Build response content from generated text and tool calls
+ *
+ * The text block is left out when the model only called tools.
+ */
+export function createContent(text: string, toolUses: ToolUseContent[] = []): ContentBlock[] {
+  if (!text && toolUses.length > 0) {
+    return toolUses;
+  }
+
+  return [{ type: 'text', text }, ...toolUses];
+}
+
+/**
+ * Find the fenced code blocks in a reply
+ *
+ * A block left open at the end, as in a reply cut off by the token limit,
+ * runs to the end of the text.
+ */
+export function extractCodeBlocks(text: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  let fence: string | undefined;
+  let language: string | undefined;
+  let lines: string[] = [];
+
+  for (const line of text.split('\n')) {
+    if (fence === undefined) {
+      const open = line.match(/^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/);
+      if (open) {
+        fence = open[1];
+        language = open[2] || undefined;
+        lines = [];
+      }
+      continue;
+    }
+
+    const close = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+    if (close && close[1][0] === fence[0] && close[1].length >= fence.length) {
+      blocks.push({ language, code: lines.join('\n') });
+      fence = undefined;
+    } else {
+      lines.push(line);
+    }
+  }
+
+  if (fence !== undefined) {
+    blocks.push({ language, code: lines.join('\n') });
+  }
+
+  return blocks;
+}
+
+/**
+ * Get the code to save from a reply
+ *
+ * Takes the largest code block in the language of `filePath`, or the only
+ * block. Otherwise unlabeled blocks are considered, and without a file
+ * path, all of them; blocks in other languages are never picked. A reply
+ * without fences is taken to be all code. The result ends with a newline,
+ * or is empty when no block qualifies.
+ */
+export function extractCode(text: string, filePath?: string): string {
+  const blocks = extractCodeBlocks(text);
+
+  if (blocks.length === 0) {
+    return text.trim() ? `${text.trim()}\n` : '';
+  }
+
+  const target = filePath ? getLanguageFromFilePath(filePath) : '';
+  const matching = blocks.filter(block =>
+    target && block.language && (getLanguageFromFilePath(`file.${block.language}`) || block.language.toLowerCase()) === target);
+  let candidates = matching;
+  if (candidates.length === 0) {
+    candidates = blocks.length === 1 ? blocks : blocks.filter(block => !target || !block.language);
+  }
+
+  const code = candidates
+    .map(block => block.code.trimEnd())
+    .reduce((largest, current) => current.length > largest.length ? current : largest, '');
+
+  return code.trim() ? `${code}\n` : '';
+}
@@ -0,0 +1,250 @@
+/**
+ * File Context
+ *
+ * Turns file, directory and glob arguments into attachments for a request.
+ * Files matching `codeAnalysis.excludePatterns`, larger than
+ * `codeAnalysis.maxFileSize`, or binary are skipped, and every decision is
+ * reported so the user knows what the model actually saw.
+ */
+
+import path from 'path';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import {
+  directoryExists,
+  fileExists,
+  findFiles,
+  getFileInfo,
+  globToRegExp,
+  isGlobPattern,
+  matchGlobs,
+  readTextFile
+} from '../fs/operations.js';
+import { formatFileSize } from '../utils/formatting.js';
+import { ContextAttachment } from './budget.js';
+
+// Files attached at most, so a broad glob can't flood the request
+export const MAX_CONTEXT_FILES = 100;
+
+// Used when the configuration doesn't set codeAnalysis.maxFileSize
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Limits applied while collecting context files
+ */
+export interface ContextFileOptions {
+  /**
+   * Glob patterns of files to leave out
+   */
+  excludePatterns?: string[];
+
+  /**
+   * Largest file to include, in bytes
+   */
+  maxFileSize?: number;
+
+  /**
+   * Most files to include
+   */
+  maxFiles?: number;
+}
+
+/**
+ * A file that was left out, and why
+ */
+export interface SkippedContextFile {
+  path: string;
+  reason: string;
+}
+
+/**
+ * Files collected for a request
+ */
+export interface ContextFiles {
+  attachments: ContextAttachment[];
+  skipped: SkippedContextFile[];
+}
+
+/**
+ * Get the context limits from the application config
+ */
+export function getContextFileOptions(config: any = {}): ContextFileOptions {
+  return {
+    excludePatterns: config.codeAnalysis?.excludePatterns || [],
+    maxFileSize: config.codeAnalysis?.maxFileSize || DEFAULT_MAX_FILE_SIZE
+  };
+}
+
+/**
+ * Expand one argument into file paths
+ *
+ * Relative globs are matched against paths relative to the current
+ * directory, searching from the pattern's literal leading directories.
+ * Excluded files and directories met along the way are added to `skipped`
+ * and not searched.
+ */
+async function expandSpec(spec: string, excludePatterns: string[], skipped: SkippedContextFile[]): Promise<string[]> {
+  let matches = (_file: string): boolean => true;
+
+  const exclude = (entryPath: string, isDirectory: boolean): boolean => {
+    const name = path.relative(process.cwd(), entryPath);
+    // A trailing slash lets `dist/**` match the directory itself
+    const excludedBy = matchGlobs(isDirectory ? `${name}/` : name, excludePatterns);
+    if (excludedBy && (isDirectory || matches(entryPath))) {
+      skipped.push({ path: isDirectory ? `${name}/` : name, reason: `excluded by ${excludedBy}` });
+    }
+    return excludedBy !== undefined;
+  };
+
+  if (isGlobPattern(spec)) {
+    const segments = spec.split('/');
+    const literal = segments.slice(0, segments.findIndex(segment => isGlobPattern(segment)));
+    const base = literal.length > 0 ? literal.join('/') : '.';
+
+    if (!await directoryExists(base)) {
+      return [];
+    }
+
+    const regex = globToRegExp(path.normalize(spec).split(path.sep).join('/'));
+    const target = (file: string) => path.isAbsolute(spec) ? path.resolve(file) : path.relative(process.cwd(), file);
+    matches = file => regex.test(target(file).split(path.sep).join('/'));
+    return (await findFiles(base, { exclude })).filter(matches).sort();
+  }
+
+  if (await directoryExists(spec)) {
+    return (await findFiles(spec, { exclude })).sort();
+  }
+
+  if (await fileExists(spec)) {
+    return [spec];
+  }
+
+  throw createUserError(`Context file not found: ${spec}`, {
+    category: ErrorCategory.FILE_NOT_FOUND,
+    resolution: 'Check the path; directories and globs such as "src/**/*.ts" also work.'
+  });
+}
+
+/**
+ * Read files, directories and globs into attachments
+ *
+ * Each file appears once, named by its path relative to the current
+ * directory. Throws when a path doesn't exist or a glob matches nothing.
+ */
+export async function collectContextFiles(specs: string[], options: ContextFileOptions = {}): Promise<ContextFiles> {
+  const {
+    excludePatterns = [],
+    maxFileSize = DEFAULT_MAX_FILE_SIZE,
+    maxFiles = MAX_CONTEXT_FILES
+  } = options;
+
+  const attachments: ContextAttachment[] = [];
+  const skipped: SkippedContextFile[] = [];
+  const seen = new Set<string>();
+
+  for (const spec of specs.map(item => item.trim()).filter(Boolean)) {
+    const skippedBefore = skipped.length;
+    const files = await expandSpec(spec, excludePatterns, skipped);
+
+    if (files.length === 0 && skipped.length === skippedBefore && isGlobPattern(spec)) {
+      throw createUserError(`No files match ${spec}`, {
+        category: ErrorCategory.FILE_NOT_FOUND,
+        resolution: 'Check the pattern; it is matched against paths relative to the current directory.'
+      });
+    }
+
+    for (const file of files) {
+      const name = path.relative(process.cwd(), file) || file;
+      if (seen.has(name)) {
+        continue;
+      }
+      seen.add(name);
+
+      const excludedBy = matchGlobs(name, excludePatterns);
+      if (excludedBy) {
+        skipped.push({ path: name, reason: `excluded by ${excludedBy}` });
+        continue;
+      }
+
+      const info = await getFileInfo(file);
+      if (info.size > maxFileSize) {
+        skipped.push({ path: name, reason: `${formatFileSize(info.size)}, over the ${formatFileSize(maxFileSize)} limit` });
+        continue;
+      }
+
+      if (attachments.length >= maxFiles) {
+        skipped.push({ path: name, reason: `over the ${maxFiles}-file limit` });
+        continue;
+      }
+
+      const content = await readTextFile(file);
+      if (content.includes('\0')) {
+        skipped.push({ path: name, reason: 'binary' });
+        continue;
+      }
+
+      attachments.push({ name, content });
+    }
+  }
+
+  return { attachments, skipped };
+}
+
+/**
+ * Describe collected files for the user
+ */
+export function formatContextReport({ attachments, skipped }: ContextFiles): string {
+  const lines: string[] = [];
+
+  if (attachments.length > 0) {
+    lines.push(`Including ${attachments.length} file${attachments.length === 1 ? '' : 's'} as context:`);
+    for (const attachment of attachments) {
+      lines.push(`  ${attachment.name} (${formatFileSize(Buffer.byteLength(attachment.content))})`);
+    }
+  }
+
+  if (skipped.length > 0) {
+    lines.push(`Skipped ${skipped.length} path${skipped.length === 1 ? '' : 's'}:`);
+    for (const file of skipped) {
+      lines.push(`  ${file.path} (${file.reason})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Summarize a directory as a listing of its files and their sizes
+ *
+ * Excluded files and directories are left out, and the listing stops at
+ * the file limit.
+ */
+export async function summarizeDirectory(directory: string, options: ContextFileOptions = {}): Promise<ContextAttachment> {
+  const { excludePatterns = [], maxFiles = MAX_CONTEXT_FILES } = options;
+
+  if (!await directoryExists(directory)) {
+    throw createUserError(`Directory not found: ${directory}`, {
+      category: ErrorCategory.FILE_NOT_FOUND,
+      resolution: 'Check the path.'
+    });
+  }
+
+  const exclude = (entryPath: string, isDirectory: boolean): boolean => {
+    const name = path.relative(process.cwd(), entryPath);
+    return matchGlobs(isDirectory ? `${name}/` : name, excludePatterns) !== undefined;
+  };
+
+  const files = (await findFiles(directory, { exclude })).sort();
+  const name = `${path.relative(process.cwd(), directory) || '.'}/`;
+  const lines = [`${name} (${files.length} file${files.length === 1 ? '' : 's'})`];
+
+  for (const file of files.slice(0, maxFiles)) {
+    const info = await getFileInfo(file);
+    lines.push(`  ${path.relative(directory, file)} (${formatFileSize(info.size)})`);
+  }
+  if (files.length > maxFiles) {
+    lines.push(`  ... and ${files.length - maxFiles} more`);
+  }
+
+  return { name, content: lines.join('\n'), language: 'text' };
+}
@@ -0,0 +1,85 @@
+/**
+ * Embedding Helpers
+ *
+ * Batching and validation shared by the providers' `embed` implementations.
+ */
+
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { EmbeddingResponse } from './provider.js';
+
+// Texts sent per request when the provider doesn't configure a batch size
+export const DEFAULT_EMBEDDING_BATCH_SIZE = 32;
+
+/**
+ * Vectors returned for one batch of texts
+ */
+export interface EmbeddingBatch {
+  embeddings: number[][];
+  inputTokens?: number;
+  model?: string;
+}
+
+/**
+ * Embed texts in batches and combine the results
+ *
+ * Batches are sent one after another so a local server isn't flooded.
+ * Throws if a batch returns the wrong number of vectors or vectors of
+ * different lengths.
+ */
+export async function embedInBatches(
+  texts: string[],
+  model: string,
+  batchSize: number,
+  sendBatch: (batch: string[]) => Promise<EmbeddingBatch>
+): Promise<EmbeddingResponse> {
+  const embeddings: number[][] = [];
+  let inputTokens = 0;
+  let responseModel = model;
+  const size = Math.max(1, batchSize || DEFAULT_EMBEDDING_BATCH_SIZE);
+
+  for (let start = 0; start < texts.length; start += size) {
+    const batch = texts.slice(start, start + size);
+    const result = await sendBatch(batch);
+
+    if (result.embeddings.length !== batch.length) {
+      throw createUserError(`Expected ${batch.length} embeddings from ${model} but got ${result.embeddings.length}`, {
+        category: ErrorCategory.AI_SERVICE,
+        resolution: 'Check that the model is an embedding model.'
+      });
+    }
+
+    embeddings.push(...result.embeddings);
+    inputTokens += result.inputTokens || 0;
+    responseModel = result.model || responseModel;
+  }
+
+  const dimensions = embeddings[0]?.length || 0;
+  if (embeddings.some(vector => vector.length !== dimensions)) {
+    throw createUserError(`${model} returned embeddings of different lengths`, {
+      category: ErrorCategory.AI_SERVICE
+    });
+  }
+
+  return {
+    model: responseModel,
+    embeddings,
+    dimensions,
+    usage: { input_tokens: inputTokens }
+  };
+}
+
+/**
+ * Read an OpenAI-style `/v1/embeddings` response
+ *
+ * Entries carry an `index`, which is used to restore the input order.
+ */
+export function fromOpenAIEmbeddings(data: any): EmbeddingBatch {
+  const entries: any[] = [...(data?.data || [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+  return {
+    embeddings: entries.map(entry => entry.embedding || []),
+    inputTokens: data?.usage?.prompt_tokens,
+    model: data?.model
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Image Attachments
+ *
+ * Loads image files into content blocks for vision models, checking that
+ * each file is a supported image and small enough to send.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { getFileInfo } from '../fs/operations.js';
+import { formatFileSize } from '../utils/formatting.js';
+import { ImageContent } from './provider.js';
+
+// Largest image sent to a model; bigger files are usually photos that
+// should be resized first
+export const MAX_IMAGE_SIZE = 20 * 1024 * 1024;
+
+// Image types vision models accept, by file extension
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+/**
+ * Detect an image's type from its leading bytes
+ */
+function detectMediaType(data: Buffer): string | undefined {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.subarray(0, 6).toString('ascii') === 'GIF87a' || data.subarray(0, 6).toString('ascii') === 'GIF89a') {
+    return 'image/gif';
+  }
+  if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+/**
+ * Load an image file as a content block
+ *
+ * The file must be a PNG, JPEG, GIF or WebP image of at most `maxSize`
+ * bytes. The type is taken from the file's contents, so a mislabelled
+ * extension is not a problem but a non-image file is rejected.
+ */
+export async function loadImage(filePath: string, maxSize: number = MAX_IMAGE_SIZE): Promise<ImageContent> {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (!IMAGE_MEDIA_TYPES[extension]) {
+    throw createUserError(`Unsupported image type: ${filePath}`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: `Use a ${Object.keys(IMAGE_MEDIA_TYPES).join(', ')} file.`
+    });
+  }
+
+  const info = await getFileInfo(filePath);
+
+  if (!info.isFile()) {
+    throw createUserError(`Not a file: ${filePath}`, {
+      category: ErrorCategory.VALIDATION
+    });
+  }
+
+  if (info.size > maxSize) {
+    throw createUserError(`Image is too large: ${filePath} (${formatFileSize(info.size)})`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: `Resize or compress the image to under ${formatFileSize(maxSize)}.`
+    });
+  }
+
+  let data: Buffer;
+  try {
+    data = await fs.readFile(filePath);
+  } catch (error) {
+    throw createUserError(`Failed to read image: ${filePath}`, {
+      cause: error,
+      category: ErrorCategory.FILE_READ,
+      resolution: 'Check file permissions and try again.'
+    });
+  }
+
+  const mediaType = detectMediaType(data);
+  if (!mediaType) {
+    throw createUserError(`Not a valid image: ${filePath}`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: 'Check that the file is a PNG, JPEG, GIF or WebP image.'
+    });
+  }
+
+  return {
+    type: 'image',
+    source: {
+      type: 'base64',
+      media_type: mediaType,
+      data: data.toString('base64')
+    }
+  };
+}
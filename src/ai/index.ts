@@ -1,13 +1,18 @@
 /**
  * AI Module
  * 
- * Provides AI capabilities using multiple local providers (Ollama, LM Studio).
+ * Provides AI capabilities through providers registered in the provider
+ * registry (Ollama, LM Studio, OpenAI-compatible servers, Anthropic, and any
+ * added by provider modules).
  * This module handles initialization, configuration, and access to AI services.
  */
 
-import { OllamaClient } from './ollama-client.js';
-import { LMStudioClient } from './lmstudio-client.js';
 import { AIProvider, AIProviderType } from './provider.js';
+import { providerRegistry, loadProviderModules } from './registry.js';
+import { registerBuiltinProviders } from './builtin-providers.js';
+import { CachingProvider, createResponseCache } from './cache.js';
+import { UsageTrackingProvider, createUsageLedger } from './usage.js';
+import { RouteSettings, setActiveRoute } from './routing.js';
 import { logger } from '../utils/logger.js';
 import { createUserError } from '../errors/formatter.js';
 import { ErrorCategory } from '../errors/types.js';
@@ -16,68 +21,99 @@ import { ErrorCategory } from '../errors/types.js';
 let aiClient: AIProvider | null = null;
 let currentProvider: AIProviderType = 'ollama';
 
+// Used when the configuration doesn't set `ai.fallback`
+const DEFAULT_FALLBACK: AIProviderType[] = ['ollama', 'lmstudio'];
+
+registerBuiltinProviders();
+
 /**
  * Initialize the AI module
+ *
+ * @param route Provider, model and sampling settings for the current
+ *   command, from resolveRoute(); they override the configured defaults
  */
-export async function initAI(config: any = {}): Promise<AIProvider> {
+export async function initAI(config: any = {}, route: RouteSettings = {}): Promise<AIProvider> {
   logger.info('Initializing AI module');
   
   try {
-    // Try to initialize with the preferred provider
-    const provider = config.provider || currentProvider;
-    
-    if (provider === 'lmstudio') {
-      aiClient = new LMStudioClient(config);
-      currentProvider = 'lmstudio';
-    } else {
-      aiClient = new OllamaClient(config);
-      currentProvider = 'ollama';
+    if (config.ai?.providerModules?.length) {
+      await loadProviderModules(config.ai.providerModules);
     }
     
-    // Test connection
-    logger.debug(`Testing connection to ${currentProvider} service`);
-    const connectionSuccess = await aiClient.testConnection();
+    // Try the preferred provider first, then walk the fallback list in order
+    const configured: AIProviderType = config.ai?.provider || config.provider || currentProvider;
+    const provider: AIProviderType = route.provider || configured;
+    const fallback: AIProviderType[] = config.ai?.fallback || DEFAULT_FALLBACK;
+    const candidates = [provider, ...fallback.filter(p => p !== provider)];
     
-    if (!connectionSuccess) {
-      // If the preferred provider fails, try the other one
-      if (provider === 'lmstudio') {
-        logger.info('LM Studio connection failed, trying Ollama...');
-        aiClient = new OllamaClient(config);
-        currentProvider = 'ollama';
-        const ollamaSuccess = await aiClient.testConnection();
-        if (!ollamaSuccess) {
-          throw createUserError('Failed to connect to any AI service', {
-            category: ErrorCategory.CONNECTION,
-            resolution: 'Make sure either Ollama or LM Studio is running.'
-          });
+    for (const candidate of candidates) {
+      if (candidate !== provider && !providerRegistry.has(candidate)) {
+        logger.warn(`Skipping unknown fallback provider: ${candidate}`);
+        continue;
+      }
+      
+      // ai.model belongs to ai.provider; a route to another provider without
+      // its own model uses that provider's configured model
+      const client = providerRegistry.create(candidate, config, candidate === configured);
+      
+      logger.debug(`Checking health of ${candidate} provider`);
+      if (await providerRegistry.checkHealth(candidate, client)) {
+        // A routed model only applies to the routed provider, not to a fallback
+        if (route.model && candidate === provider) {
+          client.setModel(route.model);
         }
-      } else {
-        logger.info('Ollama connection failed, trying LM Studio...');
-        aiClient = new LMStudioClient(config);
-        currentProvider = 'lmstudio';
-        const lmstudioSuccess = await aiClient.testConnection();
-        if (!lmstudioSuccess) {
-          throw createUserError('Failed to connect to any AI service', {
-            category: ErrorCategory.CONNECTION,
-            resolution: 'Make sure either Ollama or LM Studio is running.'
-          });
+        setActiveRoute(route);
+        
+        // Usage is recorded beneath the cache, so only real generations count
+        const tracked = config.ai?.usage?.enabled === false
+          ? client
+          : new UsageTrackingProvider(client, candidate, createUsageLedger(config));
+        aiClient = !config.ai?.cache?.enabled || providerRegistry.get(candidate)?.cacheable === false
+          ? tracked
+          : new CachingProvider(tracked, candidate, createResponseCache(config));
+        currentProvider = candidate;
+        logger.info(`AI module initialized successfully with ${currentProvider}`);
+        
+        if (config.ai?.warmUp) {
+          warmUp(aiClient);
         }
+        
+        return aiClient;
       }
+      
+      logger.info(`${candidate} connection failed${candidate === candidates[candidates.length - 1] ? '' : ', trying next provider...'}`);
     }
     
-    logger.info(`AI module initialized successfully with ${currentProvider}`);
-    return aiClient;
+    throw createUserError('Failed to connect to any AI service', {
+      category: ErrorCategory.CONNECTION,
+      resolution: `Make sure one of these is running: ${candidates.join(', ')}.`
+    });
   } catch (error) {
     logger.error('Failed to initialize AI module', error);
     
     throw createUserError('Failed to initialize AI capabilities', {
       cause: error,
       category: ErrorCategory.INITIALIZATION,
-      resolution: 'Check if Ollama or LM Studio is running and try again.'
+      resolution: 'Check if your configured AI provider is running and try again.'
     });
   }
 }
 
+/**
+ * Load the current model in the background
+ * 
+ * Failures only matter to the first request, which reports its own error,
+ * so they are logged and otherwise ignored.
+ */
+function warmUp(client: AIProvider): void {
+  const model = client.getModel();
+  const started = Date.now();
+  
+  client.loadModel(model)
+    .then(() => logger.debug(`Warmed up ${model} in ${Date.now() - started}ms`))
+    .catch(error => logger.debug(`Could not warm up ${model}`, error));
+}
+
 /**
  * Get the AI client instance
  */
@@ -116,4 +152,139 @@ export function setPreferredProvider(provider: AIProviderType): void {
 
 // Re-export types and components
 export * from './provider.js';
-export * from './prompts.js';
\ No newline at end of file
+export * from './content.js';
+export * from './budget.js';
+export {
+  embedInBatches,
+  fromOpenAIEmbeddings,
+  DEFAULT_EMBEDDING_BATCH_SIZE
+} from './embeddings.js';
+export type { EmbeddingBatch } from './embeddings.js';
+export { loadImage, MAX_IMAGE_SIZE } from './images.js';
+export {
+  completeStructured,
+  parseStructuredResponse,
+  extractJson,
+  DEFAULT_MAX_REPAIRS
+} from './structured.js';
+export type { StructuredResult } from './structured.js';
+export {
+  ResponseCache,
+  CachingProvider,
+  createResponseCache,
+  DEFAULT_CACHE_OPTIONS
+} from './cache.js';
+export type {
+  ResponseCacheOptions,
+  ResponseCacheStats
+} from './cache.js';
+export {
+  UsageLedger,
+  UsageTrackingProvider,
+  createUsageLedger,
+  summarizeUsage,
+  setUsageCommand,
+  USAGE_GROUP_KEYS
+} from './usage.js';
+export type {
+  UsageRecord,
+  UsageSummary,
+  UsageGroupKey
+} from './usage.js';
+export { ProviderWrapper } from './wrapper.js';
+export {
+  resolveRoute,
+  applyRoute,
+  setActiveRoute,
+  getActiveRoute,
+  checkModelAvailable,
+  COMMAND_TASKS
+} from './routing.js';
+export type { RouteSettings } from './routing.js';
+export {
+  ReplayProvider,
+  RecordingProvider,
+  normalizeRequest,
+  readFixture,
+  writeFixture,
+  FIXTURE_VERSION
+} from './replay.js';
+export type {
+  Fixture,
+  FixtureEntry,
+  ReplayMode
+} from './replay.js';
+export {
+  toChatTools,
+  toChatMessages,
+  fromChatToolCalls,
+  buildToolPrompt,
+  applyPromptToolProtocol,
+  parsePromptToolCalls,
+  isToolsUnsupportedError,
+  responseEvents
+} from './tools.js';
+export {
+  providerRegistry,
+  registerProvider,
+  validateProviderSettings,
+  loadProviderModules
+} from './registry.js';
+export type {
+  ProviderDefinition,
+  ProviderConfigSchema,
+  ProviderConfigField,
+  ProviderSettings,
+  ProviderSettingValues,
+  ProviderAppConfig
+} from './registry.js';
+export { OllamaClient } from './ollama-client.js';
+export { LMStudioClient } from './lmstudio-client.js';
+export { OpenAICompatibleClient } from './openai-compatible-client.js';
+export { AnthropicClient } from './anthropic-client.js';
+export * from './prompts.js';
+export {
+  loadPromptTemplates,
+  parsePromptTemplate,
+  parseFrontMatter,
+  getPromptDirectories
+} from './prompt-library.js';
+export type { PromptDirectory, FrontMatter } from './prompt-library.js';
+export {
+  collectContextFiles,
+  getContextFileOptions,
+  formatContextReport,
+  summarizeDirectory,
+  MAX_CONTEXT_FILES
+} from './context.js';
+export type { ContextFileOptions, ContextFiles, SkippedContextFile } from './context.js';
+export { parseMentions, resolveMentions, completeMention } from './mentions.js';
+export type { Mention, ResolvedMentions } from './mentions.js';
+export {
+  parseCodeTarget,
+  findSymbol,
+  resolveCodeRegion,
+  getRegionText,
+  getSurroundingContext
+} from './regions.js';
+export type { CodeTarget, CodeRegion } from './regions.js';
+export {
+  collectReviewInput,
+  buildReviewRequest,
+  toReviewReport,
+  toSarif,
+  REVIEW_SCHEMA,
+  REVIEW_SEVERITIES,
+  REVIEW_CATEGORIES
+} from './review.js';
+export type {
+  ReviewFinding,
+  ReviewReport,
+  ReviewSeverity,
+  ReviewCategory,
+  ReviewSource,
+  ReviewInput,
+  SarifLog,
+  SarifRun,
+  SarifResult
+} from './review.js';
@@ -7,26 +7,34 @@
 
 import { logger } from '../utils/logger.js';
 import { createUserError } from '../errors/formatter.js';
-import { ErrorCategory } from '../errors/types.js';
-import { withTimeout, withRetry } from '../utils/async.js';
-import { AIProvider, Message, CompletionOptions, CompletionResponse, StreamEvent } from './provider.js';
-
-interface CompletionRequest {
-  model: string;
-  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
-  temperature?: number;
-  max_tokens?: number;
-  top_p?: number;
-  top_k?: number;
-  stop_sequences?: string[];
-  stream?: boolean;
-  system?: string;
+import { ErrorCategory, UserError } from '../errors/types.js';
+import { withTimeout, withRetry, isAbortError } from '../utils/async.js';
+import { AIProvider, CompletionOptions, CompletionResponse, EmbeddingResponse, LoadedModel, StreamEvent, ToolMode } from './provider.js';
+import { AIModel } from './types.js';
+import { embedInBatches, fromOpenAIEmbeddings, DEFAULT_EMBEDDING_BATCH_SIZE } from './embeddings.js';
+import { ToolCallingSupport, responseEvents } from './tools.js';
+import { completeStructured } from './structured.js';
+import { ChatCompletion, ChatCompletionRequest, toChatCompletionRequest, fromChatCompletion, chatCompletionEvents } from './openai-chat.js';
+
+/**
+ * A model list from `/v1/models` or `/api/v0/models`
+ */
+interface ModelList<T> {
+  data?: T[];
 }
 
-interface ApiError {
-  error?: {
-    message?: string;
-  };
+/**
+ * A model in the `/api/v0/models` list
+ */
+interface ModelEntry {
+  id: string;
+  type?: string;
+  state?: string;
+  arch?: string;
+  quantization?: string;
+  max_context_length?: number;
+  loaded_context_length?: number;
+  capabilities?: string[];
 }
 
 // Default API configuration
@@ -40,7 +48,10 @@ const DEFAULT_CONFIG = {
   },
   defaultModel: 'default', // LM Studio uses 'default' for the loaded model
   defaultMaxTokens: 4096,
-  defaultTemperature: 0.7
+  defaultTemperature: 0.7,
+  toolMode: 'auto' as ToolMode,
+  defaultEmbeddingModel: '', // Empty picks a downloaded embedding model
+  embeddingBatchSize: DEFAULT_EMBEDDING_BATCH_SIZE
 };
 
 /**
@@ -49,6 +60,8 @@ const DEFAULT_CONFIG = {
 export class LMStudioClient implements AIProvider {
   private config: typeof DEFAULT_CONFIG;
   private model: string;
+  private tools = new ToolCallingSupport('LM Studio', () => this.config.toolMode);
+  private modelInfo = new Map<string, AIModel>();
 
   constructor(config: Partial<typeof DEFAULT_CONFIG> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -63,7 +76,7 @@ export class LMStudioClient implements AIProvider {
       logger.debug('Testing connection to LM Studio service');
       
       const timeoutFetch = withTimeout(
-        () => fetch(`${this.config.apiBaseUrl}/v1/models`),
+        (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/models`, { signal }),
         this.config.timeout
       );
       const response = await timeoutFetch();
@@ -89,7 +102,7 @@ export class LMStudioClient implements AIProvider {
   async getModels(): Promise<string[]> {
     try {
       const timeoutFetch = withTimeout(
-        () => fetch(`${this.config.apiBaseUrl}/v1/models`),
+        (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/models`, { signal }),
         this.config.timeout
       );
       const response = await timeoutFetch();
@@ -98,8 +111,8 @@ export class LMStudioClient implements AIProvider {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json() as any;
-      return data.data?.map((model: any) => model.id) || [];
+      const data = await response.json() as ModelList<{ id: string }>;
+      return data.data?.map(model => model.id) || [];
     } catch (error) {
       logger.error('Failed to get LM Studio models:', error);
       throw createUserError('Failed to get available models', {
@@ -125,32 +138,206 @@ export class LMStudioClient implements AIProvider {
     return this.model;
   }
 
+  /**
+   * List downloaded models
+   * 
+   * LM Studio's model list has no file sizes or dates, so those columns
+   * stay empty. Older versions only report model IDs.
+   */
+  async listModels(): Promise<AIModel[]> {
+    const entries = await this.getModelEntries().catch(error => {
+      logger.debug('Could not read LM Studio model metadata', error);
+      return null;
+    });
+
+    if (!entries) {
+      const models = await this.getModels();
+      return models.map(id => ({ id, name: id, supportsStreaming: true, provider: 'lmstudio' }));
+    }
+
+    return entries.map(entry => this.toModelInfo(entry));
+  }
+
+  /**
+   * LM Studio downloads models through its own app
+   */
+  async pullModel(model: string): Promise<void> {
+    throw createUserError(`LM Studio can't download ${model} through its API`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: `Download it from LM Studio's Discover tab or with "lms get ${model}".`
+    });
+  }
+
+  /**
+   * LM Studio deletes models through its own app
+   */
+  async deleteModel(model: string): Promise<void> {
+    throw createUserError(`LM Studio can't delete ${model} through its API`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Delete it from the My Models tab in LM Studio.'
+    });
+  }
+
+  /**
+   * List loaded models from LM Studio's REST API
+   * 
+   * LM Studio reports the context length of each loaded model but not its
+   * memory use.
+   */
+  async listLoadedModels(): Promise<LoadedModel[]> {
+    const entries = await this.getModelEntries();
+
+    if (!entries) {
+      throw createUserError('This LM Studio version doesn\'t report which models are loaded', {
+        category: ErrorCategory.CONFIGURATION,
+        resolution: 'Update LM Studio, or run "lms ps".'
+      });
+    }
+
+    return entries
+      .filter(entry => entry.state === 'loaded')
+      .map(entry => ({ id: entry.id, contextLength: entry.loaded_context_length }));
+  }
+
+  /**
+   * LM Studio loads models on their first request, or through its own app
+   */
+  async loadModel(model: string = this.model): Promise<void> {
+    throw createUserError(`LM Studio can't load ${model} ahead of time through its API`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: `Load it in LM Studio or with "lms load ${model}".`
+    });
+  }
+
+  /**
+   * LM Studio unloads models through its own app
+   */
+  async unloadModel(model: string): Promise<void> {
+    throw createUserError(`LM Studio can't unload ${model} through its API`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: `Eject it in LM Studio or run "lms unload ${model}".`
+    });
+  }
+
+  /**
+   * Fetch the model list of LM Studio's REST API
+   * 
+   * Returns null on versions without the `/api/v0` endpoints.
+   */
+  private async getModelEntries(): Promise<ModelEntry[] | null> {
+    const timeoutFetch = withTimeout(
+      (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/api/v0/models`, { signal }),
+      this.config.timeout
+    );
+    const response = await timeoutFetch();
+
+    if (!response.ok) {
+      logger.debug('LM Studio model metadata unavailable, status:', response.status);
+      return null;
+    }
+
+    const data = await response.json() as ModelList<ModelEntry>;
+    return data.data || [];
+  }
+
+  /**
+   * Convert an `/api/v0/models` entry to model details
+   */
+  private toModelInfo(entry: ModelEntry): AIModel {
+    return {
+      id: entry.id,
+      name: entry.id,
+      maxContextLength: entry.loaded_context_length || entry.max_context_length,
+      supportsStreaming: true,
+      provider: 'lmstudio',
+      // LM Studio doesn't report the parameter count, but most names include it
+      parameterSize: entry.id.match(/(\d+(?:\.\d+)?)b\b/i)?.[1]?.concat('B'),
+      quantization: entry.quantization,
+      family: entry.arch,
+      capabilities: entry.capabilities || (entry.type === 'vlm' ? ['vision'] : undefined)
+    };
+  }
+
+  /**
+   * Get model details from LM Studio's REST API
+   * 
+   * The `/api/v0/models` endpoint reports architecture, quantization and
+   * context length. Older LM Studio versions lack it, in which case only
+   * the model ID is known.
+   */
+  async getModelInfo(model: string = this.model): Promise<AIModel> {
+    const cached = this.modelInfo.get(model);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const models = await this.getModelEntries();
+
+      if (!models) {
+        return { id: model, name: model, supportsStreaming: true, provider: 'lmstudio' };
+      }
+
+      // 'default' means whichever model is loaded
+      const entry = model === 'default'
+        ? models.find(m => m.state === 'loaded' && m.type !== 'embeddings')
+        : models.find(m => m.id === model);
+
+      if (!entry) {
+        throw createUserError(`LM Studio does not know model ${model}`, {
+          category: ErrorCategory.AI_SERVICE,
+          resolution: 'Check the model name in LM Studio\'s model list.'
+        });
+      }
+
+      const info = this.toModelInfo(entry);
+
+      this.modelInfo.set(model, info);
+      return info;
+    } catch (error) {
+      logger.error(`Failed to get LM Studio model info for ${model}:`, error);
+
+      if (error instanceof UserError) {
+        throw error;
+      }
+
+      throw createUserError(`Failed to get details for model ${model}`, {
+        cause: error,
+        category: ErrorCategory.CONNECTION,
+        resolution: 'Check if LM Studio is running and accessible.'
+      });
+    }
+  }
+
+  /**
+   * Build a chat completion request body
+   * 
+   * LM Studio also reads `top_k`, which isn't part of the OpenAI API.
+   */
+  private buildRequestBody(options: CompletionOptions, stream: boolean): ChatCompletionRequest {
+    const requestBody = toChatCompletionRequest(options, this.model, stream, this.config);
+    
+    if (options.topK !== undefined) {
+      requestBody.top_k = options.topK;
+    }
+    
+    return requestBody;
+  }
+
   /**
    * Complete text using LM Studio
    */
   async complete(options: CompletionOptions): Promise<CompletionResponse> {
-    const {
-      temperature = this.config.defaultTemperature,
-      maxTokens = this.config.defaultMaxTokens,
-      topP = 1.0,
-      topK = 40,
-      stopSequences = [],
-      stream = false,
-      system = ''
-    } = options;
-
-            const messages = system ? [{ role: 'system' as const, content: system }, ...options.messages] : options.messages;
-
-    const requestBody: CompletionRequest = {
-      model: this.model,
-      messages,
-      temperature,
-      max_tokens: maxTokens,
-      top_p: topP,
-      top_k: topK,
-      stop_sequences: stopSequences,
-      stream
-    };
+    return completeStructured(options, structuredOptions =>
+      this.tools.complete(structuredOptions, this.model, chatOptions => this.chat(chatOptions)));
+  }
+
+  /**
+   * Send a single chat completion request
+   */
+  private async chat(options: CompletionOptions): Promise<CompletionResponse> {
+    const requestBody = this.buildRequestBody(options, false);
+    const { messages, temperature, max_tokens: maxTokens } = requestBody;
 
     try {
       logger.debug('Sending completion request to LM Studio:', {
@@ -161,17 +348,19 @@ export class LMStudioClient implements AIProvider {
       });
 
       const timeoutFetch = withTimeout(
-        () => fetch(`${this.config.apiBaseUrl}/v1/chat/completions`, {
+        (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/chat/completions`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify(requestBody)
+          body: JSON.stringify(requestBody),
+          signal
         }),
-        this.config.timeout
+        this.config.timeout,
+        { signal: options.signal }
       );
       
-      const retryFetch = withRetry(timeoutFetch, this.config.retryOptions);
+      const retryFetch = withRetry(timeoutFetch, { ...this.config.retryOptions, signal: options.signal });
       const response = await retryFetch();
 
       if (!response.ok) {
@@ -185,22 +374,8 @@ export class LMStudioClient implements AIProvider {
         });
       }
 
-      const data = await response.json() as any;
-      
-      // Transform LM Studio response to match our interface
-      const completionResponse: CompletionResponse = {
-        id: data.id || `lmstudio_${Date.now()}`,
-        model: data.model || this.model,
-        usage: {
-          input_tokens: data.usage?.prompt_tokens || 0,
-          output_tokens: data.usage?.completion_tokens || 0
-        },
-        content: data.choices?.[0]?.message?.content ? [{
-          type: 'text',
-          text: data.choices[0].message.content
-        }] : [],
-        stop_reason: data.choices?.[0]?.finish_reason || 'stop'
-      };
+      const data = await response.json() as ChatCompletion;
+      const completionResponse = fromChatCompletion(data, { id: `lmstudio_${Date.now()}`, model: this.model });
 
       logger.debug('LM Studio completion successful:', {
         id: completionResponse.id,
@@ -211,6 +386,10 @@ export class LMStudioClient implements AIProvider {
 
       return completionResponse;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      
       logger.error('LM Studio completion failed:', error);
       
       if (error instanceof Error && error.message.includes('LM Studio API error')) {
@@ -225,40 +404,145 @@ export class LMStudioClient implements AIProvider {
     }
   }
 
+  /**
+   * Embed texts through LM Studio's OpenAI-style `/v1/embeddings` endpoint
+   * 
+   * LM Studio loads the embedding model on first use.
+   */
+  async embed(texts: string[], model?: string): Promise<EmbeddingResponse> {
+    const embeddingModel = model || this.config.defaultEmbeddingModel || await this.findEmbeddingModel();
+    
+    logger.debug('Sending embedding request to LM Studio:', { model: embeddingModel, count: texts.length });
+    
+    const timeoutFetch = withTimeout(
+      (input: string[], signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ model: embeddingModel, input }),
+        signal
+      }),
+      this.config.timeout
+    );
+    
+    return embedInBatches(texts, embeddingModel, this.config.embeddingBatchSize, async batch => {
+      const response = await timeoutFetch(batch);
+      
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw createUserError('LM Studio embedding error', {
+          cause: new Error(`HTTP ${response.status}: ${errorText}`),
+          category: ErrorCategory.API,
+          resolution: `Check that ${embeddingModel} is an embedding model downloaded in LM Studio.`
+        });
+      }
+      
+      return fromOpenAIEmbeddings(await response.json());
+    });
+  }
+  
+  /**
+   * Pick an embedding model, preferring one that is already loaded
+   */
+  private async findEmbeddingModel(): Promise<string> {
+    let candidates: string[] = [];
+    
+    try {
+      const entries = await this.getModelEntries();
+      
+      if (entries) {
+        candidates = entries
+          .filter(m => m.type === 'embeddings')
+          .sort((a, b) => Number(b.state === 'loaded') - Number(a.state === 'loaded'))
+          .map(m => m.id);
+      } else {
+        // Older versions only have the OpenAI-style list, without model types
+        candidates = (await this.getModels()).filter(id => /embed/i.test(id));
+      }
+    } catch (error) {
+      logger.debug('Could not list LM Studio embedding models', error);
+    }
+    
+    if (candidates.length === 0) {
+      throw createUserError('No embedding model is available in LM Studio', {
+        category: ErrorCategory.CONFIGURATION,
+        resolution: 'Download an embedding model (such as nomic-embed-text) in LM Studio, or set ai.embeddingModel.'
+      });
+    }
+    
+    return candidates[0];
+  }
+
   /**
    * Stream text completion using LM Studio
+   * 
+   * LM Studio streams OpenAI-style `chat.completion.chunk` objects as
+   * server-sent events, terminated by a `data: [DONE]` frame.
    */
   async *completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
-    const streamOptions = { ...options, stream: true };
+    // Structured output has to be validated whole before it is shown
+    if (options.responseFormat) {
+      yield* responseEvents(await this.complete(options));
+      return;
+    }
+
+    yield* this.tools.stream(options, this.model, chatOptions => this.streamChat(chatOptions));
+  }
+
+  /**
+   * Stream a single chat completion request
+   */
+  private async *streamChat(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    const requestBody = this.buildRequestBody(options, true);
     
+    logger.debug('Sending streaming completion request to LM Studio:', {
+      model: this.model,
+      messageCount: requestBody.messages.length
+    });
+    
+    let response: Response;
     try {
-      const response = await this.complete(streamOptions);
-      
-      // For now, return the complete response as a single event
-      // In a full implementation, this would handle actual streaming
-      yield {
-        type: 'message_start',
-        message: {
-          id: response.id,
-          model: response.model,
-          content: response.content,
-          stop_reason: response.stop_reason
-        }
-      };
-      
-      yield {
-        type: 'message_stop',
-        message: {
-          id: response.id,
-          model: response.model,
-          content: response.content,
-          stop_reason: response.stop_reason
-        }
-      };
+      // Only the wait for response headers is bounded by the timeout
+      const timeoutFetch = withTimeout(
+        (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'text/event-stream'
+          },
+          body: JSON.stringify(requestBody),
+          signal
+        }),
+        this.config.timeout,
+        { signal: options.signal }
+      );
+      response = await timeoutFetch();
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      
       logger.error('LM Studio streaming failed:', error);
-      throw error;
+      throw createUserError('Failed to stream text from LM Studio', {
+        cause: error,
+        category: ErrorCategory.API,
+        resolution: 'Check if LM Studio is running and the model is loaded.'
+      });
     }
+    
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      logger.error(`LM Studio API error: ${response.status} - ${errorText}`);
+      
+      throw createUserError('LM Studio API error', {
+        cause: new Error(`HTTP ${response.status}: ${errorText}`),
+        category: ErrorCategory.API,
+        resolution: 'Check LM Studio logs and ensure the model is loaded.'
+      });
+    }
+    
+    yield* chatCompletionEvents(response.body, { id: `lmstudio_${Date.now()}`, model: this.model }, 'LM Studio');
   }
 
   /**
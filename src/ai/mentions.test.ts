@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { completeMention, parseMentions, resolveMentions } from './mentions.js';
+
+const source = [
+  'import path from \'path\';',
+  '',
+  'export function main(): void {',
+  '  console.log(\'hello\');',
+  '}',
+  '',
+  'export const version = 1;',
+  ''
+].join('\n');
+
+const originalCwd = process.cwd();
+let projectDir: string;
+
+beforeEach(async () => {
+  projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'knightcode-mentions-'));
+  await fs.mkdir(path.join(projectDir, 'src', 'ai'), { recursive: true });
+  await fs.writeFile(path.join(projectDir, 'src', 'cli.ts'), source);
+  await fs.writeFile(path.join(projectDir, 'src', 'ai', 'index.ts'), 'export {};\n');
+  process.chdir(projectDir);
+});
+
+afterEach(async () => {
+  process.chdir(originalCwd);
+  await fs.rm(projectDir, { recursive: true, force: true });
+});
+
+describe('parseMentions', () => {
+  it('leaves trailing punctuation out of the path', () => {
+    expect(parseMentions('See @src/cli.ts. Then @src/ai/index.ts, and (@README.md): done?').map(mention => mention.path))
+      .toEqual(['src/cli.ts', 'src/ai/index.ts', 'README.md']);
+  });
+
+  it('reads line ranges and symbols', () => {
+    expect(parseMentions('Fix @src/cli.ts:10-40 and @src/cli.ts:7 using @src/cli.ts#main')).toEqual([
+      { raw: '@src/cli.ts:10-40', path: 'src/cli.ts', startLine: 10, endLine: 40 },
+      { raw: '@src/cli.ts:7', path: 'src/cli.ts', startLine: 7, endLine: 7 },
+      { raw: '@src/cli.ts#main', path: 'src/cli.ts', symbol: 'main' }
+    ]);
+  });
+
+  it('only starts a mention at the start of a word, and skips escapes', () => {
+    expect(parseMentions('mail me@example.com or write \\@src/cli.ts')).toEqual([]);
+  });
+});
+
+describe('resolveMentions', () => {
+  it('attaches a mentioned file and unescapes literal @', async () => {
+    const resolved = await resolveMentions('Explain @src/cli.ts, not \\@src/cli.ts');
+
+    expect(resolved.text).toBe('Explain @src/cli.ts, not @src/cli.ts');
+    expect(resolved.mentions.map(mention => mention.raw)).toEqual(['@src/cli.ts']);
+    expect(resolved.attachments).toEqual([{ name: path.join('src', 'cli.ts'), content: source }]);
+  });
+
+  it('attaches only the lines of a range', async () => {
+    const { attachments } = await resolveMentions('Look at @src/cli.ts:3-5');
+
+    expect(attachments).toEqual([{
+      name: `${path.join('src', 'cli.ts')}:3-5`,
+      content: 'export function main(): void {\n  console.log(\'hello\');\n}',
+      language: 'typescript'
+    }]);
+  });
+
+  it('attaches only the declaration of a symbol', async () => {
+    const { attachments } = await resolveMentions('What does @src/cli.ts#main print?');
+
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0].name).toBe(`${path.join('src', 'cli.ts')}:3-5`);
+    expect(attachments[0].content).toContain('console.log');
+    expect(attachments[0].content).not.toContain('version');
+  });
+
+  it('lists a mentioned directory', async () => {
+    const { attachments } = await resolveMentions('Summarize @src/ai/');
+
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0].name).toBe(`${path.join('src', 'ai')}/`);
+    expect(attachments[0].content).toContain('index.ts');
+  });
+
+  it('warns about path-like mentions that name nothing, and ignores words', async () => {
+    const resolved = await resolveMentions('Add @types/node and keep @Override on @src/cli.ts');
+
+    expect(resolved.unresolved).toEqual(['@types/node']);
+    expect(resolved.text).toBe('Add @types/node and keep @Override on @src/cli.ts');
+    expect(resolved.attachments.map(attachment => attachment.name)).toEqual([path.join('src', 'cli.ts')]);
+  });
+
+  it('skips excluded files', async () => {
+    const resolved = await resolveMentions('Explain @src/cli.ts', { excludePatterns: ['src/**'] });
+
+    expect(resolved.attachments).toEqual([]);
+    expect(resolved.skipped).toEqual([{ path: path.join('src', 'cli.ts'), reason: 'excluded by src/**' }]);
+  });
+});
+
+describe('completeMention', () => {
+  it('completes the mention at the end of the line, marking directories', async () => {
+    expect(await completeMention('explain @src/')).toEqual([['@src/ai/', '@src/cli.ts'], '@src/']);
+    expect(await completeMention('explain @src/c')).toEqual([['@src/cli.ts'], '@src/c']);
+    expect(await completeMention('no mention here')).toEqual([[], 'no mention here']);
+  });
+});
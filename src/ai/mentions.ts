@@ -0,0 +1,183 @@
+/**
+ * File Mentions
+ *
+ * Expands `@path` mentions in a prompt into attached context, so files can
+ * be named inline instead of with flags:
+ *
+ *     @src/cli.ts        the whole file
+ *     @src/cli.ts:10-40  lines 10 to 40 (or `:10` for one line)
+ *     @src/cli.ts#main   the declaration of `main`
+ *     @src/ai/           a listing of the files in a directory
+ *
+ * A mention starts a word; `\@` keeps a literal `@`. Trailing punctuation
+ * is not part of the path. Mentions that name no file or directory, such as
+ * `@Override` or `@types/node`, are left in the prompt as plain text.
+ */
+
+import path from 'path';
+import { directoryExists, fileExists, listDirectory } from '../fs/operations.js';
+import { ContextAttachment } from './budget.js';
+import { ContextFileOptions, ContextFiles, collectContextFiles, summarizeDirectory } from './context.js';
+import { getLanguageFromFilePath } from './prompts.js';
+import { getRegionText, parseCodeTarget, resolveCodeRegion } from './regions.js';
+
+// `@` at the start of a word, then a path up to whitespace or punctuation,
+// then an optional `#symbol`
+const MENTION_PATTERN = /(^|[\s([{"'`])@([^\s@"'`()[\]{},;?!#]+(?:#[\w$]+(?:\.[\w$]+)*)?)/g;
+
+/**
+ * A file or directory named in a prompt
+ */
+export interface Mention {
+  /**
+   * The mention as written, including the `@`
+   */
+  raw: string;
+  path: string;
+  startLine?: number;
+  endLine?: number;
+  symbol?: string;
+}
+
+/**
+ * A prompt with its mentions resolved
+ */
+export interface ResolvedMentions extends ContextFiles {
+  /**
+   * The prompt, with `\@` escapes turned into `@`
+   */
+  text: string;
+
+  /**
+   * The mentions that were attached
+   */
+  mentions: Mention[];
+
+  /**
+   * Mentions that look like paths but name nothing, left as text
+   */
+  unresolved: string[];
+}
+
+/**
+ * Find the mentions in a prompt
+ */
+export function parseMentions(text: string): Mention[] {
+  const mentions: Mention[] = [];
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    // Sentence punctuation after a mention isn't part of the path
+    const raw = match[2].replace(/[.:]+$/, '');
+    if (raw) {
+      mentions.push({ raw: `@${raw}`, ...parseCodeTarget(raw) });
+    }
+  }
+
+  return mentions;
+}
+
+/**
+ * Whether a mention is written like a path rather than a word or decorator
+ */
+function looksLikePath(mention: Mention): boolean {
+  return mention.path.includes('/') || mention.path.includes('.') || mention.startLine !== undefined || mention.symbol !== undefined;
+}
+
+/**
+ * Cut an attachment down to the lines or symbol a mention names
+ */
+function narrowAttachment(attachment: ContextAttachment, mention: Mention): ContextAttachment {
+  const region = resolveCodeRegion(attachment.content, mention);
+  if (!region) {
+    return attachment;
+  }
+
+  return {
+    name: `${attachment.name}:${region.startLine}-${region.endLine}`,
+    content: getRegionText(attachment.content, region),
+    language: getLanguageFromFilePath(attachment.name)
+  };
+}
+
+/**
+ * Resolve the mentions in a prompt into attachments
+ *
+ * Files go through the same exclusion and size checks as `--context`.
+ * Mentions that name no file or directory stay in the prompt as text;
+ * those written like paths are listed in `unresolved` so the caller can
+ * warn about a likely typo.
+ */
+export async function resolveMentions(text: string, options: ContextFileOptions = {}): Promise<ResolvedMentions> {
+  const result: ResolvedMentions = {
+    text: text.replace(/\\@/g, '@'),
+    mentions: [],
+    unresolved: [],
+    attachments: [],
+    skipped: []
+  };
+
+  const seen = new Set<string>();
+  for (const mention of parseMentions(text)) {
+    if (seen.has(mention.raw)) {
+      continue;
+    }
+    seen.add(mention.raw);
+
+    if (!await fileExists(mention.path) && !await directoryExists(mention.path)) {
+      if (looksLikePath(mention)) {
+        result.unresolved.push(mention.raw);
+      }
+      continue;
+    }
+    result.mentions.push(mention);
+
+    if (await directoryExists(mention.path)) {
+      result.attachments.push(await summarizeDirectory(mention.path, options));
+      continue;
+    }
+
+    const files = await collectContextFiles([mention.path], options);
+    result.skipped.push(...files.skipped);
+    result.attachments.push(...files.attachments.map(attachment => narrowAttachment(attachment, mention)));
+  }
+
+  return result;
+}
+
+/**
+ * Complete the mention at the end of a line of input
+ *
+ * Has the shape of a readline completer: returns the candidate mentions and
+ * the text they replace. Directories end in `/` so completion can continue
+ * into them.
+ */
+export async function completeMention(line: string): Promise<[string[], string]> {
+  const match = line.match(/(?:^|\s)@([^\s@]*)$/);
+  if (!match) {
+    return [[], line];
+  }
+
+  const partial = match[1];
+  const slash = partial.lastIndexOf('/');
+  const directory = partial.slice(0, slash + 1);
+  const prefix = partial.slice(slash + 1);
+
+  let entries: string[];
+  try {
+    entries = await listDirectory(directory || '.');
+  } catch {
+    return [[], `@${partial}`];
+  }
+
+  const candidates: string[] = [];
+  for (const entry of entries.sort()) {
+    // Hidden entries only when asked for
+    if (!entry.startsWith(prefix) || (entry.startsWith('.') && !prefix.startsWith('.'))) {
+      continue;
+    }
+    const isDirectory = await directoryExists(path.join(directory || '.', entry));
+    candidates.push(`@${directory}${entry}${isDirectory ? '/' : ''}`);
+  }
+
+  return [candidates, `@${partial}`];
+}
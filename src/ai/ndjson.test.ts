@@ -0,0 +1,59 @@
+import { describe, expect, it } from '@jest/globals';
+import { ReadableStream } from 'stream/web';
+import { parseNDJSONStream } from './ndjson.js';
+
+/**
+ * Build a response body that delivers the given chunks one read at a time
+ */
+function streamOf(chunks: Array<string | Uint8Array>): globalThis.ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller): void {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    }
+  }) as globalThis.ReadableStream<Uint8Array>;
+}
+
+async function collect(chunks: Array<string | Uint8Array>): Promise<unknown[]> {
+  const objects: unknown[] = [];
+  for await (const object of parseNDJSONStream(streamOf(chunks))) {
+    objects.push(object);
+  }
+  return objects;
+}
+
+describe('parseNDJSONStream', () => {
+  it('yields an object per line', async () => {
+    expect(await collect(['{"a":1}\n{"a":2}\n'])).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('joins objects split mid-line across reads', async () => {
+    expect(await collect(['{"message":{"con', 'tent":"Hel"}}\n{"mes', 'sage":{"content":"lo"}}\n'])).toEqual([
+      { message: { content: 'Hel' } },
+      { message: { content: 'lo' } }
+    ]);
+  });
+
+  it('joins multi-byte characters split across reads', async () => {
+    const bytes = new TextEncoder().encode('{"text":"héllo"}\n');
+    expect(await collect([bytes.slice(0, 10), bytes.slice(10)])).toEqual([{ text: 'héllo' }]);
+  });
+
+  it('parses a last line without a trailing newline', async () => {
+    expect(await collect(['{"done":false}\n{"done":true,', '"eval_count":5}'])).toEqual([
+      { done: false },
+      { done: true, eval_count: 5 }
+    ]);
+  });
+
+  it('skips blank and malformed lines', async () => {
+    expect(await collect(['\n{"a":1}\n\n{not json}\n  \n{"a":2}\n'])).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('yields nothing for an empty body', async () => {
+    expect(await collect([])).toEqual([]);
+  });
+});
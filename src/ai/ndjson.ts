@@ -0,0 +1,67 @@
+/**
+ * Newline-Delimited JSON
+ *
+ * Minimal parser for `application/x-ndjson` response bodies as used by
+ * Ollama's streaming endpoints.
+ */
+
+import { logger } from '../utils/logger.js';
+
+/**
+ * Parse a newline-delimited JSON stream
+ *
+ * Objects may be split across network reads at any byte, so partial lines
+ * are buffered until their terminating newline arrives. Blank lines are
+ * skipped, and lines that aren't valid JSON are logged and skipped.
+ */
+export async function* parseNDJSONStream<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Parse a single line of the stream
+  const parseLine = (line: string): T | null => {
+    if (!line.trim()) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(line) as T;
+    } catch (error) {
+      logger.error('Failed to parse stream event', { line, error });
+      return null;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+
+        const data = parseLine(line);
+        if (data !== null) {
+          yield data;
+        }
+      }
+    }
+
+    // Flush whatever is left once the stream closes
+    buffer += decoder.decode();
+    const data = parseLine(buffer);
+    if (data !== null) {
+      yield data;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { OllamaClient } from './ollama-client.js';
+import { StreamEvent } from './provider.js';
+
+const originalFetch = globalThis.fetch;
+
+/**
+ * Answer every request with an NDJSON body delivered in the given chunks
+ */
+function mockStream(chunks: string[]): void {
+  const encoder = new TextEncoder();
+  globalThis.fetch = jest.fn(async () => new Response(new ReadableStream<Uint8Array>({
+    start(controller): void {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    }
+  }))) as typeof fetch;
+}
+
+async function collect(client: OllamaClient): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of client.completeStream({ messages: [{ role: 'user', content: 'Hi' }] })) {
+    events.push(event);
+  }
+  return events;
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('OllamaClient.completeStream', () => {
+  const client = new OllamaClient({ defaultModel: 'qwen2.5-coder:7b' });
+
+  it('streams text and finishes with the usage from the done record', async () => {
+    mockStream([
+      '{"model":"qwen2.5-coder:7b","message":{"role":"assistant","content":"Hel"},"done":false}\n{"model":"qwen2.5-',
+      'coder:7b","message":{"role":"assistant","content":"lo"},"done":false}\n',
+      '{"model":"qwen2.5-coder:7b","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop","prompt_eval_count":12,"eval_count":2}\n'
+    ]);
+
+    const events = await collect(client);
+
+    expect(events.map(event => event.type)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop'
+    ]);
+    expect(events.filter(event => event.delta).map(event => event.delta?.text)).toEqual(['Hel', 'lo']);
+
+    const stop = events[events.length - 1];
+    expect(stop.usage_metadata).toEqual({ input_tokens: 12, output_tokens: 2 });
+    expect(stop.message).toMatchObject({
+      model: 'qwen2.5-coder:7b',
+      content: [{ type: 'text', text: 'Hello' }],
+      stop_reason: 'stop'
+    });
+  });
+
+  it('reports native tool calls from the stream', async () => {
+    mockStream([
+      '{"model":"m","message":{"role":"assistant","content":"","tool_calls":[{"function":{"name":"read_file","arguments":{"path":"a.ts"}}}]},"done":false}\n',
+      '{"model":"m","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop","prompt_eval_count":1,"eval_count":1}'
+    ]);
+
+    const stop = (await collect(client)).pop();
+
+    expect(stop?.message?.stop_reason).toBe('tool_use');
+    expect(stop?.message?.content).toEqual([
+      expect.objectContaining({ type: 'tool_use', name: 'read_file', input: { path: 'a.ts' } })
+    ]);
+  });
+
+  it('throws on an error record sent partway through', async () => {
+    mockStream([
+      '{"model":"m","message":{"role":"assistant","content":"Par"},"done":false}\n',
+      '{"error":"model runner has unexpectedly stopped"}\n'
+    ]);
+
+    await expect(collect(client)).rejects.toThrow('Ollama API error: model runner has unexpectedly stopped');
+  });
+
+  it('throws when the stream ends without a done record', async () => {
+    mockStream(['{"model":"m","message":{"role":"assistant","content":"Par"},"done":false}\n']);
+
+    await expect(collect(client)).rejects.toThrow('Ollama stream ended before the response was complete');
+  });
+});
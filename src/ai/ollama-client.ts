@@ -7,28 +7,132 @@
 
 import { logger } from '../utils/logger.js';
 import { createUserError } from '../errors/formatter.js';
-import { ErrorCategory } from '../errors/types.js';
-import { withTimeout, withRetry } from '../utils/async.js';
-import { AIProvider, Message, CompletionOptions, CompletionResponse, StreamEvent } from './provider.js';
+import { ErrorCategory, UserError } from '../errors/types.js';
+import { withTimeout, withRetry, isAbortError } from '../utils/async.js';
+import { AIProvider, Message, CompletionOptions, CompletionResponse, EmbeddingResponse, LoadedModel, PullOptions, StreamEvent, ToolMode, ToolUseContent } from './provider.js';
+import { AIModel } from './types.js';
+import { createContent } from './content.js';
+import { parseNDJSONStream } from './ndjson.js';
+import { embedInBatches, DEFAULT_EMBEDDING_BATCH_SIZE } from './embeddings.js';
+import {
+  ChatMessage,
+  ChatTool,
+  ChatToolCall,
+  ToolCallingSupport,
+  toChatMessages,
+  toChatTools,
+  fromChatToolCalls,
+  toolUseEvents,
+  responseEvents,
+  isToolsUnsupportedError
+} from './tools.js';
+import { completeStructured } from './structured.js';
 
-interface CompletionRequest {
+interface ChatRequest {
   model: string;
-  messages: Message[];
-  temperature?: number;
-  max_tokens?: number;
-  top_p?: number;
-  top_k?: number;
-  stop_sequences?: string[];
-  stream?: boolean;
-  system?: string;
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+  format?: Record<string, unknown>;
+  keep_alive?: string | number;
+  stream: boolean;
+  options: {
+    temperature?: number;
+    num_predict?: number;
+    top_p?: number;
+    top_k?: number;
+    stop?: string[];
+    seed?: number;
+    num_ctx?: number;
+  };
 }
 
 interface ApiError {
-  error?: {
+  error?: string | {
     message?: string;
   };
 }
 
+/**
+ * A record of a streamed response; Ollama reports failures partway
+ * through as a record with only `error` set
+ */
+interface StreamRecord {
+  error?: string;
+}
+
+/**
+ * A chat response, or one chunk of a streamed one
+ */
+interface ChatResponse extends StreamRecord {
+  model?: string;
+  message?: {
+    content?: string;
+    tool_calls?: ChatToolCall[];
+  };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * A progress record from `/api/pull`
+ */
+interface PullProgress extends StreamRecord {
+  status?: string;
+  completed?: number;
+  total?: number;
+}
+
+/**
+ * A response from `/api/embed`, or `embedding` from the older `/api/embeddings`
+ */
+interface EmbedResponse {
+  model?: string;
+  embeddings?: number[][];
+  embedding?: number[];
+  prompt_eval_count?: number;
+}
+
+/**
+ * A model as listed by `/api/tags` and `/api/ps`
+ */
+interface ModelEntry {
+  name: string;
+  size?: number;
+  modified_at?: string;
+  size_vram?: number;
+  context_length?: number;
+  expires_at?: string;
+  details?: ModelDetails;
+}
+
+interface ModelDetails {
+  family?: string;
+  parameter_size?: string;
+  quantization_level?: string;
+}
+
+interface ModelList {
+  models?: ModelEntry[];
+}
+
+/**
+ * A response from `/api/show`
+ */
+interface ShowResponse {
+  details?: ModelDetails;
+  model_info?: Record<string, unknown>;
+  parameters?: string;
+  template?: string;
+  capabilities?: string[];
+}
+
+/**
+ * A Modelfile parameter; repeated ones such as `stop` become an array
+ */
+type ModelfileParameter = string | number | Array<string | number>;
+
 // Default API configuration
 const DEFAULT_CONFIG = {
   apiBaseUrl: 'http://localhost:11434',
@@ -40,7 +144,13 @@ const DEFAULT_CONFIG = {
   },
   defaultModel: 'devstral:24b',
   defaultMaxTokens: 4096,
-  defaultTemperature: 0.7
+  defaultTemperature: 0.7,
+  toolMode: 'auto' as ToolMode,
+  defaultEmbeddingModel: 'nomic-embed-text',
+  embeddingBatchSize: DEFAULT_EMBEDDING_BATCH_SIZE,
+  // How long Ollama keeps a model loaded after a request; unset uses the
+  // server's default (5 minutes)
+  keepAlive: undefined as string | number | undefined
 };
 
 /**
@@ -48,6 +158,9 @@ const DEFAULT_CONFIG = {
  */
 export class OllamaClient implements AIProvider {
   private config: typeof DEFAULT_CONFIG;
+  private tools = new ToolCallingSupport('Ollama', () => this.config.toolMode);
+  private modelInfo = new Map<string, AIModel>();
+  private legacyEmbeddings = false;
   
   /**
    * Create a new Ollama client
@@ -61,6 +174,17 @@ export class OllamaClient implements AIProvider {
     });
   }
   
+  /**
+   * Get the `keep_alive` value to send, if one is configured
+   * 
+   * Ollama reads strings as durations ("30m"), so a bare number of seconds
+   * such as "-1" (keep loaded) is sent as a number.
+   */
+  private getKeepAlive(): string | number | undefined {
+    const { keepAlive } = this.config;
+    return typeof keepAlive === 'string' && /^-?\d+$/.test(keepAlive.trim()) ? Number(keepAlive) : keepAlive;
+  }
+  
   /**
    * Format API request headers
    */
@@ -71,61 +195,104 @@ export class OllamaClient implements AIProvider {
   }
   
   /**
-   * Send a completion request to Ollama
+   * Build a chat request for Ollama
+   * 
+   * The system prompt is sent as a leading `system` message so it keeps its
+   * role instead of being flattened into the user's text. Ollama has no
+   * `tool_choice`, so a choice other than `none` just sends the tools.
    */
-  async complete(options: CompletionOptions): Promise<CompletionResponse> {
-    logger.debug('Sending completion request', { model: options.model || this.config.defaultModel });
-    
-    // Format the request
-    const messages: Message[] = options.messages;
+  private buildChatRequest(options: CompletionOptions, stream: boolean): ChatRequest {
+    const messages: Message[] = options.system
+      ? [{ role: 'system', content: options.system }, ...options.messages]
+      : options.messages;
     
-    const request = {
+    const request: ChatRequest = {
       model: options.model || this.config.defaultModel,
-      prompt: messages.map(m => m.content).join('\n'),
-      stream: false,
+      messages: toChatMessages(messages, 'ollama'),
+      keep_alive: this.getKeepAlive(),
+      stream,
       options: {
         temperature: options.temperature ?? this.config.defaultTemperature,
         num_predict: options.maxTokens || this.config.defaultMaxTokens,
         top_p: options.topP,
         top_k: options.topK,
-        stop: options.stopSequences
+        stop: options.stopSequences,
+        seed: options.seed,
+        num_ctx: options.contextLength
       }
     };
     
+    if (options.tools?.length && options.toolChoice !== 'none') {
+      request.tools = toChatTools(options.tools);
+    }
+    
+    // Ollama constrains generation to the schema
+    if (options.responseFormat) {
+      request.format = options.responseFormat.schema;
+    }
+    
+    return request;
+  }
+  
+  /**
+   * Send a completion request to Ollama
+   */
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const model = options.model || this.config.defaultModel;
+    return completeStructured(options, structuredOptions =>
+      this.tools.complete(structuredOptions, model, chatOptions => this.chat(chatOptions)));
+  }
+  
+  /**
+   * Send a single chat request
+   */
+  private async chat(options: CompletionOptions): Promise<CompletionResponse> {
+    logger.debug('Sending completion request', { model: options.model || this.config.defaultModel });
+    
+    const request = this.buildChatRequest(options, false);
+    
     // Make the API request with timeout and retry
     try {
-      const sendRequestWithPath = async (path: string, requestOptions: RequestInit) => {
-        return this.sendRequest(path, requestOptions);
+      const sendRequestWithPath = async (path: string, requestOptions: RequestInit, signal: AbortSignal): Promise<ChatResponse> => {
+        return this.sendRequest<ChatResponse>(path, { ...requestOptions, signal });
       };
       
-      const timeoutFn = withTimeout(sendRequestWithPath, this.config.timeout);
+      const timeoutFn = withTimeout(sendRequestWithPath, this.config.timeout, { signal: options.signal });
       
       const retryFn = withRetry(timeoutFn, {
         maxRetries: this.config.retryOptions.maxRetries,
         initialDelayMs: this.config.retryOptions.initialDelayMs,
-        maxDelayMs: this.config.retryOptions.maxDelayMs
+        maxDelayMs: this.config.retryOptions.maxDelayMs,
+        // A model without tool support fails the same way every time
+        isRetryable: (error: Error) => !isToolsUnsupportedError(error),
+        signal: options.signal
       });
       
-      const response = await retryFn('/api/generate', {
+      const response = await retryFn('/api/chat', {
         method: 'POST',
         headers: this.getHeaders(),
         body: JSON.stringify(request)
       });
       
       // Convert Ollama response to our CompletionResponse format
+      const toolUses = fromChatToolCalls(response.message?.tool_calls);
+      
       return {
         id: Date.now().toString(),
-        model: response.model,
+        model: response.model || request.model,
         usage: {
           input_tokens: response.prompt_eval_count || 0,
           output_tokens: response.eval_count || 0
         },
-        content: [{
-          type: 'text',
-          text: response.response
-        }]
+        content: createContent(response.message?.content || '', toolUses),
+        // Ollama reports `stop` even when the model called tools
+        stop_reason: toolUses.length > 0 ? 'tool_use' : response.done_reason || 'stop'
       };
     } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      
       let errorMessage = 'Unknown error';
       if (error && typeof error === 'object' && 'error' in error) {
         const err = error as { error?: { message?: string } };
@@ -137,52 +304,119 @@ export class OllamaClient implements AIProvider {
   
   /**
    * Send a streaming completion request to Ollama
+   * 
+   * Ollama streams newline-delimited JSON objects. Each object carries a
+   * fragment of the assistant message; the final one has `done: true` and
+   * the token counts for the whole request. Tool calls arrive complete in
+   * a single chunk.
    */
   async *completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
-    logger.debug('Sending streaming completion request', { model: options.model || this.config.defaultModel });
+    // Structured output has to be validated whole before it is shown
+    if (options.responseFormat) {
+      yield* responseEvents(await this.complete(options));
+      return;
+    }
     
-    // Format the request
-    const messages: Message[] = options.messages;
+    const model = options.model || this.config.defaultModel;
+    yield* this.tools.stream(options, model, chatOptions => this.streamChat(chatOptions));
+  }
+  
+  /**
+   * Stream a single chat request
+   */
+  private async *streamChat(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    const model = options.model || this.config.defaultModel;
+    logger.debug('Sending streaming completion request', { model });
     
-    const request = {
-      model: options.model || this.config.defaultModel,
-      prompt: messages.map(m => m.content).join('\n'),
-      stream: true,
-      options: {
-        temperature: options.temperature ?? this.config.defaultTemperature,
-        num_predict: options.maxTokens || this.config.defaultMaxTokens,
-        top_p: options.topP,
-        top_k: options.topK,
-        stop: options.stopSequences
-      }
-    };
+    const request = this.buildChatRequest(options, true);
+    
+    const id = Date.now().toString();
+    let text = '';
+    let started = false;
+    const toolUses: ToolUseContent[] = [];
     
-    // For now, return a simple stream implementation
-    // In a full implementation, this would handle actual streaming
     try {
-      const response = await this.complete(options);
+      const chunks = this.sendStreamRequest<ChatResponse>('/api/chat', {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(request),
+        signal: options.signal
+      });
       
-      yield {
-        type: 'message_start',
-        message: {
-          id: response.id,
-          model: response.model,
-          content: response.content,
-          stop_reason: response.stop_reason
+      for await (const chunk of chunks) {
+        if (!started) {
+          started = true;
+          
+          yield {
+            type: 'message_start',
+            message: {
+              id,
+              model: chunk.model || model,
+              content: []
+            }
+          };
+          
+          yield {
+            type: 'content_block_start',
+            index: 0
+          };
         }
-      };
-      
-      yield {
-        type: 'message_stop',
-        message: {
-          id: response.id,
-          model: response.model,
-          content: response.content,
-          stop_reason: response.stop_reason
+        
+        const deltaText = chunk.message?.content;
+        if (deltaText) {
+          text += deltaText;
+          
+          yield {
+            type: 'content_block_delta',
+            index: 0,
+            delta: {
+              type: 'text',
+              text: deltaText
+            }
+          };
         }
-      };
+        
+        toolUses.push(...fromChatToolCalls(chunk.message?.tool_calls));
+        
+        if (chunk.done) {
+          const usage = {
+            input_tokens: chunk.prompt_eval_count || 0,
+            output_tokens: chunk.eval_count || 0
+          };
+          const stopReason = toolUses.length > 0 ? 'tool_use' : chunk.done_reason || 'stop';
+          
+          yield {
+            type: 'content_block_stop',
+            index: 0
+          };
+          
+          yield* toolUseEvents(toolUses, 1);
+          
+          yield {
+            type: 'message_delta',
+            usage_metadata: usage
+          };
+          
+          yield {
+            type: 'message_stop',
+            message: {
+              id,
+              model: chunk.model || model,
+              content: createContent(text, toolUses),
+              stop_reason: stopReason
+            },
+            usage_metadata: usage
+          };
+          
+          return;
+        }
+      }
+      
+      throw new Error('Ollama stream ended before the response was complete');
     } catch (error) {
-      logger.error('Ollama streaming failed:', error);
+      if (!isAbortError(error)) {
+        logger.error('Ollama streaming failed:', error);
+      }
       throw error;
     }
   }
@@ -195,8 +429,8 @@ export class OllamaClient implements AIProvider {
       typeof error === 'object' &&
       error !== null &&
       'error' in error &&
-      typeof (error as any).error === 'object' &&
-      (error as any).error !== null
+      typeof (error as { error: unknown }).error === 'object' &&
+      (error as { error: unknown }).error !== null
     );
   }
   
@@ -238,12 +472,15 @@ export class OllamaClient implements AIProvider {
    */
   private async handleErrorResponse(response: Response): Promise<never> {
     let errorMessage: string;
-    let errorDetails: any;
+    let errorDetails: Record<string, unknown>;
     
     try {
       const errorResponse = await response.json() as ApiError;
-      errorMessage = errorResponse.error?.message || 'Unknown error';
-      errorDetails = errorResponse;
+      // Ollama reports errors as a plain string, e.g. { "error": "model not found" }
+      errorMessage = typeof errorResponse.error === 'string'
+        ? errorResponse.error
+        : errorResponse.error?.message || 'Unknown error';
+      errorDetails = { ...errorResponse };
     } catch {
       errorMessage = `HTTP error ${response.status}`;
       errorDetails = { status: response.status };
@@ -258,7 +495,7 @@ export class OllamaClient implements AIProvider {
   /**
    * Send a request to the Ollama API
    */
-  private async sendRequest(path: string, options: RequestInit): Promise<any> {
+  private async sendRequest<T>(path: string, options: RequestInit): Promise<T> {
     const url = `${this.config.apiBaseUrl}${path}`;
     
     const response = await fetch(url, options);
@@ -267,86 +504,243 @@ export class OllamaClient implements AIProvider {
       await this.handleErrorResponse(response);
     }
     
-    return response.json();
+    // Some endpoints, such as delete, answer with an empty body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
   }
   
   /**
    * Send a streaming request to the Ollama API
+   * 
+   * Yields each parsed NDJSON object as it arrives, and throws on the
+   * error records Ollama sends when generation fails partway.
    */
-  private async sendStreamRequest(
-    path: string, 
-    options: RequestInit,
-    onEvent: (event: StreamEvent) => void
-  ): Promise<void> {
+  private async *sendStreamRequest<T extends StreamRecord>(path: string, options: RequestInit): AsyncGenerator<T> {
     const url = `${this.config.apiBaseUrl}${path}`;
     
-    const response = await fetch(url, options);
+    // Only the wait for response headers is bounded by the timeout;
+    // generation itself can legitimately take much longer
+    const timeoutFetch = withTimeout(
+      (timeoutSignal: AbortSignal) => fetch(url, { ...options, signal: timeoutSignal }),
+      this.config.timeout,
+      { signal: options.signal ?? undefined }
+    );
+    const response = await timeoutFetch();
     
     if (!response.ok) {
       await this.handleErrorResponse(response);
     }
     
-    const reader = response.body?.getReader();
-    if (!reader) {
+    if (!response.body) {
       throw new Error('Failed to get response reader');
     }
     
-    const decoder = new TextDecoder();
-    let buffer = '';
+    for await (const data of parseNDJSONStream<T>(response.body)) {
+      // Ollama reports errors mid-stream as an object with an error field
+      if (data.error) {
+        throw createUserError(`Ollama API error: ${data.error}`, {
+          category: ErrorCategory.AI_SERVICE,
+          details: { ...data }
+        });
+      }
+      
+      yield data;
+    }
+  }
+
+  /**
+   * Embed texts with an Ollama embedding model
+   * 
+   * Uses the batch `/api/embed` endpoint, falling back to the older
+   * one-text-at-a-time `/api/embeddings` on servers that predate it.
+   */
+  async embed(texts: string[], model: string = this.config.defaultEmbeddingModel): Promise<EmbeddingResponse> {
+    logger.debug('Sending embedding request', { model, count: texts.length });
     
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          break;
-        }
-        
-        buffer += decoder.decode(value, { stream: true });
-        
-        // Process complete JSON objects
-        let newlineIndex;
-        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
-          const line = buffer.slice(0, newlineIndex);
-          buffer = buffer.slice(newlineIndex + 1);
-          
-          if (line.trim()) {
-            try {
-              const data = JSON.parse(line);
-              
-              // Convert Ollama stream event to our StreamEvent format
-              const event: StreamEvent = {
-                type: 'content_block_delta',
-                delta: {
-                  type: 'text',
-                  text: data.response
-                }
-              };
-              
-              onEvent(event);
-            } catch (error) {
-              logger.error('Failed to parse stream event', error);
-            }
+    const timeoutFn = withTimeout(
+      (path: string, options: RequestInit, signal: AbortSignal) => this.sendRequest<EmbedResponse>(path, { ...options, signal }),
+      this.config.timeout
+    );
+    const post = (path: string, body: Record<string, unknown>): Promise<EmbedResponse> => timeoutFn(path, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ ...body, keep_alive: this.getKeepAlive() })
+    });
+    
+    return embedInBatches(texts, model, this.config.embeddingBatchSize, async batch => {
+      if (!this.legacyEmbeddings) {
+        try {
+          const response = await post('/api/embed', { model, input: batch });
+          return {
+            embeddings: response.embeddings || [],
+            inputTokens: response.prompt_eval_count,
+            model: response.model
+          };
+        } catch (error) {
+          // A plain-text 404 means the endpoint itself is missing
+          if (!(error instanceof UserError) || error.details?.status !== 404) {
+            throw error;
           }
+          
+          logger.debug('Ollama has no /api/embed, using /api/embeddings');
+          this.legacyEmbeddings = true;
         }
       }
-    } finally {
-      reader.releaseLock();
-    }
+      
+      const embeddings: number[][] = [];
+      for (const text of batch) {
+        const response = await post('/api/embeddings', { model, prompt: text });
+        embeddings.push(response.embedding || []);
+      }
+      return { embeddings };
+    });
   }
-
+  
   /**
    * Get available models from Ollama
    */
   async getModels(): Promise<string[]> {
     try {
-      const response = await this.sendRequest('/api/tags', { method: 'GET' });
-      return response.models?.map((model: any) => model.name) || [];
+      const response = await this.sendRequest<ModelList>('/api/tags', { method: 'GET' });
+      return response.models?.map(model => model.name) || [];
     } catch (error) {
       logger.error('Failed to get Ollama models:', error);
       return [];
     }
   }
+  
+  /**
+   * List installed models with their size, date and quantization
+   */
+  async listModels(): Promise<AIModel[]> {
+    try {
+      const timeoutFn = withTimeout(
+        (path: string, options: RequestInit, signal: AbortSignal) => this.sendRequest<ModelList>(path, { ...options, signal }),
+        this.config.timeout
+      );
+      const response = await timeoutFn('/api/tags', { method: 'GET' });
+      
+      return (response.models || []).map((model): AIModel => ({
+        id: model.name,
+        name: model.name,
+        supportsStreaming: true,
+        provider: 'ollama',
+        parameterSize: model.details?.parameter_size,
+        quantization: model.details?.quantization_level,
+        family: model.details?.family,
+        size: model.size,
+        modifiedAt: model.modified_at ? new Date(model.modified_at) : undefined
+      }));
+    } catch (error) {
+      logger.error('Failed to list Ollama models:', error);
+      throw createUserError('Failed to get available models', {
+        cause: error,
+        category: ErrorCategory.CONNECTION,
+        resolution: 'Make sure Ollama is running with "ollama serve".'
+      });
+    }
+  }
+  
+  /**
+   * Download a model from the Ollama library
+   * 
+   * The pull endpoint streams status objects; while layers download they
+   * carry byte counts for the current layer.
+   */
+  async pullModel(model: string, options: PullOptions = {}): Promise<void> {
+    logger.debug('Pulling Ollama model', { model });
+    
+    const chunks = this.sendStreamRequest<PullProgress>('/api/pull', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      // Older servers read `name` instead of `model`
+      body: JSON.stringify({ model, name: model, stream: true }),
+      signal: options.signal
+    });
+    
+    for await (const chunk of chunks) {
+      options.onProgress?.({
+        status: chunk.status || '',
+        completed: chunk.completed,
+        total: chunk.total
+      });
+    }
+    
+    this.modelInfo.delete(model);
+  }
+  
+  /**
+   * Delete a downloaded model
+   */
+  async deleteModel(model: string): Promise<void> {
+    logger.debug('Deleting Ollama model', { model });
+    
+    await this.sendRequest('/api/delete', {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ model, name: model })
+    });
+    
+    this.modelInfo.delete(model);
+  }
+  
+  /**
+   * List the models Ollama holds in memory, from its `/api/ps` endpoint
+   */
+  async listLoadedModels(): Promise<LoadedModel[]> {
+    try {
+      const timeoutFn = withTimeout(
+        (path: string, options: RequestInit, signal: AbortSignal) => this.sendRequest<ModelList>(path, { ...options, signal }),
+        this.config.timeout
+      );
+      const response = await timeoutFn('/api/ps', { method: 'GET' });
+      
+      return (response.models || []).map((model): LoadedModel => ({
+        id: model.name,
+        size: model.size,
+        vramSize: model.size_vram,
+        contextLength: model.context_length,
+        expiresAt: model.expires_at ? new Date(model.expires_at) : undefined
+      }));
+    } catch (error) {
+      logger.error('Failed to list loaded Ollama models:', error);
+      throw createUserError('Failed to get loaded models', {
+        cause: error,
+        category: ErrorCategory.CONNECTION,
+        resolution: 'Make sure Ollama is running with "ollama serve".'
+      });
+    }
+  }
+  
+  /**
+   * Load a model into memory
+   * 
+   * A generate request without a prompt makes Ollama load the model and
+   * keep it for the configured `keep_alive`. Loading a large model can
+   * take minutes, so no timeout applies.
+   */
+  async loadModel(model: string = this.config.defaultModel): Promise<void> {
+    logger.debug('Loading Ollama model', { model });
+    
+    await this.sendRequest('/api/generate', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ model, keep_alive: this.getKeepAlive() })
+    });
+  }
+  
+  /**
+   * Unload a model from memory
+   */
+  async unloadModel(model: string): Promise<void> {
+    logger.debug('Unloading Ollama model', { model });
+    
+    await this.sendRequest('/api/generate', {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ model, keep_alive: 0 })
+    });
+  }
 
   /**
    * Set the model to use
@@ -363,10 +757,99 @@ export class OllamaClient implements AIProvider {
     return this.config.defaultModel;
   }
 
+  /**
+   * Get model details from Ollama's show endpoint
+   * 
+   * The trained context length lives under an architecture-specific key
+   * such as `llama.context_length`. A `num_ctx` parameter in the Modelfile
+   * is what Ollama actually allocates, so it takes precedence.
+   */
+  async getModelInfo(model: string = this.config.defaultModel): Promise<AIModel> {
+    const cached = this.modelInfo.get(model);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const timeoutFn = withTimeout(
+        (path: string, options: RequestInit, signal: AbortSignal) => this.sendRequest<ShowResponse>(path, { ...options, signal }),
+        this.config.timeout
+      );
+
+      const response = await timeoutFn('/api/show', {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ model })
+      });
+
+      const details = response.details || {};
+      const modelInfo = response.model_info || {};
+      const architecture = modelInfo['general.architecture'] as string | undefined;
+      const defaultParams = this.parseModelfileParameters(response.parameters);
+      const numCtx = defaultParams.num_ctx;
+
+      const info: AIModel = {
+        id: model,
+        name: model,
+        maxContextLength: typeof numCtx === 'number' && numCtx > 0
+          ? numCtx
+          : modelInfo[`${architecture}.context_length`] as number | undefined,
+        supportsStreaming: true,
+        defaultParams,
+        provider: 'ollama',
+        parameterSize: details.parameter_size,
+        quantization: details.quantization_level,
+        family: details.family || architecture,
+        template: response.template,
+        capabilities: response.capabilities
+      };
+
+      this.modelInfo.set(model, info);
+      return info;
+    } catch (error) {
+      logger.error(`Failed to get Ollama model info for ${model}:`, error);
+      throw createUserError(`Failed to get details for model ${model}`, {
+        cause: error,
+        category: ErrorCategory.AI_SERVICE,
+        resolution: 'Check the model name with "ollama list".'
+      });
+    }
+  }
+
+  /**
+   * Parse the `parameters` text of a Modelfile
+   * 
+   * Each line is a name followed by a value; repeated names such as `stop`
+   * are collected into an array.
+   */
+  private parseModelfileParameters(parameters: string | undefined): Record<string, ModelfileParameter> {
+    const result: Record<string, ModelfileParameter> = {};
+
+    for (const line of (parameters || '').split('\n')) {
+      const match = line.trim().match(/^(\S+)\s+(.+)$/);
+      if (!match) {
+        continue;
+      }
+
+      const [, name, rawValue] = match;
+      const text = rawValue.trim().replace(/^"(.*)"$/, '$1');
+      const value = /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : text;
+
+      const existing = result[name];
+      if (existing !== undefined) {
+        result[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      } else {
+        result[name] = value;
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Get configuration information
    */
-  getConfig(): any {
+  getConfig(): typeof DEFAULT_CONFIG {
     return { ...this.config };
   }
 
@@ -0,0 +1,122 @@
+import { describe, expect, it } from '@jest/globals';
+import { ReadableStream } from 'stream/web';
+import { chatCompletionEvents, fromChatCompletion, toChatCompletionRequest } from './openai-chat.js';
+import { StreamEvent } from './provider.js';
+
+/**
+ * Build a response body that sends each chunk as a server-sent event
+ */
+function eventStream(chunks: Array<Record<string, unknown> | string>): globalThis.ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller): void {
+      for (const chunk of chunks) {
+        const data = typeof chunk === 'string' ? chunk : JSON.stringify(chunk);
+        controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+      }
+      controller.close();
+    }
+  }) as globalThis.ReadableStream<Uint8Array>;
+}
+
+async function collect(chunks: Array<Record<string, unknown> | string>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of chatCompletionEvents(eventStream(chunks), { id: 'fallback', model: 'm' }, 'Test')) {
+    events.push(event);
+  }
+  return events;
+}
+
+const defaults = { defaultTemperature: 0.7, defaultMaxTokens: 4096 };
+
+describe('toChatCompletionRequest', () => {
+  it('sends the system prompt as a message and only the settings that are set', () => {
+    expect(toChatCompletionRequest({ system: 'Be brief.', messages: [{ role: 'user', content: 'Hi' }] }, 'm', false, defaults)).toEqual({
+      model: 'm',
+      messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }],
+      temperature: 0.7,
+      max_tokens: 4096,
+      stream: false
+    });
+  });
+
+  it('asks for usage when streaming and passes sampling settings', () => {
+    const request = toChatCompletionRequest(
+      { messages: [], temperature: 0, topP: 0.9, stopSequences: ['END'], seed: 7 },
+      'm',
+      true,
+      defaults
+    );
+
+    expect(request).toMatchObject({ temperature: 0, top_p: 0.9, stop: ['END'], seed: 7, stream_options: { include_usage: true } });
+  });
+});
+
+describe('fromChatCompletion', () => {
+  it('reads text, tool calls and usage', () => {
+    const response = fromChatCompletion({
+      id: 'chatcmpl-1',
+      choices: [{
+        message: { content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }] },
+        finish_reason: 'tool_calls'
+      }],
+      usage: { prompt_tokens: 20, completion_tokens: 5 }
+    }, { id: 'fallback', model: 'm' });
+
+    expect(response).toEqual({
+      id: 'chatcmpl-1',
+      model: 'm',
+      usage: { input_tokens: 20, output_tokens: 5 },
+      content: [{ type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'a.ts' } }],
+      stop_reason: 'tool_use'
+    });
+  });
+});
+
+describe('chatCompletionEvents', () => {
+  it('streams text, then completed tool calls, then usage', async () => {
+    const events = await collect([
+      { id: 'chatcmpl-2', model: 'qwen', choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo', tool_calls: [{ index: 0, id: 'call_1', function: { name: 'list_files', arguments: '{' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '}' } }] }, finish_reason: 'tool_calls' }] },
+      { choices: [], usage: { prompt_tokens: 9, completion_tokens: 4 } },
+      '[DONE]'
+    ]);
+
+    expect(events.map(event => event.type)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'content_block_start',
+      'content_block_stop',
+      'message_delta',
+      'message_stop'
+    ]);
+    expect(events[events.length - 1]).toEqual({
+      type: 'message_stop',
+      message: {
+        id: 'chatcmpl-2',
+        model: 'qwen',
+        content: [
+          { type: 'text', text: 'Hello' },
+          { type: 'tool_use', id: 'call_1', name: 'list_files', input: {} }
+        ],
+        stop_reason: 'tool_use'
+      },
+      usage_metadata: { input_tokens: 9, output_tokens: 4 }
+    });
+  });
+
+  it('throws on an error reported mid-stream', async () => {
+    await expect(collect([
+      { choices: [{ delta: { content: 'Hi' } }] },
+      { error: { message: 'context length exceeded' } }
+    ])).rejects.toThrow('Test API error: context length exceeded');
+  });
+
+  it('throws when the stream ends without a chunk', async () => {
+    await expect(collect(['[DONE]'])).rejects.toThrow('The Test server returned an empty stream');
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * OpenAI-Style Chat Completions
+ *
+ * Request building and response parsing for the `/v1/chat/completions`
+ * endpoint, shared by the LM Studio and OpenAI-compatible clients. Sending
+ * the request stays with each client, since they differ in headers and
+ * error handling.
+ */
+
+import { logger } from '../utils/logger.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { CompletionOptions, CompletionResponse, Message, StreamEvent } from './provider.js';
+import { parseSSEStream } from './sse.js';
+import { createContent } from './content.js';
+import {
+  ChatMessage,
+  ChatTool,
+  ChatToolCall,
+  ChatToolCallDelta,
+  ToolCallAccumulator,
+  toChatMessages,
+  toChatTools,
+  toChatToolChoice,
+  fromChatToolCalls,
+  toolUseEvents
+} from './tools.js';
+import { toChatResponseFormat } from './structured.js';
+
+/**
+ * A `/v1/chat/completions` request body
+ */
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+  tool_choice?: string | Record<string, unknown>;
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  top_k?: number;
+  stop?: string[];
+  seed?: number;
+  stream: boolean;
+  stream_options?: { include_usage: boolean };
+  response_format?: Record<string, unknown>;
+}
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * A `/v1/chat/completions` response
+ */
+export interface ChatCompletion {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: ChatToolCall[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatUsage;
+}
+
+/**
+ * A streamed `chat.completion.chunk`, or an error reported mid-stream
+ */
+export interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: ChatToolCallDelta[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatUsage | null;
+  error?: string | { message?: string };
+}
+
+/**
+ * What to report for a response that lacks its own ID or model
+ */
+export interface ChatResponseDefaults {
+  id: string;
+  model: string;
+}
+
+/**
+ * Build a chat completion request
+ *
+ * The system prompt becomes a leading `system` message. Optional sampling
+ * settings are only sent when set, so the server's own defaults apply.
+ */
+export function toChatCompletionRequest(
+  options: CompletionOptions,
+  model: string,
+  stream: boolean,
+  defaults: { defaultTemperature: number; defaultMaxTokens: number }
+): ChatCompletionRequest {
+  const messages: Message[] = options.system
+    ? [{ role: 'system', content: options.system }, ...options.messages]
+    : options.messages;
+
+  const request: ChatCompletionRequest = {
+    model,
+    messages: toChatMessages(messages),
+    temperature: options.temperature ?? defaults.defaultTemperature,
+    max_tokens: options.maxTokens || defaults.defaultMaxTokens,
+    stream
+  };
+
+  if (options.topP !== undefined) request.top_p = options.topP;
+  if (options.stopSequences?.length) request.stop = options.stopSequences;
+  if (options.seed !== undefined) request.seed = options.seed;
+  // Ask for a final usage chunk so streamed requests report token counts
+  if (stream) request.stream_options = { include_usage: true };
+  if (options.responseFormat) request.response_format = toChatResponseFormat(options.responseFormat);
+  if (options.tools?.length) {
+    request.tools = toChatTools(options.tools);
+    request.tool_choice = toChatToolChoice(options.toolChoice);
+  }
+
+  return request;
+}
+
+/**
+ * Convert a chat completion response
+ */
+export function fromChatCompletion(data: ChatCompletion, defaults: ChatResponseDefaults): CompletionResponse {
+  const choice = data.choices?.[0];
+  const toolUses = fromChatToolCalls(choice?.message?.tool_calls);
+
+  return {
+    id: data.id || defaults.id,
+    model: data.model || defaults.model,
+    usage: {
+      input_tokens: data.usage?.prompt_tokens || 0,
+      output_tokens: data.usage?.completion_tokens || 0
+    },
+    content: createContent(choice?.message?.content || '', toolUses),
+    stop_reason: toolUses.length > 0 ? 'tool_use' : choice?.finish_reason || 'stop'
+  };
+}
+
+/**
+ * Turn a streamed chat completion into stream events
+ *
+ * The body is a series of `chat.completion.chunk` server-sent events,
+ * terminated by a `data: [DONE]` frame. Tool calls arrive in fragments
+ * and are reported once complete, after the text.
+ *
+ * @param serverName Name of the server, for error messages
+ */
+export async function* chatCompletionEvents(
+  body: ReadableStream<Uint8Array>,
+  defaults: ChatResponseDefaults,
+  serverName: string
+): AsyncGenerator<StreamEvent> {
+  let { id, model } = defaults;
+  let text = '';
+  let stopReason = 'stop';
+  let started = false;
+  const toolCalls = new ToolCallAccumulator();
+  const usage = { input_tokens: 0, output_tokens: 0 };
+
+  for await (const sseEvent of parseSSEStream(body)) {
+    if (sseEvent.data === '[DONE]') {
+      break;
+    }
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(sseEvent.data);
+    } catch (error) {
+      logger.error('Failed to parse stream event', { data: sseEvent.data, error });
+      continue;
+    }
+
+    if (chunk.error) {
+      const message = typeof chunk.error === 'string' ? chunk.error : chunk.error.message || 'Unknown error';
+      throw createUserError(`${serverName} API error: ${message}`, {
+        category: ErrorCategory.AI_SERVICE,
+        resolution: 'Check the server logs and ensure the model is loaded.',
+        details: { ...chunk }
+      });
+    }
+
+    if (!started) {
+      started = true;
+      id = chunk.id || id;
+      model = chunk.model || model;
+
+      yield {
+        type: 'message_start',
+        message: { id, model, content: [] }
+      };
+
+      yield {
+        type: 'content_block_start',
+        index: 0
+      };
+    }
+
+    const choice = chunk.choices?.[0];
+    const deltaText = choice?.delta?.content;
+
+    if (deltaText) {
+      text += deltaText;
+
+      yield {
+        type: 'content_block_delta',
+        index: 0,
+        delta: {
+          type: 'text',
+          text: deltaText
+        }
+      };
+    }
+
+    toolCalls.add(choice?.delta?.tool_calls);
+
+    if (choice?.finish_reason) {
+      stopReason = choice.finish_reason;
+    }
+
+    // The usage chunk arrives last, with an empty choices array
+    if (chunk.usage) {
+      usage.input_tokens = chunk.usage.prompt_tokens || 0;
+      usage.output_tokens = chunk.usage.completion_tokens || 0;
+    }
+  }
+
+  if (!started) {
+    throw createUserError(`The ${serverName} server returned an empty stream`, {
+      category: ErrorCategory.AI_SERVICE,
+      resolution: 'Check the server logs and ensure the model is loaded.'
+    });
+  }
+
+  const toolUses = toolCalls.getToolUses();
+
+  yield {
+    type: 'content_block_stop',
+    index: 0
+  };
+
+  yield* toolUseEvents(toolUses, 1);
+
+  yield {
+    type: 'message_delta',
+    usage_metadata: usage
+  };
+
+  yield {
+    type: 'message_stop',
+    message: {
+      id,
+      model,
+      content: createContent(text, toolUses),
+      stop_reason: toolUses.length > 0 ? 'tool_use' : stopReason
+    },
+    usage_metadata: usage
+  };
+}
@@ -0,0 +1,528 @@
+/**
+ * OpenAI-Compatible Client
+ *
+ * Handles interaction with any server exposing the OpenAI chat completions
+ * API, such as llama.cpp's llama-server, vLLM, or LocalAI.
+ */
+
+import { logger } from '../utils/logger.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory, UserError } from '../errors/types.js';
+import { withTimeout, withRetry, isAbortError } from '../utils/async.js';
+import { AIProvider, CompletionOptions, CompletionResponse, EmbeddingResponse, LoadedModel, StreamEvent, ToolMode } from './provider.js';
+import { AIModel } from './types.js';
+import { embedInBatches, fromOpenAIEmbeddings, DEFAULT_EMBEDDING_BATCH_SIZE } from './embeddings.js';
+import { ToolCallingSupport, responseEvents } from './tools.js';
+import { completeStructured } from './structured.js';
+import { ChatCompletion, toChatCompletionRequest, fromChatCompletion, chatCompletionEvents } from './openai-chat.js';
+
+interface ApiError {
+  error?: string | { message?: string };
+}
+
+/**
+ * A `/v1/models` entry, with the fields vLLM and llama-server add
+ */
+interface ModelEntry {
+  id: string;
+  created?: number;
+  max_model_len?: number;
+  meta?: {
+    n_ctx_train?: number;
+    n_params?: number;
+  };
+}
+
+interface ModelList {
+  data?: ModelEntry[];
+}
+
+/**
+ * llama-server's `/props` response
+ */
+interface ServerProps {
+  default_generation_settings?: {
+    n_ctx?: number;
+  };
+  chat_template?: string;
+}
+
+// Default API configuration
+const DEFAULT_CONFIG = {
+  apiBaseUrl: 'http://localhost:8080',
+  apiKey: '', // Sent as a bearer token when set
+  timeout: 60000, // 60 seconds
+  retryOptions: {
+    maxRetries: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 10000
+  },
+  defaultModel: '', // Empty means use the first model the server reports
+  defaultMaxTokens: 4096,
+  defaultTemperature: 0.7,
+  // llama-server needs --jinja for native tools; `auto` falls back to prompts
+  toolMode: 'auto' as ToolMode,
+  defaultEmbeddingModel: '', // Empty means the same model as completions
+  embeddingBatchSize: DEFAULT_EMBEDDING_BATCH_SIZE
+};
+
+/**
+ * Client for servers implementing the OpenAI chat completions API
+ */
+export class OpenAICompatibleClient implements AIProvider {
+  private config: typeof DEFAULT_CONFIG;
+  private tools = new ToolCallingSupport('OpenAI-compatible', () => this.config.toolMode);
+  private modelInfo = new Map<string, AIModel>();
+
+  /**
+   * Create a new OpenAI-compatible client
+   */
+  constructor(config: Partial<typeof DEFAULT_CONFIG> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config.apiBaseUrl = this.normalizeBaseUrl(this.config.apiBaseUrl);
+
+    logger.debug('OpenAI-compatible client created with config', {
+      apiBaseUrl: this.config.apiBaseUrl,
+      defaultModel: this.config.defaultModel,
+      hasApiKey: !!this.config.apiKey
+    });
+  }
+
+  /**
+   * Strip trailing slashes and a trailing /v1 so both
+   * `http://host:8080` and `http://host:8080/v1` work as base URLs
+   */
+  private normalizeBaseUrl(url: string): string {
+    return url.replace(/\/+$/, '').replace(/\/v1$/, '');
+  }
+
+  /**
+   * Format API request headers
+   */
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Test connection to the server
+   */
+  async testConnection(): Promise<boolean> {
+    logger.debug('Testing connection to OpenAI-compatible server');
+
+    try {
+      const timeoutFetch = withTimeout(
+        (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/models`, { headers: this.getHeaders(), signal }),
+        this.config.timeout
+      );
+      const response = await timeoutFetch();
+
+      if (!response.ok) {
+        logger.debug('OpenAI-compatible server responded with non-OK status:', response.status);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.debug('Failed to connect to OpenAI-compatible server:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get available models from the server
+   */
+  async getModels(): Promise<string[]> {
+    const models = await this.listModels();
+    return models.map(model => model.id);
+  }
+
+  /**
+   * List the server's models
+   *
+   * The OpenAI model list only has IDs and a creation time.
+   */
+  async listModels(): Promise<AIModel[]> {
+    try {
+      const timeoutFetch = withTimeout(
+        (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/models`, { headers: this.getHeaders(), signal }),
+        this.config.timeout
+      );
+      const response = await timeoutFetch();
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      const data = await response.json() as ModelList;
+      return (data.data || []).map((model): AIModel => ({
+        id: model.id,
+        name: model.id,
+        supportsStreaming: true,
+        provider: 'openai-compatible',
+        modifiedAt: model.created ? new Date(model.created * 1000) : undefined
+      }));
+    } catch (error) {
+      logger.error('Failed to get OpenAI-compatible models:', error);
+      throw createUserError('Failed to get available models', {
+        cause: error,
+        category: ErrorCategory.CONNECTION,
+        resolution: 'Check that the server is running and the base URL and API key are correct.'
+      });
+    }
+  }
+
+  /**
+   * The OpenAI API has no way to download models
+   */
+  async pullModel(model: string): Promise<void> {
+    throw createUserError(`Can't download ${model} through an OpenAI-compatible server`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Download the model with the server\'s own tools and restart the server with it.'
+    });
+  }
+
+  /**
+   * The OpenAI API has no way to delete models
+   */
+  async deleteModel(model: string): Promise<void> {
+    throw createUserError(`Can't delete ${model} through an OpenAI-compatible server`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Delete the model files with the server\'s own tools.'
+    });
+  }
+
+  /**
+   * The OpenAI API doesn't report what is in memory
+   */
+  async listLoadedModels(): Promise<LoadedModel[]> {
+    throw createUserError('OpenAI-compatible servers don\'t report which models are loaded', {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Check the server\'s own status page or logs.'
+    });
+  }
+
+  /**
+   * The server loads its model at startup
+   */
+  async loadModel(model: string = this.config.defaultModel): Promise<void> {
+    throw createUserError(`Can't load ${model || 'a model'} through an OpenAI-compatible server`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Start the server with the model you want loaded.'
+    });
+  }
+
+  /**
+   * The server keeps its model until it stops
+   */
+  async unloadModel(model: string): Promise<void> {
+    throw createUserError(`Can't unload ${model} through an OpenAI-compatible server`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Stop the server to release its memory.'
+    });
+  }
+
+  /**
+   * Set the model to use
+   */
+  setModel(model: string): void {
+    this.config.defaultModel = model;
+    logger.debug('OpenAI-compatible model set to:', model);
+  }
+
+  /**
+   * Get the current model
+   */
+  getModel(): string {
+    return this.config.defaultModel;
+  }
+
+  /**
+   * Get model details
+   *
+   * There is no standard metadata endpoint, so this collects what the
+   * common servers add: vLLM puts `max_model_len` on the model list entry,
+   * llama-server adds a `meta` object there and serves the loaded context
+   * size and chat template from `/props`.
+   */
+  async getModelInfo(model?: string): Promise<AIModel> {
+    const id = model || await this.resolveModel({ messages: [] });
+    const cached = this.modelInfo.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const timeoutFetch = withTimeout(
+        (path: string, signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}${path}`, { headers: this.getHeaders(), signal }),
+        this.config.timeout
+      );
+
+      const modelsResponse = await timeoutFetch('/v1/models');
+      if (!modelsResponse.ok) {
+        await this.handleErrorResponse(modelsResponse);
+      }
+
+      const models = await modelsResponse.json() as ModelList;
+      const entry: Partial<ModelEntry> = models.data?.find(m => m.id === id) || {};
+      const meta = entry.meta || {};
+
+      // Only llama-server has /props; other servers answer 404
+      let props: ServerProps = {};
+      const propsResponse = await timeoutFetch('/props').catch(() => null);
+      if (propsResponse?.ok) {
+        props = await propsResponse.json().catch(() => ({})) as ServerProps;
+      }
+
+      const info: AIModel = {
+        id,
+        name: id,
+        maxContextLength: props.default_generation_settings?.n_ctx || entry.max_model_len || meta.n_ctx_train,
+        supportsStreaming: true,
+        provider: 'openai-compatible',
+        parameterSize: meta.n_params ? `${(meta.n_params / 1e9).toFixed(1)}B` : undefined,
+        template: props.chat_template
+      };
+
+      this.modelInfo.set(id, info);
+      return info;
+    } catch (error) {
+      logger.error(`Failed to get model info for ${id}:`, error);
+
+      if (error instanceof UserError) {
+        throw error;
+      }
+
+      throw createUserError(`Failed to get details for model ${id}`, {
+        cause: error,
+        category: ErrorCategory.CONNECTION,
+        resolution: 'Check that the server is running and the base URL and API key are correct.'
+      });
+    }
+  }
+
+  /**
+   * Resolve the model for a request
+   *
+   * Servers like llama-server host a single model, so when none is configured
+   * we use the first one the server lists and remember it.
+   */
+  private async resolveModel(options: CompletionOptions): Promise<string> {
+    if (options.model) {
+      return options.model;
+    }
+
+    if (!this.config.defaultModel) {
+      const models = await this.getModels();
+      if (models.length === 0) {
+        throw createUserError('The server did not report any models', {
+          category: ErrorCategory.AI_SERVICE,
+          resolution: 'Load a model on the server or set ai.model in your configuration.'
+        });
+      }
+      this.setModel(models[0]);
+    }
+
+    return this.config.defaultModel;
+  }
+
+  /**
+   * Complete text
+   */
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const model = await this.resolveModel(options);
+    return completeStructured(options, structuredOptions =>
+      this.tools.complete(structuredOptions, model, chatOptions => this.chat(chatOptions, model)));
+  }
+
+  /**
+   * Send a single chat completion request
+   */
+  private async chat(options: CompletionOptions, model: string): Promise<CompletionResponse> {
+    const request = toChatCompletionRequest(options, model, false, this.config);
+
+    logger.debug('Sending completion request to OpenAI-compatible server', {
+      model,
+      messageCount: request.messages.length
+    });
+
+    try {
+      const timeoutFetch = withTimeout(
+        (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/chat/completions`, {
+          method: 'POST',
+          headers: this.getHeaders(),
+          body: JSON.stringify(request),
+          signal
+        }),
+        this.config.timeout,
+        { signal: options.signal }
+      );
+
+      const retryFetch = withRetry(timeoutFetch, { ...this.config.retryOptions, signal: options.signal });
+      const response = await retryFetch();
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      const data = await response.json() as ChatCompletion;
+      return fromChatCompletion(data, { id: `openai_${Date.now()}`, model });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      logger.error('OpenAI-compatible completion failed:', error);
+
+      if (error instanceof UserError) {
+        throw error;
+      }
+
+      throw createUserError('Failed to complete text with the OpenAI-compatible server', {
+        cause: error,
+        category: ErrorCategory.AI_SERVICE,
+        resolution: 'Check that the server is running and the model is loaded.'
+      });
+    }
+  }
+
+  /**
+   * Embed texts through the `/v1/embeddings` endpoint
+   *
+   * llama-server only serves embeddings when started with `--embedding`.
+   */
+  async embed(texts: string[], model?: string): Promise<EmbeddingResponse> {
+    const embeddingModel = model || this.config.defaultEmbeddingModel || await this.resolveModel({ messages: [] });
+
+    logger.debug('Sending embedding request to OpenAI-compatible server', { model: embeddingModel, count: texts.length });
+
+    const timeoutFetch = withTimeout(
+      (input: string[], signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/embeddings`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ model: embeddingModel, input }),
+        signal
+      }),
+      this.config.timeout
+    );
+
+    return embedInBatches(texts, embeddingModel, this.config.embeddingBatchSize, async batch => {
+      const response = await timeoutFetch(batch);
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      return fromOpenAIEmbeddings(await response.json());
+    });
+  }
+
+  /**
+   * Stream text completion
+   */
+  async *completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    // Structured output has to be validated whole before it is shown
+    if (options.responseFormat) {
+      yield* responseEvents(await this.complete(options));
+      return;
+    }
+
+    const model = await this.resolveModel(options);
+    yield* this.tools.stream(options, model, chatOptions => this.streamChat(chatOptions, model));
+  }
+
+  /**
+   * Stream a single chat completion request
+   */
+  private async *streamChat(options: CompletionOptions, model: string): AsyncGenerator<StreamEvent> {
+    const request = toChatCompletionRequest(options, model, true, this.config);
+
+    logger.debug('Sending streaming completion request to OpenAI-compatible server', {
+      model,
+      messageCount: request.messages.length
+    });
+
+    // Only the wait for response headers is bounded by the timeout
+    const timeoutFetch = withTimeout(
+      (signal: AbortSignal) => fetch(`${this.config.apiBaseUrl}/v1/chat/completions`, {
+        method: 'POST',
+        headers: { ...this.getHeaders(), 'Accept': 'text/event-stream' },
+        body: JSON.stringify(request),
+        signal
+      }),
+      this.config.timeout,
+      { signal: options.signal }
+    );
+    const response = await timeoutFetch();
+
+    if (!response.ok) {
+      await this.handleErrorResponse(response);
+    }
+
+    if (!response.body) {
+      throw new Error('Failed to get response reader');
+    }
+
+    yield* chatCompletionEvents(response.body, { id: `openai_${Date.now()}`, model }, 'OpenAI-compatible');
+  }
+
+  /**
+   * Handle error responses from the API
+   */
+  private async handleErrorResponse(response: Response): Promise<never> {
+    let errorMessage = `HTTP error ${response.status}`;
+    let errorDetails: Record<string, unknown> = { status: response.status };
+
+    try {
+      const errorResponse = await response.json() as ApiError;
+      const { error } = errorResponse;
+      errorMessage = (typeof error === 'string' ? error : error?.message) || errorMessage;
+      errorDetails = { ...errorResponse };
+    } catch {
+      // Keep the status-based message
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw createUserError(`OpenAI-compatible server rejected the request: ${errorMessage}`, {
+        category: ErrorCategory.AUTHENTICATION,
+        resolution: 'Check ai.openaiCompatible.apiKey or the KNIGHTCODE_OPENAI_API_KEY environment variable.',
+        details: errorDetails
+      });
+    }
+
+    throw createUserError(`OpenAI-compatible API error: ${errorMessage}`, {
+      category: ErrorCategory.AI_SERVICE,
+      details: errorDetails
+    });
+  }
+
+  /**
+   * Get configuration information
+   */
+  getConfig(): typeof DEFAULT_CONFIG {
+    return { ...this.config };
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<typeof DEFAULT_CONFIG>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.config.apiBaseUrl = this.normalizeBaseUrl(this.config.apiBaseUrl);
+    logger.debug('OpenAI-compatible client configuration updated');
+  }
+
+  /**
+   * Get provider name
+   */
+  getProviderName(): string {
+    return 'openai-compatible';
+  }
+}
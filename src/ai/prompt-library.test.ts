@@ -0,0 +1,99 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseFrontMatter, parsePromptTemplate } from './prompt-library.js';
+
+describe('parseFrontMatter', () => {
+  it('parses plain, quoted and list values', () => {
+    expect(parseFrontMatter([
+      'description: Review code for security issues',
+      'title: "Security: review"',
+      'owner: \'platform\'',
+      'required: [code, "focus"]'
+    ].join('\n'))).toEqual({
+      description: 'Review code for security issues',
+      title: 'Security: review',
+      owner: 'platform',
+      required: ['code', 'focus']
+    });
+  });
+
+  it('parses - item lists and nested maps', () => {
+    expect(parseFrontMatter([
+      'required:',
+      '  - code',
+      '  - language',
+      'defaults:',
+      '  focus: injection and authentication',
+      '  # a comment',
+      '  depth: "2"'
+    ].join('\n'))).toEqual({
+      required: ['code', 'language'],
+      defaults: { focus: 'injection and authentication', depth: '2' }
+    });
+  });
+
+  it('keeps | blocks as lines and folds > blocks', () => {
+    expect(parseFrontMatter([
+      'system: |',
+      '  You are a reviewer.',
+      '',
+      '    Be specific.',
+      'summary: >',
+      '  one',
+      '  two'
+    ].join('\n'))).toEqual({
+      system: 'You are a reviewer.\n\n  Be specific.',
+      summary: 'one two'
+    });
+  });
+
+  it('skips blank lines and comments', () => {
+    expect(parseFrontMatter('\n# note\nname: x\n')).toEqual({ name: 'x' });
+  });
+
+  it('rejects lines that are not key: value', () => {
+    expect(() => parseFrontMatter('just text')).toThrow('Cannot parse line 1: just text');
+    expect(() => parseFrontMatter('defaults:\n  not a pair')).toThrow('Cannot parse line 2');
+  });
+});
+
+describe('parsePromptTemplate', () => {
+  it('reads the front matter into the template', () => {
+    const template = parsePromptTemplate([
+      '---',
+      'description: Explain code',
+      'required: code',
+      'defaults:',
+      '  level: basic',
+      'system: |',
+      '  You explain code.',
+      '---',
+      'Explain at a {level} level:',
+      '',
+      '{code}',
+      ''
+    ].join('\r\n'), 'explain.md');
+
+    expect(template).toEqual({
+      template: 'Explain at a {level} level:\n\n{code}',
+      source: 'explain.md',
+      description: 'Explain code',
+      system: 'You explain code.',
+      required: ['code'],
+      defaults: { level: 'basic' }
+    });
+  });
+
+  it('accepts a template without front matter', () => {
+    expect(parsePromptTemplate('Just {code}', 'plain.md')).toEqual({ template: 'Just {code}', source: 'plain.md' });
+  });
+
+  it('rejects invalid front matter, defaults and required lists', () => {
+    expect(() => parsePromptTemplate('---\nnot yaml\n---\nx', 'bad.md')).toThrow('Invalid front matter in prompt template bad.md');
+    expect(() => parsePromptTemplate('---\ndefaults: [a]\n---\nx', 'bad.md')).toThrow('Invalid defaults in prompt template bad.md');
+    expect(() => parsePromptTemplate('---\nrequired:\n  a: b\n---\nx', 'bad.md')).toThrow('Invalid required list in prompt template bad.md');
+  });
+
+  it('rejects an empty template', () => {
+    expect(() => parsePromptTemplate('---\ndescription: x\n---\n\n', 'empty.md')).toThrow('Prompt template empty.md is empty');
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Prompt Template Library
+ *
+ * Loads prompt templates from Markdown files so teams can share them in
+ * their repository. Templates come from `<app dir>/prompts/*.md` for the
+ * user and `.knightcode/prompts/*.md` in the current directory for the
+ * project; a project template replaces a user template of the same name,
+ * and both replace built-in ones.
+ *
+ * A template file is the prompt text, with {placeholders}, preceded by
+ * optional front matter:
+ *
+ *     ---
+ *     description: Review code for security issues
+ *     required: [code]
+ *     defaults:
+ *       focus: injection and authentication
+ *     system: |
+ *       You are a security reviewer.
+ *     ---
+ *     Review this code for {focus}:
+ *
+ *     {code}
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { logger } from '../utils/logger.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { ConfigType } from '../config/schema.js';
+import { PromptTemplate, registerPromptTemplate } from './prompts.js';
+
+/**
+ * A directory templates are loaded from
+ */
+export interface PromptDirectory {
+  /**
+   * `user` or `project`
+   */
+  scope: string;
+  path: string;
+}
+
+/**
+ * Parsed front matter: text, lists, and one level of `key: value` maps
+ */
+export type FrontMatter = Record<string, string | string[] | Record<string, string>>;
+
+/**
+ * Parse a front matter value: a quoted string, a [list], or plain text
+ */
+function parseValue(raw: string): string | string[] {
+  const value = raw.trim();
+
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1)
+      .split(',')
+      .map(item => parseValue(item) as string)
+      .filter(item => item !== '');
+  }
+
+  if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith('\'') && value.endsWith('\''))) {
+    return value.slice(1, -1);
+  }
+
+  return value;
+}
+
+/**
+ * Parse a template's front matter
+ *
+ * Supports the subset of YAML templates need: `key: value` pairs, `[a, b]`
+ * and `- item` lists, one level of nested `key: value` maps, and `|`
+ * blocks for multi-line text.
+ */
+export function parseFrontMatter(text: string): FrontMatter {
+  const result: FrontMatter = {};
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim() || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!match) {
+      throw new Error(`Cannot parse line ${i + 1}: ${line}`);
+    }
+
+    const [, key, rest] = match;
+
+    if (rest === '|' || rest === '>') {
+      // Block text: every following indented (or blank) line
+      const block: string[] = [];
+      while (i + 1 < lines.length && (lines[i + 1].startsWith(' ') || !lines[i + 1].trim())) {
+        block.push(lines[++i]);
+      }
+      const indent = Math.min(...block.filter(item => item.trim()).map(item => item.length - item.trimStart().length));
+      const content = block.map(item => item.slice(indent));
+      result[key] = (rest === '|' ? content.join('\n') : content.join(' ')).trim();
+    } else if (rest.trim()) {
+      result[key] = parseValue(rest);
+    } else {
+      // A nested map or a list of `- item` lines
+      const items: string[] = [];
+      const map: Record<string, string> = {};
+      while (i + 1 < lines.length && lines[i + 1].startsWith(' ')) {
+        const nested = lines[++i].trim();
+        if (!nested || nested.startsWith('#')) {
+          continue;
+        }
+        if (nested.startsWith('- ')) {
+          items.push(parseValue(nested.slice(2)) as string);
+          continue;
+        }
+        const entry = nested.match(/^([\w-]+):\s*(.*)$/);
+        if (!entry) {
+          throw new Error(`Cannot parse line ${i + 1}: ${lines[i]}`);
+        }
+        map[entry[1]] = String(parseValue(entry[2]));
+      }
+      result[key] = items.length > 0 ? items : map;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a template file
+ *
+ * @param source Path of the file, used in error messages
+ */
+export function parsePromptTemplate(content: string, source: string): PromptTemplate {
+  const normalized = content.replace(/\r\n/g, '\n');
+  let body = normalized;
+  let meta: FrontMatter = {};
+
+  const frontMatter = normalized.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontMatter) {
+    try {
+      meta = parseFrontMatter(frontMatter[1]);
+    } catch (error) {
+      throw createUserError(`Invalid front matter in prompt template ${source}`, {
+        cause: error,
+        category: ErrorCategory.CONFIGURATION,
+        resolution: 'Use "key: value" lines, [a, b] lists, and "|" for multi-line text.'
+      });
+    }
+    body = normalized.slice(frontMatter[0].length);
+  }
+
+  const template: PromptTemplate = {
+    template: body.trim(),
+    source
+  };
+
+  if (typeof meta.description === 'string') template.description = meta.description;
+  if (typeof meta.system === 'string') template.system = meta.system;
+
+  if (meta.required !== undefined) {
+    if (typeof meta.required === 'object' && !Array.isArray(meta.required)) {
+      throw createUserError(`Invalid required list in prompt template ${source}`, {
+        category: ErrorCategory.CONFIGURATION,
+        resolution: 'List required variables as [a, b] or as "- name" lines under "required:".'
+      });
+    }
+    template.required = Array.isArray(meta.required) ? meta.required : [meta.required];
+  }
+
+  if (meta.defaults !== undefined) {
+    if (typeof meta.defaults !== 'object' || Array.isArray(meta.defaults)) {
+      throw createUserError(`Invalid defaults in prompt template ${source}`, {
+        category: ErrorCategory.CONFIGURATION,
+        resolution: 'List defaults as indented "name: value" lines under "defaults:".'
+      });
+    }
+    template.defaults = meta.defaults;
+  }
+
+  if (!template.template) {
+    throw createUserError(`Prompt template ${source} is empty`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Add the prompt text after the front matter.'
+    });
+  }
+
+  return template;
+}
+
+/**
+ * Get the directories templates are loaded from, in increasing precedence
+ */
+export function getPromptDirectories(config: Partial<ConfigType> = {}): PromptDirectory[] {
+  const appDir = config.paths?.app || path.join(os.homedir(), '.knightcode');
+
+  return [
+    { scope: 'user', path: path.join(appDir, 'prompts') },
+    { scope: 'project', path: path.join(process.cwd(), '.knightcode', 'prompts') }
+  ];
+}
+
+/**
+ * Load the templates in the prompt directories and register them
+ *
+ * Directories that don't exist are skipped. Returns the names of the
+ * templates loaded.
+ */
+export async function loadPromptTemplates(config: Partial<ConfigType> = {}): Promise<string[]> {
+  const loaded: string[] = [];
+
+  for (const directory of getPromptDirectories(config)) {
+    let files: string[];
+    try {
+      files = (await fs.readdir(directory.path)).filter(file => file.endsWith('.md')).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Could not read prompt templates in ${directory.path}`, error);
+      }
+      continue;
+    }
+
+    for (const file of files) {
+      const filePath = path.join(directory.path, file);
+      const template = parsePromptTemplate(await fs.readFile(filePath, 'utf8'), filePath);
+      const name = path.basename(file, '.md');
+
+      registerPromptTemplate(name, template);
+      loaded.push(name);
+      logger.debug(`Loaded ${directory.scope} prompt template ${name} from ${filePath}`);
+    }
+  }
+
+  return loaded;
+}
@@ -6,6 +6,8 @@
  */
 
 import { Message } from './types.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
 
 // Define MessageRole consts since we're using the type as values
 const MESSAGE_ROLE = {
@@ -77,6 +79,15 @@ Guidelines:
 - Adjust explanation depth based on the apparent complexity of the question
 `;
 
+/**
+ * Instructions for each `explain --detail` level
+ */
+export const EXPLANATION_DETAIL_LEVELS: Record<string, string> = {
+  basic: 'Give a short, high-level overview: what the code is for and how it is used, in a few sentences. Skip implementation details.',
+  intermediate: 'Explain the purpose of the code, its main steps, and any notable techniques, for a developer new to this codebase.',
+  detailed: 'Walk through the code step by step, covering control flow, data structures, edge cases, error handling, and design or performance trade-offs.'
+};
+
 /**
  * Interface for prompt templates
  */
@@ -95,14 +106,33 @@ export interface PromptTemplate {
    * Default values for placeholders
    */
   defaults?: Record<string, string>;
+  
+  /**
+   * Placeholders that must be given a value
+   */
+  required?: string[];
+  
+  /**
+   * One-line summary shown in template lists
+   */
+  description?: string;
+  
+  /**
+   * File the template was loaded from (built-in templates have none)
+   */
+  source?: string;
 }
 
+// Templates loaded from disk, which take precedence over the built-in ones
+const customTemplates: Map<string, PromptTemplate> = new Map();
+
 /**
  * Collection of prompt templates for common tasks
  */
 export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
   // Code assistance prompt templates
   explainCode: {
+    description: 'Explain what code does',
     template: "Please explain what this code does:\n\n{code}",
     system: CODE_EXPLANATION_SYSTEM_PROMPT,
     defaults: {
@@ -111,6 +141,7 @@ export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
   },
   
   refactorCode: {
+    description: 'Refactor code for a chosen focus',
     template: "Please refactor this code to improve its {focus}:\n\n{code}\n\nAdditional context: {context}",
     system: CODE_GENERATION_SYSTEM_PROMPT,
     defaults: {
@@ -121,6 +152,7 @@ export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
   },
   
   debugCode: {
+    description: 'Debug code given an issue and error messages',
     template: "Please help me debug the following code:\n\n{code}\n\nThe issue I'm seeing is: {issue}\n\nAny error messages: {errorMessages}",
     system: CODE_ASSISTANT_SYSTEM_PROMPT,
     defaults: {
@@ -131,6 +163,7 @@ export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
   },
   
   reviewCode: {
+    description: 'Review code and give feedback',
     template: "Please review this code and provide feedback:\n\n{code}",
     system: CODE_REVIEW_SYSTEM_PROMPT,
     defaults: {
@@ -139,6 +172,7 @@ export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
   },
   
   generateCode: {
+    description: 'Write code for a task',
     template: "Please write code to {task}.\n\nLanguage/Framework: {language}\n\nRequirements:\n{requirements}",
     system: CODE_GENERATION_SYSTEM_PROMPT,
     defaults: {
@@ -149,6 +183,7 @@ export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
   },
   
   documentCode: {
+    description: 'Add documentation to code',
     template: "Please add documentation to this code:\n\n{code}\n\nDocumentation style: {style}",
     system: CODE_GENERATION_SYSTEM_PROMPT,
     defaults: {
@@ -158,6 +193,7 @@ export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
   },
   
   testCode: {
+    description: 'Write tests for code',
     template: "Please write tests for this code:\n\n{code}\n\nTesting framework: {framework}",
     system: CODE_GENERATION_SYSTEM_PROMPT,
     defaults: {
@@ -193,10 +229,39 @@ export function formatPrompt(
   );
 }
 
+/**
+ * Add a template, replacing any built-in or custom template of that name
+ */
+export function registerPromptTemplate(name: string, template: PromptTemplate): void {
+  customTemplates.set(name, template);
+}
+
+/**
+ * Get a template by name, custom templates first
+ */
+export function getPromptTemplate(name: string): PromptTemplate | undefined {
+  return customTemplates.get(name) || PROMPT_TEMPLATES[name];
+}
+
+/**
+ * List all templates by name, custom templates replacing built-in ones
+ */
+export function listPromptTemplates(): Array<{ name: string; template: PromptTemplate }> {
+  const templates = new Map<string, PromptTemplate>(Object.entries(PROMPT_TEMPLATES));
+  for (const [name, template] of customTemplates) {
+    templates.set(name, template);
+  }
+  
+  return Array.from(templates.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, template]) => ({ name, template }));
+}
+
 /**
  * Format a prompt using a predefined template
  * 
- * @param templateName Name of the template from PROMPT_TEMPLATES
+ * @param templateName Name of a template from PROMPT_TEMPLATES or one
+ *   registered with registerPromptTemplate()
  * @param values Values to replace placeholders with
  * @returns Object with formatted prompt and system message
  */
@@ -204,10 +269,21 @@ export function usePromptTemplate(
   templateName: string,
   values: Record<string, string | number | boolean>
 ): { prompt: string; system?: string } {
-  const template = PROMPT_TEMPLATES[templateName];
+  const template = getPromptTemplate(templateName);
   
   if (!template) {
-    throw new Error(`Prompt template "${templateName}" not found`);
+    throw createUserError(`Prompt template "${templateName}" not found`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: 'Run "knightcode prompt list" to see the available templates.'
+    });
+  }
+  
+  const missing = (template.required || []).filter(name => values[name] === undefined && template.defaults?.[name] === undefined);
+  if (missing.length > 0) {
+    throw createUserError(`Prompt template "${templateName}" needs a value for: ${missing.join(', ')}`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: 'Pass a value for each with --var name=value.'
+    });
   }
   
   return {
@@ -291,7 +367,7 @@ export function createFileContextMessage(
 /**
  * Get language from file path
  */
-function getLanguageFromFilePath(filePath: string): string {
+export function getLanguageFromFilePath(filePath: string): string {
   const extension = filePath.split('.').pop()?.toLowerCase() || '';
   
   const languageMap: Record<string, string> = {
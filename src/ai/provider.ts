@@ -1,12 +1,103 @@
 /**
  * AI Provider Interface
  * 
- * Defines a unified interface for different AI providers (Ollama, LM Studio, etc.)
+ * Defines a unified interface for different AI providers (Ollama, LM Studio,
+ * OpenAI-compatible servers, etc.)
  */
 
+import { AIModel } from './types.js';
+
+/**
+ * Plain text content
+ */
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * An image sent to a vision model, as base64 data
+ */
+export interface ImageContent {
+  type: 'image';
+  source: {
+    type: 'base64';
+    /**
+     * MIME type, such as `image/png`
+     */
+    media_type: string;
+    data: string;
+  };
+}
+
+/**
+ * A request from the model to call a tool
+ */
+export interface ToolUseContent {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+/**
+ * The result of a tool call, sent back to the model in a user message
+ */
+export interface ToolResultContent {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type ContentBlock = TextContent | ImageContent | ToolUseContent | ToolResultContent;
+
 export interface Message {
   role: 'user' | 'assistant' | 'system';
-  content: string;
+  content: string | ContentBlock[];
+}
+
+/**
+ * A tool the model may call
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /**
+   * JSON Schema for the tool's input object
+   */
+  input_schema: Record<string, any>;
+}
+
+/**
+ * Whether the model may, must, or must not call tools
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * How a provider passes tools to the model: through the API's native
+ * tools field, through a prompt-based JSON protocol, or natively with a
+ * prompt fallback when the server rejects tools
+ */
+export type ToolMode = 'auto' | 'native' | 'prompt';
+
+/**
+ * Structured output request: the reply must be JSON matching `schema`
+ */
+export interface ResponseFormat {
+  /**
+   * JSON Schema the reply is validated against
+   */
+  schema: Record<string, any>;
+  /**
+   * Name of the schema, for servers that want one
+   */
+  name?: string;
+  /**
+   * How many times to re-prompt the model with the validation errors
+   * before giving up (defaults to 2)
+   */
+  maxRepairs?: number;
 }
 
 export interface CompletionOptions {
@@ -16,9 +107,34 @@ export interface CompletionOptions {
   topP?: number;
   topK?: number;
   stopSequences?: string[];
+  /**
+   * Sampling seed, for servers that support reproducible output
+   */
+  seed?: number;
   stream?: boolean;
   system?: string;
   messages: Message[];
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  /**
+   * Ask for JSON matching a schema; servers with a native JSON mode
+   * constrain generation, and every reply is validated
+   */
+  responseFormat?: ResponseFormat;
+  /**
+   * Context window to allocate, for servers that size it per request
+   * (Ollama's `num_ctx`); others ignore it
+   */
+  contextLength?: number;
+  /**
+   * Set to false to bypass the response cache for this request
+   */
+  cache?: boolean;
+  /**
+   * Cancels the request, including a stream in progress; the request then
+   * fails with an `AbortError`
+   */
+  signal?: AbortSignal;
 }
 
 export interface CompletionResponse {
@@ -28,27 +144,51 @@ export interface CompletionResponse {
     input_tokens: number;
     output_tokens: number;
   };
-  content: {
-    type: string;
-    text: string;
-  }[];
+  content: ContentBlock[];
+  /**
+   * Why generation stopped; `tool_use` when the model called tools
+   */
   stop_reason?: string;
   stop_sequence?: string;
+  /**
+   * The validated JSON value, when `responseFormat` was requested
+   */
+  parsed?: unknown;
 }
 
+/**
+ * Vectors for a list of texts, in the same order as the input
+ */
+export interface EmbeddingResponse {
+  model: string;
+  embeddings: number[][];
+  /**
+   * Length of each vector
+   */
+  dimensions: number;
+  usage: {
+    input_tokens: number;
+  };
+}
+
+/**
+ * Streaming event
+ *
+ * Text arrives as `content_block_delta` events. Tool calls are emitted
+ * whole, as a `content_block_start` carrying the complete `content_block`
+ * followed by its `content_block_stop`.
+ */
 export interface StreamEvent {
   type: 'message_start' | 'content_block_start' | 'content_block_delta' | 'content_block_stop' | 'message_delta' | 'message_stop';
   message?: {
     id: string;
     model: string;
-    content: {
-      type: string;
-      text: string;
-    }[];
+    content: ContentBlock[];
     stop_reason?: string;
     stop_sequence?: string;
   };
   index?: number;
+  content_block?: ContentBlock;
   delta?: {
     type: string;
     text: string;
@@ -59,6 +199,52 @@ export interface StreamEvent {
   };
 }
 
+/**
+ * Progress of a model download
+ */
+export interface PullProgress {
+  /**
+   * What the server is doing, e.g. "pulling manifest" or "verifying digest"
+   */
+  status: string;
+  /**
+   * Bytes downloaded and total bytes of the current layer, when known
+   */
+  completed?: number;
+  total?: number;
+}
+
+/**
+ * Options for downloading a model
+ */
+export interface PullOptions {
+  onProgress?: (progress: PullProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A model currently held in memory by the server
+ */
+export interface LoadedModel {
+  id: string;
+  /**
+   * Memory the model takes, in bytes
+   */
+  size?: number;
+  /**
+   * Part of `size` held in GPU memory, in bytes
+   */
+  vramSize?: number;
+  /**
+   * Context window it was loaded with
+   */
+  contextLength?: number;
+  /**
+   * When the server will unload it if it stays unused
+   */
+  expiresAt?: Date;
+}
+
 export interface AIProvider {
   /**
    * Test connection to the AI service
@@ -70,6 +256,47 @@ export interface AIProvider {
    */
   getModels(): Promise<string[]>;
   
+  /**
+   * Get available models with whatever details the server reports in its
+   * model list, such as size and quantization
+   */
+  listModels(): Promise<AIModel[]>;
+  
+  /**
+   * Download a model
+   * 
+   * Providers that can't download models throw a configuration error.
+   */
+  pullModel(model: string, options?: PullOptions): Promise<void>;
+  
+  /**
+   * Delete a downloaded model
+   * 
+   * Providers that can't delete models throw a configuration error.
+   */
+  deleteModel(model: string): Promise<void>;
+  
+  /**
+   * List the models the server has loaded into memory
+   * 
+   * Providers that don't report this throw a configuration error.
+   */
+  listLoadedModels(): Promise<LoadedModel[]>;
+  
+  /**
+   * Load a model (the current one by default) into memory ahead of use
+   * 
+   * Providers that can't load models on request throw a configuration error.
+   */
+  loadModel(model?: string): Promise<void>;
+  
+  /**
+   * Release a model's memory
+   * 
+   * Providers that can't unload models throw a configuration error.
+   */
+  unloadModel(model: string): Promise<void>;
+  
   /**
    * Set the model to use
    */
@@ -80,6 +307,13 @@ export interface AIProvider {
    */
   getModel(): string;
   
+  /**
+   * Get details about a model (defaults to the current one)
+   * 
+   * Results are cached per client, so repeated calls are cheap.
+   */
+  getModelInfo(model?: string): Promise<AIModel>;
+  
   /**
    * Complete text
    */
@@ -90,6 +324,14 @@ export interface AIProvider {
    */
   completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent>;
   
+  /**
+   * Embed texts as vectors (defaults to the configured embedding model)
+   * 
+   * Large inputs are split into batches, so any number of texts may be
+   * passed.
+   */
+  embed(texts: string[], model?: string): Promise<EmbeddingResponse>;
+  
   /**
    * Get configuration
    */
@@ -106,4 +348,8 @@ export interface AIProvider {
   getProviderName(): string;
 }
 
-export type AIProviderType = 'ollama' | 'lmstudio' | 'anthropic';
+/**
+ * Provider name as registered in the provider registry; the built-in ones
+ * are ollama, lmstudio, openai-compatible and anthropic
+ */
+export type AIProviderType = string;
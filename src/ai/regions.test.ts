@@ -0,0 +1,143 @@
+import { describe, expect, it } from '@jest/globals';
+import { findSymbol, getRegionText, getSurroundingContext, parseCodeTarget, resolveCodeRegion } from './regions.js';
+
+const typescript = `import { a } from './a.js';
+import {
+  b,
+  c
+} from './b.js';
+
+interface Options {
+  verbose: boolean;
+}
+
+type Unused = string;
+
+/**
+ * Parse input
+ */
+export function parse(input: string, options: Options): string[] {
+  if (options.verbose) {
+    return [input];
+  }
+  return input.split(',');
+}
+
+export class Parser {
+  private source = '{';
+
+  constructor(private readonly text: string) {}
+
+  public parse(): string[] {
+    return parse(this.text, { verbose: false });
+  }
+}
+
+export const run = async (): Promise<void> => {
+  new Parser('x').parse();
+};
+`;
+
+const python = `import os
+
+def helper(x):
+    return x + 1
+
+class Greeter:
+    def greet(self, name):
+        if name:
+            return f"hi {name}"
+        return "hi"
+
+    def other(self):
+        pass
+`;
+
+describe('parseCodeTarget', () => {
+  it('parses a plain path', () => {
+    expect(parseCodeTarget('src/cli.ts')).toEqual({ path: 'src/cli.ts' });
+  });
+
+  it('parses a line range or a single line', () => {
+    expect(parseCodeTarget('src/cli.ts:120-180')).toEqual({ path: 'src/cli.ts', startLine: 120, endLine: 180 });
+    expect(parseCodeTarget('src/cli.ts:42')).toEqual({ path: 'src/cli.ts', startLine: 42, endLine: 42 });
+  });
+
+  it('parses a symbol or a member', () => {
+    expect(parseCodeTarget('src/cli.ts#main')).toEqual({ path: 'src/cli.ts', symbol: 'main' });
+    expect(parseCodeTarget('src/parser.ts#Parser.parse')).toEqual({ path: 'src/parser.ts', symbol: 'Parser.parse' });
+  });
+
+  it('keeps colons that are not a line range in the path', () => {
+    expect(parseCodeTarget('C:/src/cli.ts')).toEqual({ path: 'C:/src/cli.ts' });
+  });
+});
+
+describe('findSymbol', () => {
+  it('finds a function with its doc comment', () => {
+    const region = findSymbol(typescript, 'parse');
+    expect(region).toEqual({ startLine: 13, endLine: 21 });
+    expect(getRegionText(typescript, region!)).toMatch(/^\/\*\*\n \* Parse input[\s\S]*return input\.split\(','\);\n}$/);
+  });
+
+  it('counts braces without being misled by strings', () => {
+    expect(findSymbol(typescript, 'Parser')).toEqual({ startLine: 23, endLine: 31 });
+  });
+
+  it('finds a method inside its class', () => {
+    expect(findSymbol(typescript, 'Parser.parse')).toEqual({ startLine: 28, endLine: 30 });
+  });
+
+  it('finds arrow functions and types', () => {
+    expect(findSymbol(typescript, 'run')).toEqual({ startLine: 33, endLine: 35 });
+    expect(findSymbol(typescript, 'Options')).toEqual({ startLine: 7, endLine: 9 });
+    expect(findSymbol(typescript, 'Unused')).toEqual({ startLine: 11, endLine: 11 });
+  });
+
+  it('finds Python declarations by indentation', () => {
+    expect(findSymbol(python, 'helper')).toEqual({ startLine: 3, endLine: 4 });
+    expect(findSymbol(python, 'Greeter.greet')).toEqual({ startLine: 7, endLine: 10 });
+  });
+
+  it('returns undefined for a missing symbol', () => {
+    expect(findSymbol(typescript, 'missing')).toBeUndefined();
+    expect(findSymbol(typescript, 'Parser.missing')).toBeUndefined();
+  });
+});
+
+describe('resolveCodeRegion', () => {
+  it('returns undefined for a whole file', () => {
+    expect(resolveCodeRegion(typescript, { path: 'a.ts' })).toBeUndefined();
+  });
+
+  it('clamps a range that runs past the end of the file', () => {
+    expect(resolveCodeRegion(python, { path: 'g.py', startLine: 12, endLine: 99 })).toEqual({ startLine: 12, endLine: 13 });
+  });
+
+  it('rejects ranges outside the file', () => {
+    expect(() => resolveCodeRegion(python, { path: 'g.py', startLine: 20, endLine: 30 })).toThrow('Invalid line range 20-30 for g.py');
+    expect(() => resolveCodeRegion(python, { path: 'g.py', startLine: 5, endLine: 2 })).toThrow('Invalid line range 5-2 for g.py');
+  });
+
+  it('rejects unknown symbols', () => {
+    expect(() => resolveCodeRegion(python, { path: 'g.py', symbol: 'nope' })).toThrow('Cannot find nope in g.py');
+  });
+});
+
+describe('getSurroundingContext', () => {
+  it('collects imports, including multi-line ones, and the types the region uses', () => {
+    expect(getSurroundingContext(typescript, findSymbol(typescript, 'parse')!)).toBe(`import { a } from './a.js';
+import {
+  b,
+  c
+} from './b.js';
+
+interface Options {
+  verbose: boolean;
+}`);
+  });
+
+  it('returns an empty string when there is nothing around the region', () => {
+    expect(getSurroundingContext('const x = 1;\n', { startLine: 1, endLine: 1 })).toBe('');
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Code Regions
+ *
+ * Narrows a file to the part a command is about: a line range such as
+ * `file.ts:120-180`, or a declaration such as `file.ts#parseArgs` or
+ * `file.ts#Parser.parse`. Declarations are found with line-based patterns
+ * for common languages rather than a parser, so they work on any file but
+ * can miss unusual formatting.
+ */
+
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+
+/**
+ * A file, optionally narrowed to lines or a symbol
+ */
+export interface CodeTarget {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+
+  /**
+   * Function, class, method or type name; `Class.method` for members
+   */
+  symbol?: string;
+}
+
+/**
+ * Lines of a file, 1-based and inclusive
+ */
+export interface CodeRegion {
+  startLine: number;
+  endLine: number;
+}
+
+// Declarations that introduce a type, for the context around a region
+const TYPE_DECLARATION = /^\s*(?:export\s+)?(?:declare\s+)?(?:interface|type|enum|struct)\s+([\w$]+)/;
+
+// Import statements in JavaScript, TypeScript, Python, Go, Rust, C and C#
+const IMPORT_LINE = /^\s*(?:import\b|from\s+\S+\s+import\b|(?:const|let|var)\s+.*=\s*require\(|#include\b|using\s+[\w.]+\s*;|use\s+[\w:{}, ]+;)/;
+
+/**
+ * Parse `path`, `path:start-end`, `path:line` or `path#symbol`
+ */
+export function parseCodeTarget(target: string): CodeTarget {
+  const range = target.match(/^(.+?):(\d+)(?:-(\d+))?$/);
+  if (range) {
+    const startLine = parseInt(range[2], 10);
+    return {
+      path: range[1],
+      startLine,
+      endLine: range[3] !== undefined ? parseInt(range[3], 10) : startLine
+    };
+  }
+
+  const symbol = target.match(/^(.+?)#([\w$]+(?:\.[\w$]+)*)$/);
+  if (symbol) {
+    return { path: symbol[1], symbol: symbol[2] };
+  }
+
+  return { path: target };
+}
+
+/**
+ * Split a file into lines, without an empty line for the final newline
+ */
+function splitLines(content: string): string[] {
+  return content.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Escape text for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Patterns for lines that declare `name`, strongest first
+ */
+function declarationPatterns(name: string): RegExp[] {
+  const n = escapeRegExp(name);
+  return [
+    new RegExp(`^\\s*(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:async\\s+)?function\\s*\\*?\\s*${n}\\b`),
+    new RegExp(`^\\s*(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?(?:class|interface|enum|type|struct|trait|impl)\\s+${n}\\b`),
+    new RegExp(`^\\s*(?:export\\s+)?(?:const|let|var)\\s+${n}\\s*[=:]`),
+    new RegExp(`^\\s*(?:async\\s+)?def\\s+${n}\\s*\\(`),
+    new RegExp(`^\\s*func\\s+(?:\\([^)]*\\)\\s*)?${n}\\s*[(\\[]`),
+    new RegExp(`^\\s*(?:pub(?:\\([^)]*\\))?\\s+)?(?:async\\s+)?fn\\s+${n}\\b`),
+    // Class fields holding functions
+    new RegExp(`^\\s*(?:(?:public|private|protected|static|readonly)\\s+)*${n}\\s*=\\s*(?:async\\s*)?(?:\\(|function\\b)`),
+    // Methods: modifiers, an optional return type, then a signature that
+    // opens the body on the same line, which keeps calls from matching
+    new RegExp(`^\\s*(?:(?:public|private|protected|static|async|override|abstract|final|synchronized|get|set)\\s+)*(?:[\\w<>\\[\\],.?]+\\s+)?\\*?${n}\\s*(?:<[^>]*>)?\\s*\\(.*\\)[^;=]*\\{\\s*$`)
+  ];
+}
+
+/**
+ * Remove string literals and comments from a line, for counting braces
+ */
+function stripLiterals(line: string): string {
+  return line
+    .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+    .replace(/\/\*.*?\*\//g, '')
+    .replace(/\/\/.*$/, '');
+}
+
+/**
+ * Find the last line of the declaration starting at `start` (0-based)
+ *
+ * A declaration ending in `:` (Python) runs while lines are indented
+ * deeper; any other runs to its closing brace, or to the `;` of a
+ * declaration without a body.
+ */
+function findDeclarationEnd(lines: string[], start: number): number {
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+
+  if (lines[start].trimEnd().endsWith(':')) {
+    let end = start;
+    for (let i = start + 1; i < lines.length; i++) {
+      if (!lines[i].trim()) {
+        continue;
+      }
+      if (indentOf(lines[i]) <= indentOf(lines[start])) {
+        break;
+      }
+      end = i;
+    }
+    return end;
+  }
+
+  let depth = 0;
+  let opened = false;
+  for (let i = start; i < lines.length; i++) {
+    const code = stripLiterals(lines[i]);
+    for (const char of code) {
+      if (char === '{') {
+        depth++;
+        opened = true;
+      } else if (char === '}') {
+        depth--;
+      }
+    }
+    if (opened && depth <= 0) {
+      return i;
+    }
+    if (!opened && /;\s*$/.test(code)) {
+      return i;
+    }
+  }
+
+  return lines.length - 1;
+}
+
+/**
+ * Move a declaration's start up over its doc comment and decorators
+ */
+function includeLeadingComments(lines: string[], start: number): number {
+  let i = start;
+  while (i > 0) {
+    const previous = lines[i - 1].trim();
+    if (!/^(?:\/\*|\*|\/\/|#(?!include)|@)/.test(previous) && !previous.endsWith('*/')) {
+      break;
+    }
+    i--;
+  }
+  return i;
+}
+
+/**
+ * Find a declaration of `name` between lines `from` and `to` (0-based, exclusive end)
+ */
+function findDeclaration(lines: string[], name: string, from: number, to: number): { start: number; end: number } | undefined {
+  for (const pattern of declarationPatterns(name)) {
+    for (let i = from; i < to; i++) {
+      if (pattern.test(lines[i])) {
+        return { start: i, end: Math.min(findDeclarationEnd(lines, i), to - 1) };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the lines of a function, class, method or type
+ *
+ * `Class.method` looks for the method inside the class. The region
+ * includes the declaration's doc comment. Returns undefined when the
+ * symbol isn't declared in the file.
+ */
+export function findSymbol(content: string, symbol: string): CodeRegion | undefined {
+  const lines = splitLines(content);
+  let from = 0;
+  let to = lines.length;
+  let found: { start: number; end: number } | undefined;
+
+  for (const name of symbol.split('.')) {
+    found = findDeclaration(lines, name, from, to);
+    if (!found) {
+      return undefined;
+    }
+    from = found.start + 1;
+    to = found.end + 1;
+  }
+
+  return found && {
+    startLine: includeLeadingComments(lines, found.start) + 1,
+    endLine: found.end + 1
+  };
+}
+
+/**
+ * Get the region of a file a target names
+ *
+ * Returns undefined for a target without a range or symbol. Throws when
+ * the range is outside the file or the symbol can't be found.
+ */
+export function resolveCodeRegion(content: string, target: CodeTarget): CodeRegion | undefined {
+  if (target.symbol) {
+    const region = findSymbol(content, target.symbol);
+    if (!region) {
+      throw createUserError(`Cannot find ${target.symbol} in ${target.path}`, {
+        category: ErrorCategory.VALIDATION,
+        resolution: 'Name a function, class, method or type declared in the file, e.g. file.ts#parseArgs or file.ts#Parser.parse.'
+      });
+    }
+    return region;
+  }
+
+  if (target.startLine === undefined) {
+    return undefined;
+  }
+
+  const lineCount = splitLines(content).length;
+  const { startLine, endLine = startLine } = target;
+
+  if (startLine < 1 || endLine < startLine || startLine > lineCount) {
+    throw createUserError(`Invalid line range ${startLine}-${endLine} for ${target.path}`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: `${target.path} has ${lineCount} lines; use path:start-end with start <= end.`
+    });
+  }
+
+  return { startLine, endLine: Math.min(endLine, lineCount) };
+}
+
+/**
+ * Get the text of a region
+ */
+export function getRegionText(content: string, region: CodeRegion): string {
+  return splitLines(content).slice(region.startLine - 1, region.endLine).join('\n');
+}
+
+/**
+ * Get the imports and type definitions a region depends on
+ *
+ * Collects the file's import statements, and the types declared outside
+ * the region whose names it uses, in file order. Returns an empty string
+ * when there are none.
+ */
+export function getSurroundingContext(content: string, region: CodeRegion): string {
+  const lines = splitLines(content);
+  const regionText = lines.slice(region.startLine - 1, region.endLine).join('\n');
+  const outside = (line: number) => line < region.startLine - 1 || line > region.endLine - 1;
+  const blocks: Array<{ start: number; end: number }> = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!outside(i)) {
+      continue;
+    }
+
+    if (IMPORT_LINE.test(lines[i])) {
+      // Multi-line imports run to their closing brace or parenthesis
+      let end = i;
+      const closer = /\{[^}]*$/.test(lines[i]) ? '}' : lines[i].trimEnd().endsWith('(') ? ')' : undefined;
+      while (closer && !lines[end].includes(closer) && end + 1 < lines.length) {
+        end++;
+      }
+      blocks.push({ start: i, end });
+      i = end;
+      continue;
+    }
+
+    const type = lines[i].match(TYPE_DECLARATION);
+    if (type && new RegExp(`\\b${escapeRegExp(type[1])}\\b`).test(regionText)) {
+      const end = findDeclarationEnd(lines, i);
+      blocks.push({ start: includeLeadingComments(lines, i), end });
+      i = end;
+    }
+  }
+
+  // Blocks separated only by blank lines stay together, as in the file
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const block of blocks.filter(item => outside(item.start) && outside(item.end))) {
+    const previous = merged[merged.length - 1];
+    if (previous && lines.slice(previous.end + 1, block.start).every(line => !line.trim())) {
+      previous.end = block.end;
+    } else {
+      merged.push({ ...block });
+    }
+  }
+
+  return merged
+    .map(block => lines.slice(block.start, block.end + 1).join('\n'))
+    .join('\n\n');
+}
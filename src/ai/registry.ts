@@ -0,0 +1,360 @@
+/**
+ * AI Provider Registry
+ *
+ * Keeps track of the AI providers that can be selected with `ai.provider`.
+ * Each provider registers a factory, a schema for its settings, and an
+ * optional health check, so new providers can be added without touching
+ * the AI module itself.
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { AIProvider } from './provider.js';
+import { logger } from '../utils/logger.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { isNonEmptyString, isUrl } from '../utils/validation.js';
+
+/**
+ * A single provider setting
+ */
+export interface ProviderConfigField {
+  /**
+   * Expected value type; `url` is a string that must parse as a URL
+   */
+  type: 'string' | 'number' | 'boolean' | 'url';
+
+  /**
+   * Human-readable description
+   */
+  description: string;
+
+  /**
+   * Whether the setting must be present
+   */
+  required?: boolean;
+
+  /**
+   * Value used when the setting is absent
+   */
+  default?: string | number | boolean;
+}
+
+/**
+ * Schema for a provider's settings, keyed by setting name
+ */
+export type ProviderConfigSchema = Record<string, ProviderConfigField>;
+
+/**
+ * A provider's section of the configuration, before validation
+ */
+export type ProviderSettingValues = Record<string, unknown>;
+
+/**
+ * Settings handed to a provider factory
+ *
+ * The shared `ai.*` options are merged with the provider's own section.
+ */
+export interface ProviderSettings {
+  model?: string;
+  embeddingModel?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeout?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * The application config as providers see it
+ *
+ * Only the shared options are typed; each provider's own section sits
+ * under `ai` and is checked against its schema.
+ */
+export interface ProviderAppConfig {
+  ai?: {
+    model?: string;
+    embeddingModel?: string;
+    temperature?: number;
+    maxTokens?: number;
+    timeout?: number;
+    [section: string]: unknown;
+  };
+  api?: {
+    baseUrl?: string;
+    key?: string;
+    timeout?: number;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Provider definition
+ */
+export interface ProviderDefinition {
+  /**
+   * Provider name as used in `ai.provider` and `--provider`
+   */
+  name: string;
+
+  /**
+   * Short description shown to users
+   */
+  description: string;
+
+  /**
+   * Whether the provider runs on the local machine or network
+   */
+  local?: boolean;
+
+  /**
+   * Key of the provider's section under `ai` (defaults to the name)
+   */
+  configKey?: string;
+
+  /**
+   * Schema for the provider's section
+   */
+  configSchema?: ProviderConfigSchema;
+
+  /**
+   * Extract the provider's raw settings from the application config,
+   * for providers whose settings don't live under `ai.<configKey>`
+   */
+  loadSettings?: (config: ProviderAppConfig) => ProviderSettingValues;
+
+  /**
+   * Whether responses may be served from the response cache (defaults to true)
+   */
+  cacheable?: boolean;
+
+  /**
+   * Create a provider instance; the application config is passed for
+   * providers that build on other registered providers
+   */
+  create: (settings: ProviderSettings, config: ProviderAppConfig) => AIProvider;
+
+  /**
+   * Check whether the provider is usable (defaults to testConnection())
+   */
+  healthCheck?: (provider: AIProvider) => Promise<boolean>;
+}
+
+/**
+ * Provider registry
+ */
+class ProviderRegistry {
+  private providers: Map<string, ProviderDefinition> = new Map();
+
+  /**
+   * Register a provider
+   */
+  register(definition: ProviderDefinition): void {
+    if (!isNonEmptyString(definition.name)) {
+      throw new Error('Provider name is required');
+    }
+
+    if (typeof definition.create !== 'function') {
+      throw new Error(`Provider ${definition.name} requires a create function`);
+    }
+
+    if (this.providers.has(definition.name)) {
+      throw new Error(`Provider '${definition.name}' is already registered`);
+    }
+
+    this.providers.set(definition.name, definition);
+    logger.debug(`Registered AI provider: ${definition.name}`);
+  }
+
+  /**
+   * Remove a provider
+   */
+  unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  /**
+   * Get a provider definition by name
+   */
+  get(name: string): ProviderDefinition | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Check if a provider is registered
+   */
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  /**
+   * List all registered providers
+   */
+  list(): ProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Build validated settings for a provider from the application config
+   *
+   * @param isPreferred Whether this is the configured `ai.provider`; only then
+   *   does `ai.model` apply, since a fallback provider likely lacks that model
+   */
+  resolveSettings(name: string, config: ProviderAppConfig, isPreferred: boolean): ProviderSettings {
+    const definition = this.require(name);
+    const aiConfig = config.ai || {};
+    const section = definition.loadSettings
+      ? definition.loadSettings(config)
+      : (aiConfig[definition.configKey || definition.name] || {}) as ProviderSettingValues;
+
+    const settings = {
+      ...validateProviderSettings(definition, section)
+    } as ProviderSettings;
+
+    if (settings.timeout === undefined && aiConfig.timeout) settings.timeout = aiConfig.timeout;
+    if (aiConfig.temperature !== undefined) settings.temperature = aiConfig.temperature;
+    if (aiConfig.maxTokens) settings.maxTokens = aiConfig.maxTokens;
+    if (!settings.model && isPreferred && aiConfig.model) settings.model = aiConfig.model;
+    if (!settings.embeddingModel && isPreferred && aiConfig.embeddingModel) settings.embeddingModel = aiConfig.embeddingModel;
+
+    return settings;
+  }
+
+  /**
+   * Create a provider instance from the application config
+   */
+  create(name: string, config: ProviderAppConfig, isPreferred: boolean): AIProvider {
+    const definition = this.require(name);
+    return definition.create(this.resolveSettings(name, config, isPreferred), config);
+  }
+
+  /**
+   * Run a provider's health check
+   */
+  async checkHealth(name: string, provider: AIProvider): Promise<boolean> {
+    const definition = this.require(name);
+
+    try {
+      return definition.healthCheck
+        ? await definition.healthCheck(provider)
+        : await provider.testConnection();
+    } catch (error) {
+      logger.debug(`Health check for ${name} failed`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a provider definition or throw a helpful error
+   */
+  private require(name: string): ProviderDefinition {
+    const definition = this.providers.get(name);
+
+    if (!definition) {
+      throw createUserError(`Unknown AI provider: ${name}`, {
+        category: ErrorCategory.CONFIGURATION,
+        resolution: `Choose one of: ${Array.from(this.providers.keys()).join(', ')}.`
+      });
+    }
+
+    return definition;
+  }
+}
+
+// Create a singleton provider registry
+export const providerRegistry = new ProviderRegistry();
+
+/**
+ * Register an AI provider
+ */
+export function registerProvider(definition: ProviderDefinition): void {
+  providerRegistry.register(definition);
+}
+
+/**
+ * Validate a provider's settings against its schema
+ *
+ * Unknown keys are passed through untouched; defaults are applied for
+ * missing ones.
+ */
+export function validateProviderSettings(
+  definition: ProviderDefinition,
+  settings: ProviderSettingValues
+): ProviderSettingValues {
+  const schema = definition.configSchema || {};
+  const result: ProviderSettingValues = { ...settings };
+  const errors: string[] = [];
+
+  for (const [key, field] of Object.entries(schema)) {
+    const value = result[key];
+
+    if (value === undefined || value === null || value === '') {
+      if (field.default !== undefined) {
+        result[key] = field.default;
+      } else if (field.required) {
+        errors.push(`${key} is required`);
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'url':
+        if (typeof value !== 'string' || !isUrl(value)) {
+          errors.push(`${key} must be a valid URL`);
+        }
+        break;
+
+      default:
+        if (typeof value !== field.type) {
+          errors.push(`${key} must be a ${field.type}`);
+        }
+    }
+  }
+
+  if (errors.length > 0) {
+    const section = definition.configKey || definition.name;
+    throw createUserError(`Invalid settings for AI provider ${definition.name}: ${errors.join('; ')}`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: `Check the ai.${section} section of your configuration.`
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Load modules that register additional providers
+ *
+ * A module may call `registerProvider` itself when imported, export a
+ * `registerProviders(registry)` function, or default-export a provider
+ * definition (or an array of them). Relative paths resolve against the
+ * current directory; anything else is imported as a package name.
+ */
+export async function loadProviderModules(specifiers: string[]): Promise<void> {
+  for (const specifier of specifiers) {
+    const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+    const target = isPath ? pathToFileURL(path.resolve(specifier)).href : specifier;
+
+    try {
+      const module = await import(target);
+
+      if (typeof module.registerProviders === 'function') {
+        await module.registerProviders(providerRegistry);
+      } else if (module.default) {
+        const definitions = Array.isArray(module.default) ? module.default : [module.default];
+        for (const definition of definitions) {
+          if (!providerRegistry.has(definition.name)) {
+            providerRegistry.register(definition);
+          }
+        }
+      }
+
+      logger.debug(`Loaded AI provider module: ${specifier}`);
+    } catch (error) {
+      throw createUserError(`Failed to load AI provider module: ${specifier}`, {
+        cause: error,
+        category: ErrorCategory.CONFIGURATION,
+        resolution: 'Check the ai.providerModules entry and that the module is installed.'
+      });
+    }
+  }
+}
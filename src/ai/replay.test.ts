@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { RecordingProvider, ReplayProvider, normalizeRequest, readFixture } from './replay.js';
+import { AIProvider, CompletionOptions, CompletionResponse, StreamEvent } from './provider.js';
+import { responseEvents } from './tools.js';
+
+let fixturePath: string;
+
+beforeEach(async () => {
+  fixturePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'knightcode-replay-')), 'fixture.json');
+});
+
+afterEach(async () => {
+  await fs.rm(path.dirname(fixturePath), { recursive: true, force: true });
+});
+
+function response(text: string): CompletionResponse {
+  return {
+    id: `msg_${text.length}`,
+    model: 'qwen2.5-coder:7b',
+    content: [{ type: 'text', text }],
+    stop_reason: 'stop',
+    usage: { input_tokens: 12, output_tokens: 3 }
+  };
+}
+
+/**
+ * A live provider that answers with a numbered reply
+ */
+function liveProvider(): AIProvider {
+  let calls = 0;
+  return {
+    getModel: (): string => 'qwen2.5-coder:7b',
+    complete: async (): Promise<CompletionResponse> => response(`answer ${++calls}`),
+    completeStream: async function* (): AsyncGenerator<StreamEvent> {
+      yield* responseEvents(response(`streamed ${++calls}`));
+    }
+  } as unknown as AIProvider;
+}
+
+async function collect(events: AsyncGenerator<StreamEvent>): Promise<StreamEvent[]> {
+  const result: StreamEvent[] = [];
+  for await (const event of events) {
+    result.push(event);
+  }
+  return result;
+}
+
+const question: CompletionOptions = {
+  system: 'You explain code.',
+  messages: [{ role: 'user', content: 'What does this do?\n\nconst a = 1;' }],
+  temperature: 0
+};
+
+describe('normalizeRequest', () => {
+  it('ignores line endings, trailing whitespace and transport settings', () => {
+    expect(normalizeRequest({
+      ...question,
+      system: '  You explain code.\r\n',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'What does this do?  \r\n\r\nconst a = 1;' }] }],
+      stream: true,
+      contextLength: 8192,
+      cache: false,
+      signal: new AbortController().signal
+    })).toEqual({
+      ...normalizeRequest(question),
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'What does this do?\n\nconst a = 1;' }] }]
+    });
+  });
+
+  it('keeps the settings that change the output', () => {
+    expect(normalizeRequest({ ...question, temperature: 0.7 })).not.toEqual(normalizeRequest(question));
+    expect(normalizeRequest({ ...question, model: 'devstral:24b' })).not.toEqual(normalizeRequest(question));
+  });
+});
+
+describe('record and replay', () => {
+  it('replays a recorded completion and stream', async () => {
+    const recorder = new RecordingProvider(liveProvider(), fixturePath);
+    const completed = await recorder.complete(question);
+    const streamed = await collect(recorder.completeStream({ ...question, temperature: 0.2 }));
+
+    const fixture = await readFixture(fixturePath);
+    expect(fixture?.model).toBe('qwen2.5-coder:7b');
+    expect(fixture?.entries.map(entry => [entry.kind, Boolean(entry.events)])).toEqual([
+      ['completion', false],
+      ['completion', true]
+    ]);
+
+    const replay = new ReplayProvider(fixturePath);
+    expect(await replay.complete({ ...question, system: 'You explain code.\n' })).toEqual(completed);
+    expect(await collect(replay.completeStream({ ...question, temperature: 0.2 }))).toEqual(streamed);
+    expect(replay.getModel()).toBe('qwen2.5-coder:7b');
+  });
+
+  it('answers a completion recorded as a stream, and the reverse', async () => {
+    const recorder = new RecordingProvider(liveProvider(), fixturePath);
+    await collect(recorder.completeStream(question));
+    await recorder.complete({ ...question, seed: 1 });
+
+    const replay = new ReplayProvider(fixturePath);
+    expect((await replay.complete(question)).content).toEqual([{ type: 'text', text: 'streamed 1' }]);
+
+    const events = await collect(replay.completeStream({ ...question, seed: 1 }));
+    expect(events[events.length - 1].message?.content).toEqual([{ type: 'text', text: 'answer 2' }]);
+  });
+
+  it('plays repeated recordings in order, then repeats the last', async () => {
+    const recorder = new RecordingProvider(liveProvider(), fixturePath);
+    await recorder.complete(question);
+    await recorder.complete(question);
+
+    const replay = new ReplayProvider(fixturePath);
+    const texts = [];
+    for (let i = 0; i < 3; i++) {
+      texts.push((await replay.complete(question)).content);
+    }
+
+    expect(texts).toEqual([
+      [{ type: 'text', text: 'answer 1' }],
+      [{ type: 'text', text: 'answer 2' }],
+      [{ type: 'text', text: 'answer 2' }]
+    ]);
+  });
+
+  it('fails a request that was never recorded', async () => {
+    await new RecordingProvider(liveProvider(), fixturePath).complete(question);
+    const replay = new ReplayProvider(fixturePath);
+    const other: CompletionOptions = { messages: [{ role: 'user', content: 'Something else entirely' }] };
+
+    await expect(replay.complete(other)).rejects.toThrow(`No recorded completion matches this request in ${fixturePath}`);
+    await expect(replay.complete(other)).rejects.toMatchObject({
+      details: { key: expect.stringMatching(/^[0-9a-f]{64}$/), preview: 'Something else entirely' }
+    });
+    await expect(collect(replay.completeStream(other))).rejects.toThrow('No recorded completion matches');
+  });
+
+  it('fails when the fixture does not exist', async () => {
+    await expect(new ReplayProvider(fixturePath).complete(question)).rejects.toThrow(`Replay fixture not found: ${fixturePath}`);
+  });
+});
@@ -0,0 +1,485 @@
+/**
+ * Replay Provider
+ *
+ * Records provider traffic to a fixture file and plays it back, so
+ * commands can be exercised without a model server and with the same
+ * output every time. In record mode a real provider is wrapped and every
+ * completion, stream and embedding is saved; in replay mode requests are
+ * matched by a hash of their normalized contents, and a request that was
+ * never recorded fails instead of reaching a live model.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import {
+  AIProvider,
+  CompletionOptions,
+  CompletionResponse,
+  ContentBlock,
+  EmbeddingResponse,
+  LoadedModel,
+  PullOptions,
+  StreamEvent
+} from './provider.js';
+import { AIModel } from './types.js';
+import { ProviderWrapper } from './wrapper.js';
+import { canonicalJson } from './cache.js';
+import { responseEvents } from './tools.js';
+import { getTextContent } from './content.js';
+
+// Fixture layout version, bumped when entries change incompatibly
+export const FIXTURE_VERSION = 1;
+
+/**
+ * Whether requests are saved to the fixture or answered from it
+ */
+export type ReplayMode = 'record' | 'replay';
+
+/**
+ * A request reduced to the fields that determine its output, as JSON
+ */
+export type NormalizedRequest = Record<string, unknown>;
+
+/**
+ * Settings of the replay provider
+ */
+export interface ReplayConfig {
+  defaultModel?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A recorded request and its response
+ */
+export interface FixtureEntry {
+  key: string;
+  kind: 'completion' | 'embedding';
+  /**
+   * The normalized request the key was computed from, kept so fixtures
+   * can be read and diffed
+   */
+  request: NormalizedRequest;
+  response: CompletionResponse | EmbeddingResponse;
+  /**
+   * Events of a streamed completion, in the order they arrived
+   */
+  events?: StreamEvent[];
+}
+
+/**
+ * Contents of a fixture file
+ */
+export interface Fixture {
+  version: number;
+  /**
+   * Default model of the recorded provider
+   */
+  model?: string;
+  /**
+   * Model details the recorded provider reported, by model name
+   */
+  models: Record<string, AIModel>;
+  entries: FixtureEntry[];
+}
+
+/**
+ * Normalize text so that line endings and surrounding whitespace don't
+ * change a request's key
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+/**
+ * Normalize a message's content
+ */
+function normalizeContent(content: string | ContentBlock[]): string | ContentBlock[] {
+  if (typeof content === 'string') {
+    return normalizeText(content);
+  }
+
+  return content.map(block => block.type === 'text' ? { ...block, text: normalizeText(block.text) } : block);
+}
+
+/**
+ * Reduce a completion request to the fields that determine its output
+ *
+ * Transport settings such as the abort signal, streaming, caching and the
+ * context window size are left out, as is the provider's default model, so
+ * a fixture keeps matching when those change.
+ */
+export function normalizeRequest(options: CompletionOptions): NormalizedRequest {
+  return {
+    model: options.model,
+    system: options.system !== undefined ? normalizeText(options.system) : undefined,
+    messages: options.messages.map(message => ({
+      role: message.role,
+      content: normalizeContent(message.content)
+    })),
+    temperature: options.temperature,
+    seed: options.seed,
+    maxTokens: options.maxTokens,
+    topP: options.topP,
+    topK: options.topK,
+    stopSequences: options.stopSequences,
+    tools: options.tools,
+    toolChoice: options.toolChoice,
+    responseFormat: options.responseFormat?.schema
+  };
+}
+
+/**
+ * Hash a normalized request
+ */
+function hashRequest(kind: FixtureEntry['kind'], request: NormalizedRequest): string {
+  return createHash('sha256').update(canonicalJson({ kind, request })).digest('hex');
+}
+
+/**
+ * Build a completion response from a stream's final event
+ */
+function streamResponse(event: StreamEvent): CompletionResponse {
+  return {
+    id: event.message!.id,
+    model: event.message!.model,
+    content: event.message!.content,
+    stop_reason: event.message!.stop_reason,
+    stop_sequence: event.message!.stop_sequence,
+    usage: event.usage_metadata || { input_tokens: 0, output_tokens: 0 }
+  };
+}
+
+/**
+ * Read a fixture file
+ *
+ * Returns null when the file doesn't exist; a file that isn't a fixture
+ * is an error.
+ */
+export async function readFixture(filePath: string): Promise<Fixture | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw createUserError(`Failed to read replay fixture: ${filePath}`, {
+      cause: error,
+      category: ErrorCategory.FILE_READ,
+      resolution: 'Check file permissions and try again.'
+    });
+  }
+
+  let fixture: Fixture;
+  try {
+    fixture = JSON.parse(content);
+  } catch (error) {
+    throw createUserError(`Replay fixture is not valid JSON: ${filePath}`, {
+      cause: error,
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Record the fixture again with --record.'
+    });
+  }
+
+  if (fixture?.version !== FIXTURE_VERSION || !Array.isArray(fixture.entries)) {
+    throw createUserError(`Unsupported replay fixture: ${filePath}`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Record the fixture again with --record.'
+    });
+  }
+
+  return { ...fixture, models: fixture.models || {} };
+}
+
+/**
+ * Write a fixture file
+ *
+ * The file is written to a temporary path and renamed into place, so an
+ * interrupted run never leaves a truncated fixture.
+ */
+export async function writeFixture(filePath: string, fixture: Fixture): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Provider wrapper that saves every request and response to a fixture
+ *
+ * Recordings are added to an existing fixture, so a fixture can be built
+ * up over several runs. A stream is only saved once it completes.
+ */
+export class RecordingProvider extends ProviderWrapper {
+  private fixture: Promise<Fixture> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(provider: AIProvider, private filePath: string) {
+    super(provider);
+  }
+
+  /**
+   * Get the path of the fixture file
+   */
+  getFixturePath(): string {
+    return this.filePath;
+  }
+
+  async getModelInfo(model?: string): Promise<AIModel> {
+    const info = await this.provider.getModelInfo(model);
+    await this.update(fixture => {
+      fixture.models[model || this.provider.getModel()] = info;
+    });
+    return info;
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const response = await this.provider.complete(options);
+    await this.save('completion', normalizeRequest(options), response);
+    return response;
+  }
+
+  async *completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    const events: StreamEvent[] = [];
+
+    for await (const event of this.provider.completeStream(options)) {
+      events.push(event);
+
+      if (event.type === 'message_stop' && event.message) {
+        await this.save('completion', normalizeRequest(options), streamResponse(event), events);
+      }
+
+      yield event;
+    }
+  }
+
+  async embed(texts: string[], model?: string): Promise<EmbeddingResponse> {
+    const response = await this.provider.embed(texts, model);
+    await this.save('embedding', { model, texts: texts.map(normalizeText) }, response);
+    return response;
+  }
+
+  /**
+   * Add an entry to the fixture
+   */
+  private async save(
+    kind: FixtureEntry['kind'],
+    request: NormalizedRequest,
+    response: FixtureEntry['response'],
+    events?: StreamEvent[]
+  ): Promise<void> {
+    const entry: FixtureEntry = { key: hashRequest(kind, request), kind, request, response };
+    if (events) {
+      entry.events = events;
+    }
+
+    await this.update(fixture => {
+      fixture.entries.push(entry);
+    });
+    logger.debug(`Recorded ${kind} ${entry.key} to ${this.filePath}`);
+  }
+
+  /**
+   * Apply a change to the fixture and write it out
+   *
+   * Writes are queued so concurrent requests don't overwrite each other.
+   */
+  private update(change: (fixture: Fixture) => void): Promise<void> {
+    if (!this.fixture) {
+      this.fixture = readFixture(this.filePath).then(fixture => fixture || {
+        version: FIXTURE_VERSION,
+        models: {},
+        entries: []
+      });
+    }
+
+    this.writing = this.writing.then(async () => {
+      const fixture = await this.fixture!;
+      fixture.model = this.provider.getModel();
+      change(fixture);
+      await writeFixture(this.filePath, fixture);
+    });
+
+    return this.writing;
+  }
+}
+
+/**
+ * Provider that answers requests from a fixture file
+ *
+ * Requests recorded more than once are answered in the order they were
+ * recorded, repeating the last answer once the recordings run out. Model
+ * downloads are not supported.
+ */
+export class ReplayProvider implements AIProvider {
+  private fixture: Promise<Fixture> | null = null;
+  private model: string | undefined;
+  private config: ReplayConfig;
+  // Recordings already played back, by key
+  private played: Map<string, number> = new Map();
+
+  constructor(private filePath: string, config: ReplayConfig = {}) {
+    this.config = { ...config };
+    this.model = config.defaultModel;
+  }
+
+  /**
+   * Get the path of the fixture file
+   */
+  getFixturePath(): string {
+    return this.filePath;
+  }
+
+  async testConnection(): Promise<boolean> {
+    await this.load();
+    return true;
+  }
+
+  async getModels(): Promise<string[]> {
+    return (await this.listModels()).map(model => model.id);
+  }
+
+  async listModels(): Promise<AIModel[]> {
+    const fixture = await this.load();
+    const models = { ...fixture.models };
+
+    if (fixture.model && !models[fixture.model]) {
+      models[fixture.model] = { id: fixture.model, name: fixture.model };
+    }
+
+    return Object.values(models);
+  }
+
+  async pullModel(_model: string, _options?: PullOptions): Promise<void> {
+    throw createUserError('The replay provider cannot download models', {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Pull models with a live provider, then record the fixture again.'
+    });
+  }
+
+  async deleteModel(_model: string): Promise<void> {
+    throw createUserError('The replay provider cannot delete models', {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Delete models with a live provider.'
+    });
+  }
+
+  async listLoadedModels(): Promise<LoadedModel[]> {
+    return [];
+  }
+
+  /**
+   * Nothing to load; recordings are always ready
+   */
+  async loadModel(_model?: string): Promise<void> {}
+
+  async unloadModel(_model: string): Promise<void> {}
+
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  getModel(): string {
+    return this.model || 'replay';
+  }
+
+  async getModelInfo(model?: string): Promise<AIModel> {
+    const fixture = await this.load();
+    const id = model || this.model || fixture.model || 'replay';
+    return fixture.models[id] || { id, name: id };
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const entry = await this.match('completion', normalizeRequest(options), options);
+    return entry.response as CompletionResponse;
+  }
+
+  async *completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    const entry = await this.match('completion', normalizeRequest(options), options);
+
+    if (entry.events) {
+      yield* entry.events;
+    } else {
+      yield* responseEvents(entry.response as CompletionResponse);
+    }
+  }
+
+  async embed(texts: string[], model?: string): Promise<EmbeddingResponse> {
+    const entry = await this.match('embedding', { model, texts: texts.map(normalizeText) });
+    return entry.response as EmbeddingResponse;
+  }
+
+  getConfig(): ReplayConfig & { fixture: string } {
+    return { ...this.config, fixture: this.filePath };
+  }
+
+  updateConfig(config: Partial<ReplayConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (config.defaultModel) {
+      this.model = config.defaultModel;
+    }
+  }
+
+  getProviderName(): string {
+    return 'replay';
+  }
+
+  /**
+   * Load the fixture, once
+   */
+  private load(): Promise<Fixture> {
+    if (!this.fixture) {
+      this.fixture = readFixture(this.filePath).then(fixture => {
+        if (!fixture) {
+          throw createUserError(`Replay fixture not found: ${this.filePath}`, {
+            category: ErrorCategory.CONFIGURATION,
+            resolution: 'Record it first by running the same command with --record.'
+          });
+        }
+
+        if (!this.model && fixture.model) {
+          this.model = fixture.model;
+        }
+
+        logger.debug(`Loaded ${fixture.entries.length} recordings from ${this.filePath}`);
+        return fixture;
+      });
+    }
+
+    return this.fixture;
+  }
+
+  /**
+   * Find the recording for a request, or fail
+   */
+  private async match(
+    kind: FixtureEntry['kind'],
+    request: NormalizedRequest,
+    options?: CompletionOptions
+  ): Promise<FixtureEntry> {
+    const fixture = await this.load();
+    const key = hashRequest(kind, request);
+    const entries = fixture.entries.filter(entry => entry.key === key);
+
+    if (entries.length === 0) {
+      const lastMessage = options?.messages[options.messages.length - 1];
+      const preview = lastMessage
+        ? normalizeText(getTextContent(lastMessage.content)).slice(0, 200)
+        : undefined;
+
+      throw createUserError(`No recorded ${kind} matches this request in ${this.filePath}`, {
+        category: ErrorCategory.AI_SERVICE,
+        resolution: 'The request differs from the recording; record the fixture again with --record.',
+        details: { key, preview }
+      });
+    }
+
+    const index = this.played.get(key) || 0;
+    this.played.set(key, index + 1);
+    return entries[Math.min(index, entries.length - 1)];
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from '@jest/globals';
+import { ReviewFinding, ReviewInput, ReviewReport, toReviewReport, toSarif } from './review.js';
+
+const input: ReviewInput = {
+  description: 'the staged changes',
+  isDiff: true,
+  files: ['src/math.ts', 'src/ai/review.ts'],
+  attachments: [],
+  skipped: []
+};
+
+function finding(overrides: Partial<ReviewFinding>): ReviewFinding {
+  return {
+    file: 'src/math.ts',
+    line: 1,
+    severity: 'minor',
+    category: 'style',
+    message: 'Prefer const.',
+    suggestion: '',
+    ...overrides
+  };
+}
+
+describe('toReviewReport', () => {
+  it('matches paths the model prefixed or shortened to the reviewed files', () => {
+    const report = toReviewReport({
+      summary: 'ok',
+      findings: [
+        finding({ file: 'b/src/math.ts' }),
+        finding({ file: './src/math.ts' }),
+        finding({ file: 'review.ts' }),
+        finding({ file: '/repo/src/ai/review.ts' }),
+        finding({ file: 'src/other.ts' })
+      ]
+    }, input);
+
+    expect(report.findings.map(item => item.file)).toEqual([
+      'src/math.ts',
+      'src/math.ts',
+      'src/ai/review.ts',
+      'src/ai/review.ts',
+      'src/other.ts'
+    ]);
+  });
+
+  it('orders findings by reviewed file, then line, with other files last', () => {
+    const report = toReviewReport({
+      summary: '',
+      findings: [
+        finding({ file: 'src/other.ts', line: 1 }),
+        finding({ file: 'src/ai/review.ts', line: 9 }),
+        finding({ file: 'src/math.ts', line: 20 }),
+        finding({ file: 'src/math.ts', line: 3 })
+      ]
+    }, input);
+
+    expect(report.findings.map(item => `${item.file}:${item.line}`)).toEqual([
+      'src/math.ts:3',
+      'src/math.ts:20',
+      'src/ai/review.ts:9',
+      'src/other.ts:1'
+    ]);
+  });
+
+  it('keeps the summary', () => {
+    expect(toReviewReport({ summary: 'Looks good.', findings: [] }, input)).toEqual({ summary: 'Looks good.', findings: [] });
+  });
+});
+
+describe('toSarif', () => {
+  const report: ReviewReport = {
+    summary: '',
+    findings: [
+      finding({ line: 6, severity: 'major', category: 'bug', message: 'Divides by zero.', suggestion: 'Check b.' }),
+      finding({ line: 2, severity: 'info', category: 'style' }),
+      finding({ file: 'src/ai/review.ts', line: 4, severity: 'critical', category: 'bug', message: 'Leaks a token.' })
+    ]
+  };
+
+  const log = toSarif(report, '1.2.3');
+
+  it('describes the tool and one rule per category', () => {
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver).toEqual({
+      name: 'knightcode',
+      version: '1.2.3',
+      rules: [
+        { id: 'bug', name: 'bug', shortDescription: { text: 'Knightcode review: bug' } },
+        { id: 'style', name: 'style', shortDescription: { text: 'Knightcode review: style' } }
+      ]
+    });
+  });
+
+  it('maps severities to SARIF levels', () => {
+    expect(log.runs[0].results.map(result => [result.level, result.properties.severity])).toEqual([
+      ['error', 'major'],
+      ['note', 'info'],
+      ['error', 'critical']
+    ]);
+  });
+
+  it('locates each result and appends the suggestion to the message', () => {
+    expect(log.runs[0].results[0]).toEqual({
+      ruleId: 'bug',
+      level: 'error',
+      message: { text: 'Divides by zero.\n\nSuggestion: Check b.' },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/math.ts', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 6 }
+        }
+      }],
+      properties: { severity: 'major' }
+    });
+    expect(log.runs[0].results[2].message.text).toBe('Leaks a token.');
+  });
+
+  it('reports minor findings as warnings', () => {
+    expect(toSarif({ summary: '', findings: [finding({})] }, '1.0.0').runs[0].results[0].level).toBe('warning');
+  });
+});
@@ -0,0 +1,467 @@
+/**
+ * Code Review
+ *
+ * Collects what to review (staged changes, a branch, a patch file, or
+ * whole files), asks the model for structured findings, and converts them
+ * to SARIF for code scanning tools. Each changed file is sent with its
+ * diff and its code after the change, with line numbers, so findings can
+ * point at real lines.
+ */
+
+import { execFile } from 'child_process';
+import path from 'path';
+import { promisify } from 'util';
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { fileExists, matchGlobs, readTextFile } from '../fs/operations.js';
+import { DiffFile, getChangedRanges, parseUnifiedDiff } from '../utils/diff.js';
+import { ContextAttachment } from './budget.js';
+import { ContextFileOptions, SkippedContextFile, collectContextFiles } from './context.js';
+import { getLanguageFromFilePath } from './prompts.js';
+import { CompletionOptions } from './provider.js';
+
+const execFileAsync = promisify(execFile);
+
+// Files up to this many lines are sent whole; longer ones as windows
+// around the changed lines
+const WHOLE_FILE_LINES = 300;
+
+// Lines of context kept on each side of a change in a longer file
+const CONTEXT_LINES = 30;
+
+export const REVIEW_SEVERITIES = ['critical', 'major', 'minor', 'info'] as const;
+
+export const REVIEW_CATEGORIES = [
+  'bug',
+  'security',
+  'performance',
+  'error-handling',
+  'maintainability',
+  'style',
+  'testing',
+  'documentation'
+] as const;
+
+export type ReviewSeverity = typeof REVIEW_SEVERITIES[number];
+
+export type ReviewCategory = typeof REVIEW_CATEGORIES[number];
+
+/**
+ * A problem the reviewer found
+ */
+export interface ReviewFinding {
+  /**
+   * Path relative to the repository root (or current directory for files)
+   */
+  file: string;
+  line: number;
+  severity: ReviewSeverity;
+  category: ReviewCategory;
+
+  /**
+   * What is wrong and why it matters
+   */
+  message: string;
+  suggestion: string;
+}
+
+/**
+ * Result of a review
+ */
+export interface ReviewReport {
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+/**
+ * A SARIF 2.1.0 log, limited to the properties a review produces
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+/**
+ * One run of a tool in a SARIF log
+ */
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      rules: Array<{ id: string; name: string; shortDescription: { text: string } }>;
+    };
+  };
+  results: SarifResult[];
+}
+
+/**
+ * A finding in a SARIF log
+ */
+export interface SarifResult {
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: { startLine: number };
+    };
+  }>;
+  properties: { severity: ReviewSeverity };
+}
+
+/**
+ * What to review
+ */
+export type ReviewSource =
+  | { kind: 'working' }
+  | { kind: 'staged' }
+  | { kind: 'base'; base: string }
+  | { kind: 'patch'; patch: string }
+  | { kind: 'files'; files: string[] };
+
+/**
+ * Material collected for a review
+ */
+export interface ReviewInput {
+  /**
+   * What is being reviewed, e.g. "the staged changes"
+   */
+  description: string;
+
+  /**
+   * Whether the input is a diff rather than whole files
+   */
+  isDiff: boolean;
+  files: string[];
+  attachments: ContextAttachment[];
+  skipped: SkippedContextFile[];
+}
+
+// Schema of the model's reply
+export const REVIEW_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'string',
+      description: 'One or two sentences on the code as a whole'
+    },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string', description: 'Path of the file, as named in the attachment' },
+          line: { type: 'integer', minimum: 1, description: 'Line number, as numbered in the attachment' },
+          severity: { type: 'string', enum: [...REVIEW_SEVERITIES] },
+          category: { type: 'string', enum: [...REVIEW_CATEGORIES] },
+          message: { type: 'string', description: 'What is wrong and why it matters' },
+          suggestion: { type: 'string', description: 'How to fix it' }
+        },
+        required: ['file', 'line', 'severity', 'category', 'message', 'suggestion'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['summary', 'findings'],
+  additionalProperties: false
+};
+
+/**
+ * Run git and return its output
+ */
+async function git(args: string[], cwd?: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    const stderr = String((error as { stderr?: string }).stderr || (error as Error).message || '').trim().split('\n')[0];
+    throw createUserError(`git ${args[0]} failed: ${stderr}`, {
+      cause: error,
+      category: ErrorCategory.COMMAND_EXECUTION,
+      resolution: 'Run review inside a git repository, and check that the base branch exists.'
+    });
+  }
+}
+
+/**
+ * Number lines for the model, e.g. "  42 | return x;"
+ */
+function numberLines(lines: string[], firstLine: number, width: number): string[] {
+  return lines.map((line, i) => `${String(firstLine + i).padStart(width)} | ${line}`);
+}
+
+/**
+ * Get the post-change code around a file's hunks, with line numbers
+ *
+ * Short files are included whole; longer ones as windows around each
+ * change, with `...` between them.
+ */
+function buildChangeContext(content: string, file: DiffFile): string {
+  const lines = content.replace(/\n$/, '').split('\n');
+  const width = String(lines.length).length;
+
+  if (lines.length <= WHOLE_FILE_LINES) {
+    return numberLines(lines, 1, width).join('\n');
+  }
+
+  const windows: Array<{ start: number; end: number }> = [];
+  for (const range of getChangedRanges(file)) {
+    const start = Math.max(1, range.start - CONTEXT_LINES);
+    const end = Math.min(lines.length, range.end + CONTEXT_LINES);
+    const previous = windows[windows.length - 1];
+    if (previous && start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, end);
+    } else {
+      windows.push({ start, end });
+    }
+  }
+
+  return windows
+    .map(window => numberLines(lines.slice(window.start - 1, window.end), window.start, width).join('\n'))
+    .join('\n...\n');
+}
+
+/**
+ * Get the post-change code of a patch from its hunks alone
+ */
+function buildHunkContext(file: DiffFile): string {
+  const width = String(Math.max(...file.hunks.map(hunk => hunk.newStart + hunk.newLines))).length;
+
+  return file.hunks
+    .map(hunk => numberLines(
+      hunk.lines.filter(line => !line.startsWith('-')).map(line => line.slice(1)),
+      hunk.newStart,
+      width
+    ).join('\n'))
+    .join('\n...\n');
+}
+
+/**
+ * Check that a file's content matches the post-change side of a patch
+ */
+function matchesPatch(content: string, file: DiffFile): boolean {
+  const lines = content.replace(/\n$/, '').split('\n');
+
+  return file.hunks.every(hunk => {
+    const after = hunk.lines.filter(line => !line.startsWith('-')).map(line => line.slice(1));
+    return after.every((line, i) => lines[hunk.newStart - 1 + i] === line);
+  });
+}
+
+/**
+ * Describe a review source for the prompt and the user
+ */
+function describeSource(source: ReviewSource): string {
+  switch (source.kind) {
+    case 'staged':
+      return 'the staged changes';
+    case 'base':
+      return `the changes on this branch since ${source.base}`;
+    case 'patch':
+      return `the changes in ${source.patch}`;
+    case 'files':
+      return source.files.length === 1 ? source.files[0] : 'these files';
+    default:
+      return 'the uncommitted changes';
+  }
+}
+
+/**
+ * Collect the diff or files to review
+ *
+ * Changed files matching `codeAnalysis.excludePatterns`, binary files and
+ * deleted files are skipped; for the rest the diff and the code after the
+ * change are attached.
+ */
+export async function collectReviewInput(source: ReviewSource, options: ContextFileOptions = {}): Promise<ReviewInput> {
+  const description = describeSource(source);
+
+  if (source.kind === 'files') {
+    const collected = await collectContextFiles(source.files, options);
+    return {
+      description,
+      isDiff: false,
+      files: collected.attachments.map(attachment => attachment.name),
+      attachments: collected.attachments.map(attachment => {
+        const lines = attachment.content.replace(/\n$/, '').split('\n');
+        return {
+          name: attachment.name,
+          content: numberLines(lines, 1, String(lines.length).length).join('\n'),
+          language: getLanguageFromFilePath(attachment.name)
+        };
+      }),
+      skipped: collected.skipped
+    };
+  }
+
+  let diff: string;
+  let root = process.cwd();
+  let readAfter: (file: string) => Promise<string | undefined>;
+
+  if (source.kind === 'patch') {
+    if (!await fileExists(source.patch)) {
+      throw createUserError(`Patch file not found: ${source.patch}`, {
+        category: ErrorCategory.FILE_NOT_FOUND,
+        resolution: 'Check the path of the patch file.'
+      });
+    }
+    diff = await readTextFile(source.patch);
+    readAfter = async (file: string): Promise<string | undefined> => await fileExists(file) ? readTextFile(file) : undefined;
+  } else {
+    if (source.kind === 'base' && source.base.startsWith('-')) {
+      throw createUserError(`Invalid base: ${source.base}`, {
+        category: ErrorCategory.VALIDATION,
+        resolution: 'Pass a branch, tag or commit, e.g. --base main.'
+      });
+    }
+
+    root = (await git(['rev-parse', '--show-toplevel'])).trim();
+    const args = ['diff', '--no-color', '--no-ext-diff', '-M'];
+
+    if (source.kind === 'staged') {
+      diff = await git([...args, '--cached'], root);
+      readAfter = (file: string): Promise<string> => git(['show', `:${file}`], root);
+    } else if (source.kind === 'base') {
+      diff = await git([...args, `${source.base}...HEAD`], root);
+      readAfter = (file: string): Promise<string> => git(['show', `HEAD:${file}`], root);
+    } else {
+      diff = await git([...args, 'HEAD'], root);
+      readAfter = (file: string): Promise<string> => readTextFile(path.join(root, file));
+    }
+  }
+
+  const input: ReviewInput = { description, isDiff: true, files: [], attachments: [], skipped: [] };
+  const { excludePatterns = [] } = options;
+
+  for (const file of parseUnifiedDiff(diff)) {
+    const excludedBy = matchGlobs(file.path, excludePatterns);
+    if (excludedBy) {
+      input.skipped.push({ path: file.path, reason: `excluded by ${excludedBy}` });
+      continue;
+    }
+    if (file.binary) {
+      input.skipped.push({ path: file.path, reason: 'binary' });
+      continue;
+    }
+    if (file.status === 'deleted' || file.hunks.length === 0) {
+      input.skipped.push({ path: file.path, reason: file.status === 'deleted' ? 'deleted' : 'no changed lines' });
+      continue;
+    }
+
+    const language = getLanguageFromFilePath(file.path);
+    const after = await readAfter(file.path);
+    // A patch may not be applied to the working tree; then only its hunks are known
+    const context = after !== undefined && (source.kind !== 'patch' || matchesPatch(after, file))
+      ? buildChangeContext(after, file)
+      : buildHunkContext(file);
+
+    input.files.push(file.path);
+    input.attachments.push(
+      { name: `${file.path} (diff)`, content: file.patch, language: 'diff' },
+      { name: `${file.path} (after the change, numbered)`, content: context, language }
+    );
+  }
+
+  if (input.files.length === 0 && input.skipped.length === 0) {
+    throw createUserError(`Nothing to review in ${description}`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: 'Stage changes, or choose what to review with --staged, --base, --patch or file paths.'
+    });
+  }
+
+  return input;
+}
+
+/**
+ * Build the request for a review
+ *
+ * @param system System prompt, normally the reviewCode template's
+ */
+export function buildReviewRequest(input: ReviewInput, system: string): CompletionOptions {
+  const instructions = input.isDiff
+    ? `Review ${input.description}. For each changed file, its diff and its code after the change, with line numbers, are attached. `
+      + 'Report problems in the changed code or caused by the change, using the line numbers after the change. '
+    : `Review ${input.description}. The files are attached with line numbers; report each problem at its line. `;
+
+  return {
+    messages: [{
+      role: 'user',
+      content: instructions
+        + 'Report each real problem once, with a concrete suggestion. Leave out praise and '
+        + 'matters of taste; if nothing needs changing, return no findings.'
+    }],
+    system,
+    temperature: 0.2,
+    maxTokens: 4096,
+    responseFormat: { schema: REVIEW_SCHEMA, name: 'code_review' }
+  };
+}
+
+/**
+ * Turn the model's reply into a report
+ *
+ * The reply has been validated against REVIEW_SCHEMA. Paths are matched to
+ * the reviewed files where the model added a prefix, and findings are
+ * sorted by file, then line.
+ */
+export function toReviewReport(reply: ReviewReport, input: ReviewInput): ReviewReport {
+  const findings = reply.findings.map((finding): ReviewFinding => {
+    const file = finding.file.replace(/^[ab]\//, '').replace(/^\.\//, '');
+    return {
+      ...finding,
+      file: input.files.find(reviewed => reviewed === file || reviewed.endsWith(`/${file}`) || file.endsWith(`/${reviewed}`)) || file
+    };
+  });
+
+  const order = (file: string): number => {
+    const index = input.files.indexOf(file);
+    return index === -1 ? input.files.length : index;
+  };
+  findings.sort((a, b) => order(a.file) - order(b.file) || a.file.localeCompare(b.file) || a.line - b.line);
+
+  return { summary: reply.summary, findings };
+}
+
+/**
+ * Convert a report to SARIF 2.1.0, the format code scanning tools read
+ *
+ * Categories become rules; critical and major findings are errors, minor
+ * ones warnings, and info findings notes.
+ */
+export function toSarif(report: ReviewReport, toolVersion: string): SarifLog {
+  const levels: Record<ReviewSeverity, SarifResult['level']> = { critical: 'error', major: 'error', minor: 'warning', info: 'note' };
+  const categories = [...new Set(report.findings.map(finding => finding.category))].sort();
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'knightcode',
+          version: toolVersion,
+          rules: categories.map(category => ({
+            id: category,
+            name: category,
+            shortDescription: { text: `Knightcode review: ${category}` }
+          }))
+        }
+      },
+      results: report.findings.map(finding => ({
+        ruleId: finding.category,
+        level: levels[finding.severity],
+        message: { text: finding.suggestion ? `${finding.message}\n\nSuggestion: ${finding.suggestion}` : finding.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: finding.file.split(path.sep).join('/'), uriBaseId: '%SRCROOT%' },
+            region: { startLine: finding.line }
+          }
+        }],
+        properties: { severity: finding.severity }
+      }))
+    }]
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Command Routing
+ *
+ * Lets each command use its own provider, model and sampling settings
+ * through `ai.routes`, so quick tasks can go to a small fast model and
+ * code changes to a large one. Routes are keyed by command name or by the
+ * task type of the prompt template the command uses; a command route
+ * overrides a task route.
+ */
+
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { isNonEmptyString } from '../utils/validation.js';
+import { AIProvider, CompletionOptions } from './provider.js';
+
+/**
+ * Settings a route can override
+ */
+export interface RouteSettings {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Task type, from PROMPT_TEMPLATES, that each command performs
+export const COMMAND_TASKS: Record<string, string> = {
+  explain: 'explainCode',
+  refactor: 'refactorCode',
+  fix: 'debugCode',
+  generate: 'generateCode',
+  review: 'reviewCode'
+};
+
+// Route applied to the current command's requests
+let activeRoute: RouteSettings = {};
+
+/**
+ * Check a route from the configuration
+ */
+function validateRoute(name: string, route: any): RouteSettings {
+  const errors: string[] = [];
+
+  if (typeof route !== 'object' || route === null || Array.isArray(route)) {
+    errors.push('must be an object');
+  } else {
+    for (const key of ['provider', 'model'] as const) {
+      if (route[key] !== undefined && !isNonEmptyString(route[key])) {
+        errors.push(`${key} must be a non-empty string`);
+      }
+    }
+    if (route.temperature !== undefined && (typeof route.temperature !== 'number' || route.temperature < 0 || route.temperature > 2)) {
+      errors.push('temperature must be a number from 0 to 2');
+    }
+    if (route.maxTokens !== undefined && (!Number.isInteger(route.maxTokens) || route.maxTokens <= 0)) {
+      errors.push('maxTokens must be a positive integer');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw createUserError(`Invalid route for ${name}: ${errors.join('; ')}`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: `Check ai.routes.${name} in your configuration.`
+    });
+  }
+
+  return route;
+}
+
+/**
+ * Get the route for a command from the application config
+ *
+ * Returns an empty route when nothing is configured for the command.
+ */
+export function resolveRoute(config: any, command: string): RouteSettings {
+  const routes = config.ai?.routes || {};
+  const task = COMMAND_TASKS[command];
+  const route: RouteSettings = {};
+
+  for (const name of [task, command]) {
+    if (name && routes[name] !== undefined) {
+      Object.assign(route, validateRoute(name, routes[name]));
+    }
+  }
+
+  return route;
+}
+
+/**
+ * Set the route applied by applyRoute()
+ */
+export function setActiveRoute(route: RouteSettings): void {
+  activeRoute = route;
+}
+
+/**
+ * Get the route of the current command
+ */
+export function getActiveRoute(): RouteSettings {
+  return activeRoute;
+}
+
+/**
+ * Apply the current route's sampling settings to a request
+ *
+ * A routed temperature or token limit replaces the command's own default;
+ * the model is already selected on the provider when AI is initialized.
+ */
+export function applyRoute(options: CompletionOptions, route: RouteSettings = activeRoute): CompletionOptions {
+  return {
+    ...options,
+    temperature: route.temperature ?? options.temperature,
+    maxTokens: route.maxTokens ?? options.maxTokens
+  };
+}
+
+/**
+ * Check that a provider offers a model
+ *
+ * An untagged Ollama name matches its `:latest` tag. Providers that can't
+ * list their models are given the benefit of the doubt.
+ */
+export async function checkModelAvailable(provider: AIProvider, model: string): Promise<void> {
+  const available = await provider.getModels().catch(() => [] as string[]);
+
+  if (available.length === 0 || available.includes(model) || available.includes(`${model}:latest`)) {
+    return;
+  }
+
+  throw createUserError(`Model ${model} is not available from ${provider.getProviderName()}`, {
+    category: ErrorCategory.VALIDATION,
+    resolution: `Choose one of: ${available.join(', ')}`
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { ReadableStream } from 'stream/web';
+import { parseSSEStream, SSEEvent } from './sse.js';
+
+/**
+ * Build a response body that delivers the given chunks one read at a time
+ */
+function streamOf(chunks: Array<string | Uint8Array>): globalThis.ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller): void {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    }
+  }) as globalThis.ReadableStream<Uint8Array>;
+}
+
+async function collect(chunks: Array<string | Uint8Array>): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = [];
+  for await (const event of parseSSEStream(streamOf(chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('parseSSEStream', () => {
+  it('dispatches an event per frame', async () => {
+    expect(await collect(['data: one\n\ndata: two\n\n'])).toEqual([
+      { event: undefined, data: 'one' },
+      { event: undefined, data: 'two' }
+    ]);
+  });
+
+  it('joins frames split across reads at any point', async () => {
+    expect(await collect(['da', 'ta: {"a"', ':1}\n', '\nevent: do', 'ne\ndata: x\n\n'])).toEqual([
+      { event: undefined, data: '{"a":1}' },
+      { event: 'done', data: 'x' }
+    ]);
+  });
+
+  it('keeps multi-byte characters split across reads', async () => {
+    const bytes = new TextEncoder().encode('data: café\n\n');
+    expect(await collect([bytes.slice(0, 10), bytes.slice(10)])).toEqual([
+      { event: undefined, data: 'café' }
+    ]);
+  });
+
+  it('accepts CRLF line endings', async () => {
+    expect(await collect(['event: message\r\ndata: hi\r\n\r\n'])).toEqual([
+      { event: 'message', data: 'hi' }
+    ]);
+  });
+
+  it('joins multiple data lines with newlines', async () => {
+    expect(await collect(['data: a\ndata: b\n\n'])).toEqual([
+      { event: undefined, data: 'a\nb' }
+    ]);
+  });
+
+  it('skips comments and frames without data', async () => {
+    expect(await collect([': keep-alive\n\nevent: ping\n\ndata: x\n\n'])).toEqual([
+      { event: undefined, data: 'x' }
+    ]);
+  });
+
+  it('dispatches a trailing frame without a final blank line', async () => {
+    expect(await collect(['data: first\n\ndata: [DONE]'])).toEqual([
+      { event: undefined, data: 'first' },
+      { event: undefined, data: '[DONE]' }
+    ]);
+  });
+});
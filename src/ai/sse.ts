@@ -0,0 +1,113 @@
+/**
+ * Server-Sent Events
+ *
+ * Minimal parser for `text/event-stream` response bodies as used by
+ * OpenAI-style and Anthropic streaming endpoints.
+ */
+
+/**
+ * A single dispatched server-sent event
+ */
+export interface SSEEvent {
+  /**
+   * Event name from an `event:` field, if any
+   */
+  event?: string;
+
+  /**
+   * Data payload; multiple `data:` lines are joined with newlines
+   */
+  data: string;
+}
+
+/**
+ * Parse a server-sent event stream
+ *
+ * Frames may be split across network reads at any byte, so partial lines
+ * are buffered until their terminating newline arrives. Events are
+ * dispatched on the blank line that ends each frame.
+ */
+export async function* parseSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  // Turn the fields collected so far into an event
+  const dispatch = (): SSEEvent | null => {
+    if (dataLines.length === 0) {
+      eventName = undefined;
+      return null;
+    }
+
+    const event: SSEEvent = { event: eventName, data: dataLines.join('\n') };
+    eventName = undefined;
+    dataLines = [];
+    return event;
+  };
+
+  // Apply a single line of the stream to the current frame
+  const processLine = (line: string): SSEEvent | null => {
+    if (line === '') {
+      return dispatch();
+    }
+
+    // Lines starting with a colon are comments (often keep-alives)
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'data') {
+      dataLines.push(value);
+    } else if (field === 'event') {
+      eventName = value;
+    }
+
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        // Tolerate CRLF line endings
+        const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+
+        const event = processLine(line);
+        if (event) {
+          yield event;
+        }
+      }
+    }
+
+    // Servers may close the connection without a trailing blank line
+    buffer += decoder.decode();
+    if (buffer) {
+      processLine(buffer.replace(/\r$/, ''));
+    }
+
+    const event = dispatch();
+    if (event) {
+      yield event;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from '@jest/globals';
+import { completeStructured, extractJson, parseStructuredResponse } from './structured.js';
+import { CompletionOptions, CompletionResponse, ResponseFormat } from './provider.js';
+
+const format: ResponseFormat = {
+  schema: {
+    type: 'object',
+    properties: { answer: { type: 'integer' } },
+    required: ['answer'],
+    additionalProperties: false
+  },
+  maxRepairs: 1
+};
+
+function reply(text: string, stopReason = 'end_turn'): CompletionResponse {
+  return {
+    id: 'test',
+    model: 'test',
+    usage: { input_tokens: 1, output_tokens: 1 },
+    content: [{ type: 'text', text }],
+    stop_reason: stopReason
+  };
+}
+
+/**
+ * A send function that returns the given replies in turn and records the
+ * requests it was given
+ */
+function scripted(replies: string[]): { send: (options: CompletionOptions) => Promise<CompletionResponse>; requests: CompletionOptions[] } {
+  const requests: CompletionOptions[] = [];
+  return {
+    requests,
+    send: async (options): Promise<CompletionResponse> => {
+      requests.push(options);
+      return reply(replies[requests.length - 1]);
+    }
+  };
+}
+
+describe('extractJson', () => {
+  it('parses a bare JSON reply', () => {
+    expect(extractJson(' {"a": 1} ')).toEqual({ a: 1 });
+  });
+
+  it('parses a fenced block', () => {
+    expect(extractJson('Here you go:\n```json\n[1, 2]\n```\nDone.')).toEqual([1, 2]);
+  });
+
+  it('parses the outermost object in surrounding prose', () => {
+    expect(extractJson('Result: {"a": {"b": true}} as requested')).toEqual({ a: { b: true } });
+  });
+
+  it('returns undefined when nothing parses', () => {
+    expect(extractJson('no json here')).toBeUndefined();
+    expect(extractJson('{"a": ')).toBeUndefined();
+  });
+});
+
+describe('parseStructuredResponse', () => {
+  it('returns the value with its validation errors', () => {
+    expect(parseStructuredResponse('{"answer": 42}', format)).toEqual({ value: { answer: 42 }, errors: [] });
+    expect(parseStructuredResponse('{"answer": "42"}', format).errors).toEqual(['$.answer: expected integer, got string']);
+    expect(parseStructuredResponse('forty-two', format)).toEqual({ errors: ['The reply is not valid JSON'] });
+  });
+});
+
+describe('completeStructured', () => {
+  it('passes requests without a response format straight through', async () => {
+    const { send, requests } = scripted(['plain text']);
+    const response = await completeStructured({ messages: [{ role: 'user', content: 'hi' }] }, send);
+
+    expect(response.parsed).toBeUndefined();
+    expect(requests[0].system).toBeUndefined();
+  });
+
+  it('describes the schema in the system prompt and returns the parsed value', async () => {
+    const { send, requests } = scripted(['{"answer": 42}']);
+    const response = await completeStructured({
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'What is the answer?' }],
+      responseFormat: format
+    }, send);
+
+    expect(response.parsed).toEqual({ answer: 42 });
+    expect(requests[0].system).toMatch(/^Be brief\.\n\nReply with a single JSON value that matches this JSON Schema/);
+  });
+
+  it('shows the model its errors and accepts a repaired reply', async () => {
+    const { send, requests } = scripted(['{"answer": "42"}', '{"answer": 42}']);
+    const response = await completeStructured({
+      messages: [{ role: 'user', content: 'What is the answer?' }],
+      responseFormat: format
+    }, send);
+
+    expect(response.parsed).toEqual({ answer: 42 });
+    expect(requests).toHaveLength(2);
+    expect(requests[1].messages.slice(1)).toEqual([
+      { role: 'assistant', content: '{"answer": "42"}' },
+      { role: 'user', content: expect.stringContaining('- $.answer: expected integer, got string') }
+    ]);
+  });
+
+  it('gives up once the repairs run out', async () => {
+    const { send, requests } = scripted(['nope', 'still nope']);
+
+    await expect(completeStructured({
+      messages: [{ role: 'user', content: 'What is the answer?' }],
+      responseFormat: format
+    }, send)).rejects.toThrow('The model did not return valid structured output after 2 attempts');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('returns tool calls without validating them', async () => {
+    const send = async (): Promise<CompletionResponse> => reply('', 'tool_use');
+    const response = await completeStructured({
+      messages: [{ role: 'user', content: 'hi' }],
+      responseFormat: format
+    }, send);
+
+    expect(response.stop_reason).toBe('tool_use');
+    expect(response.parsed).toBeUndefined();
+  });
+});
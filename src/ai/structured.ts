@@ -0,0 +1,152 @@
+/**
+ * Structured Output
+ *
+ * Implements `responseFormat` for all providers. The schema is described
+ * in the system prompt (servers with a JSON mode also constrain generation
+ * natively), the reply is parsed and validated, and on failure the model is
+ * shown the validation errors and asked to try again.
+ */
+
+import { createUserError } from '../errors/formatter.js';
+import { ErrorCategory } from '../errors/types.js';
+import { logger } from '../utils/logger.js';
+import { validateJsonSchema } from '../utils/validation.js';
+import { CompletionOptions, CompletionResponse, ResponseFormat } from './provider.js';
+import { getTextContent } from './content.js';
+
+// Re-prompts allowed when the request doesn't set maxRepairs
+export const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Result of checking a reply against a schema
+ */
+export interface StructuredResult {
+  value?: unknown;
+  errors: string[];
+}
+
+/**
+ * Find the JSON value in a model reply
+ *
+ * Tries the whole reply, then a fenced code block, then the outermost
+ * object or array. Returns undefined when nothing parses.
+ */
+export function extractJson(text: string): unknown {
+  const candidates = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/i);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  for (const [open, close] of [['{', '}'], ['[', ']']]) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      candidates.push(text.slice(start, end + 1));
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a reply and validate it against the requested schema
+ */
+export function parseStructuredResponse(text: string, format: ResponseFormat): StructuredResult {
+  const value = extractJson(text);
+
+  if (value === undefined) {
+    return { errors: ['The reply is not valid JSON'] };
+  }
+
+  return { value, errors: validateJsonSchema(value, format.schema) };
+}
+
+/**
+ * Build the system prompt section describing the expected reply
+ */
+export function buildSchemaInstruction(format: ResponseFormat): string {
+  return `Reply with a single JSON value that matches this JSON Schema, and nothing else:
+
+${JSON.stringify(format.schema, null, 2)}`;
+}
+
+/**
+ * Convert a response format to the OpenAI `response_format` field, which
+ * LM Studio and most OpenAI-compatible servers implement
+ */
+export function toChatResponseFormat(format: ResponseFormat): Record<string, any> {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: format.name || 'response',
+      strict: true,
+      schema: format.schema
+    }
+  };
+}
+
+/**
+ * Complete a request that asks for structured output
+ *
+ * Requests without `responseFormat` are passed straight to `send`. Replies
+ * that call tools are returned as they are, since they carry no answer to
+ * validate yet. Throws an `AI_SERVICE` error once the repairs run out.
+ */
+export async function completeStructured(
+  options: CompletionOptions,
+  send: (options: CompletionOptions) => Promise<CompletionResponse>
+): Promise<CompletionResponse> {
+  const format = options.responseFormat;
+  if (!format) {
+    return send(options);
+  }
+
+  const maxRepairs = Math.max(0, format.maxRepairs ?? DEFAULT_MAX_REPAIRS);
+  const instruction = buildSchemaInstruction(format);
+  const system = options.system ? `${options.system}\n\n${instruction}` : instruction;
+  let messages = options.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await send({ ...options, system, messages });
+
+    if (response.stop_reason === 'tool_use') {
+      return response;
+    }
+
+    const text = getTextContent(response.content);
+    const { value, errors } = parseStructuredResponse(text, format);
+
+    if (errors.length === 0) {
+      return { ...response, parsed: value };
+    }
+
+    if (attempt >= maxRepairs) {
+      throw createUserError(`The model did not return valid structured output after ${attempt + 1} attempts`, {
+        category: ErrorCategory.AI_SERVICE,
+        resolution: 'Try a more capable model, simplify the schema, or allow more repairs with maxRepairs.',
+        details: { errors, response: text }
+      });
+    }
+
+    logger.debug(`Structured output failed validation (attempt ${attempt + 1}), asking for a repair`, { errors });
+
+    messages = [
+      ...messages,
+      { role: 'assistant', content: text },
+      {
+        role: 'user',
+        content: `Your reply did not match the required JSON Schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON.`
+      }
+    ];
+  }
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from '@jest/globals';
+import { CompletionOptions, CompletionResponse, ContentBlock, Message, ToolDefinition } from './provider.js';
+import {
+  ToolCallAccumulator,
+  ToolCallingSupport,
+  fromChatToolCalls,
+  parsePromptToolCalls,
+  toChatMessages,
+  toChatToolChoice,
+  toChatTools
+} from './tools.js';
+
+const tools: ToolDefinition[] = [
+  {
+    name: 'read_file',
+    description: 'Read a file',
+    input_schema: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] }
+  },
+  {
+    name: 'list_files',
+    description: 'List files',
+    input_schema: { type: 'object', properties: {} }
+  }
+];
+
+/**
+ * Drop the generated IDs so blocks can be compared
+ */
+function withoutIds(blocks: ContentBlock[]): unknown[] {
+  return blocks.map(block => block.type === 'tool_use' ? { ...block, id: undefined } : block);
+}
+
+describe('parsePromptToolCalls', () => {
+  it('turns a tool_call fence into a tool use, keeping the text around it', () => {
+    const text = 'Let me look.\n```tool_call\n{"name": "read_file", "arguments": {"path": "src/cli.ts"}}\n```\nDone.';
+
+    expect(withoutIds(parsePromptToolCalls(text, tools))).toEqual([
+      { type: 'text', text: 'Let me look.' },
+      { type: 'tool_use', id: undefined, name: 'read_file', input: { path: 'src/cli.ts' } },
+      { type: 'text', text: 'Done.' }
+    ]);
+  });
+
+  it('accepts json fences and several calls', () => {
+    const text = [
+      '```json',
+      '{"name": "list_files", "arguments": {}}',
+      '```',
+      '```tool_call',
+      '{"name": "read_file", "arguments": {"path": "a.ts"}}',
+      '```'
+    ].join('\n');
+
+    const blocks = parsePromptToolCalls(text, tools);
+
+    expect(withoutIds(blocks)).toEqual([
+      { type: 'tool_use', id: undefined, name: 'list_files', input: {} },
+      { type: 'tool_use', id: undefined, name: 'read_file', input: { path: 'a.ts' } }
+    ]);
+    expect(new Set(blocks.map(block => (block as { id: string }).id)).size).toBe(2);
+  });
+
+  it('leaves malformed JSON, unknown tools and other fences as text', () => {
+    const text = [
+      '```tool_call',
+      '{"name": "read_file", "arguments": {"path": ',
+      '```',
+      '```json',
+      '{"name": "delete_everything", "arguments": {}}',
+      '```',
+      '```ts',
+      'const a = 1;',
+      '```'
+    ].join('\n');
+
+    expect(parsePromptToolCalls(text, tools)).toEqual([{ type: 'text', text }]);
+  });
+
+  it('uses empty input when the arguments are not an object', () => {
+    const [block] = parsePromptToolCalls('```tool_call\n{"name": "list_files", "arguments": "none"}\n```', tools);
+    expect(block).toMatchObject({ type: 'tool_use', name: 'list_files', input: {} });
+  });
+
+  it('returns no blocks for empty text', () => {
+    expect(parsePromptToolCalls('', tools)).toEqual([]);
+  });
+});
+
+describe('fromChatToolCalls', () => {
+  it('maps tool calls with string or object arguments', () => {
+    expect(fromChatToolCalls([
+      { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+      { type: 'function', function: { name: 'list_files', arguments: { dir: 'src' } } }
+    ])).toEqual([
+      { type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'a.ts' } },
+      { type: 'tool_use', id: expect.stringMatching(/^call_[0-9a-f]{24}$/), name: 'list_files', input: { dir: 'src' } }
+    ]);
+  });
+
+  it('ignores calls without a name and malformed arguments', () => {
+    expect(fromChatToolCalls([
+      { type: 'function', function: { name: '', arguments: '{}' } },
+      { id: 'call_2', type: 'function', function: { name: 'read_file', arguments: '{"path":' } }
+    ])).toEqual([{ type: 'tool_use', id: 'call_2', name: 'read_file', input: {} }]);
+    expect(fromChatToolCalls(undefined)).toEqual([]);
+  });
+});
+
+describe('ToolCallAccumulator', () => {
+  it('joins streamed fragments of each call by index', () => {
+    const accumulator = new ToolCallAccumulator();
+    accumulator.add([{ index: 0, id: 'call_a', function: { name: 'read_file', arguments: '{"pa' } }]);
+    accumulator.add([{ index: 1, id: 'call_b', function: { name: 'list_files', arguments: '' } }]);
+    accumulator.add([{ index: 0, function: { arguments: 'th":"a.ts"}' } }]);
+    accumulator.add(undefined);
+
+    expect(accumulator.getToolUses()).toEqual([
+      { type: 'tool_use', id: 'call_a', name: 'read_file', input: { path: 'a.ts' } },
+      { type: 'tool_use', id: 'call_b', name: 'list_files', input: {} }
+    ]);
+  });
+});
+
+describe('toChatTools and toChatToolChoice', () => {
+  it('wraps definitions as functions', () => {
+    expect(toChatTools([tools[0]])).toEqual([{
+      type: 'function',
+      function: { name: 'read_file', description: 'Read a file', parameters: tools[0].input_schema }
+    }]);
+  });
+
+  it('names a forced tool as a function', () => {
+    expect(toChatToolChoice('auto')).toBe('auto');
+    expect(toChatToolChoice({ name: 'read_file' })).toEqual({ type: 'function', function: { name: 'read_file' } });
+  });
+});
+
+describe('toChatMessages', () => {
+  const messages: Message[] = [
+    { role: 'user', content: 'Read a.ts' },
+    { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'a.ts' } }] },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'no such file', is_error: true }] }
+  ];
+
+  it('sends tool calls with JSON arguments and results by call ID to OpenAI-style servers', () => {
+    expect(toChatMessages(messages, 'openai')).toEqual([
+      { role: 'user', content: 'Read a.ts' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }]
+      },
+      { role: 'tool', content: 'Error: no such file', tool_call_id: 'call_1' }
+    ]);
+  });
+
+  it('sends object arguments and results by tool name to Ollama', () => {
+    expect(toChatMessages(messages, 'ollama').slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ type: 'function', function: { name: 'read_file', arguments: { path: 'a.ts' } } }]
+      },
+      { role: 'tool', content: 'Error: no such file', tool_name: 'read_file' }
+    ]);
+  });
+});
+
+describe('ToolCallingSupport', () => {
+  const options: CompletionOptions = { messages: [{ role: 'user', content: 'List the files' }], tools };
+  const reply = '```tool_call\n{"name": "list_files", "arguments": {}}\n```';
+
+  it('retries with the prompt protocol when the server rejects tools', async () => {
+    const support = new ToolCallingSupport('Test', () => 'auto');
+    const sent: boolean[] = [];
+    const send = async (request: CompletionOptions): Promise<CompletionResponse> => {
+      sent.push(Boolean(request.tools));
+      if (request.tools) {
+        throw new Error('registry.ollama.ai/library/x does not support tools');
+      }
+      return { id: '1', model: 'x', content: [{ type: 'text', text: reply }], stop_reason: 'stop', usage: { input_tokens: 1, output_tokens: 1 } };
+    };
+
+    const response = await support.complete(options, 'x', send);
+    await support.complete(options, 'x', send);
+
+    expect(sent).toEqual([true, false, false]);
+    expect(response.stop_reason).toBe('tool_use');
+    expect(response.content).toEqual([expect.objectContaining({ type: 'tool_use', name: 'list_files' })]);
+  });
+});
@@ -0,0 +1,607 @@
+/**
+ * Tool Calling
+ *
+ * Maps tool definitions and tool content blocks onto the OpenAI-style chat
+ * format used by Ollama, LM Studio and OpenAI-compatible servers, and
+ * implements a prompt-based JSON protocol for models without native tool
+ * support.
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import {
+  CompletionOptions,
+  CompletionResponse,
+  ContentBlock,
+  Message,
+  StreamEvent,
+  ToolChoice,
+  ToolDefinition,
+  ToolMode,
+  ToolResultContent,
+  ToolUseContent
+} from './provider.js';
+import { getImages, getTextContent, getToolUses, toDataUri } from './content.js';
+
+/**
+ * Chat message in the OpenAI format, which Ollama's chat API also accepts
+ *
+ * Images go in `content` parts for OpenAI-style servers and in `images`
+ * for Ollama.
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ChatContentPart[];
+  images?: string[];
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+  tool_name?: string;
+}
+
+/**
+ * Part of a multimodal message in the OpenAI format
+ */
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * Tool call in a chat message
+ *
+ * OpenAI-style servers send arguments as a JSON string; Ollama sends an object.
+ */
+export interface ChatToolCall {
+  id?: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string | Record<string, any>;
+  };
+}
+
+/**
+ * A fragment of a tool call in an OpenAI-style stream delta
+ */
+export interface ChatToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: {
+    name?: string;
+    arguments?: string | Record<string, unknown>;
+  };
+}
+
+/**
+ * Tool definition in the chat format
+ */
+export interface ChatTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * Chat API flavour: `openai` links tool results by call ID and encodes
+ * arguments as strings, `ollama` links them by tool name and uses objects
+ */
+export type ChatDialect = 'openai' | 'ollama';
+
+// Fenced block language used by the prompt-based protocol
+const TOOL_CALL_FENCE = 'tool_call';
+
+// Errors servers return when a model or build can't take the tools field
+const TOOLS_UNSUPPORTED_PATTERN = /does not support tools|tools? (?:param(?:eter)?s? )?(?:is |are )?(?:not supported|unsupported)|requires --jinja/i;
+
+/**
+ * Create an ID for a tool call that arrived without one
+ */
+export function createToolUseId(): string {
+  return `call_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+/**
+ * Convert tool definitions to the chat `tools` field
+ */
+export function toChatTools(tools: ToolDefinition[]): ChatTool[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema
+    }
+  }));
+}
+
+/**
+ * Convert a tool choice to the OpenAI `tool_choice` field
+ */
+export function toChatToolChoice(choice: ToolChoice | undefined): string | Record<string, any> | undefined {
+  if (!choice || typeof choice === 'string') {
+    return choice;
+  }
+
+  return { type: 'function', function: { name: choice.name } };
+}
+
+/**
+ * Convert messages to the chat format
+ *
+ * Tool results become `tool` role messages and tool calls become the
+ * assistant message's `tool_calls`. Images are base64 strings in `images`
+ * for Ollama and `image_url` data URIs for OpenAI-style servers.
+ */
+export function toChatMessages(messages: Message[], dialect: ChatDialect = 'openai'): ChatMessage[] {
+  const toolNames = new Map<string, string>();
+  const result: ChatMessage[] = [];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const toolResults = message.content.filter((block): block is ToolResultContent => block.type === 'tool_result');
+    const toolUses = message.content.filter((block): block is ToolUseContent => block.type === 'tool_use');
+    const images = getImages(message.content);
+    const text = getTextContent(message.content);
+
+    for (const toolResult of toolResults) {
+      const content = toolResult.is_error ? `Error: ${toolResult.content}` : toolResult.content;
+
+      result.push(dialect === 'ollama'
+        ? { role: 'tool', content, tool_name: toolNames.get(toolResult.tool_use_id) }
+        : { role: 'tool', content, tool_call_id: toolResult.tool_use_id });
+    }
+
+    if (text || toolUses.length > 0 || images.length > 0) {
+      const chatMessage: ChatMessage = { role: message.role, content: text };
+
+      if (images.length > 0 && dialect === 'ollama') {
+        chatMessage.images = images.map(image => image.source.data);
+      } else if (images.length > 0) {
+        chatMessage.content = [
+          ...(text ? [{ type: 'text' as const, text }] : []),
+          ...images.map(image => ({ type: 'image_url' as const, image_url: { url: toDataUri(image) } }))
+        ];
+      }
+
+      if (toolUses.length > 0) {
+        chatMessage.tool_calls = toolUses.map(toolUse => {
+          toolNames.set(toolUse.id, toolUse.name);
+
+          return dialect === 'ollama'
+            ? { type: 'function', function: { name: toolUse.name, arguments: toolUse.input } }
+            : { id: toolUse.id, type: 'function', function: { name: toolUse.name, arguments: JSON.stringify(toolUse.input) } };
+        });
+      }
+
+      result.push(chatMessage);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert chat tool calls from a response to tool use blocks
+ */
+export function fromChatToolCalls(toolCalls: ChatToolCall[] | undefined): ToolUseContent[] {
+  return (toolCalls || [])
+    .filter(toolCall => toolCall.function?.name)
+    .map(toolCall => ({
+      type: 'tool_use',
+      id: toolCall.id || createToolUseId(),
+      name: toolCall.function.name,
+      input: parseToolArguments(toolCall.function.name, toolCall.function.arguments)
+    }));
+}
+
+/**
+ * Parse tool call arguments, which may be a JSON string or an object
+ */
+function parseToolArguments(name: string, args: string | Record<string, any> | undefined): Record<string, any> {
+  if (!args) {
+    return {};
+  }
+
+  if (typeof args !== 'string') {
+    return args;
+  }
+
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    logger.warn(`Ignoring malformed arguments for tool call ${name}`, { arguments: args, error });
+    return {};
+  }
+}
+
+/**
+ * Collects OpenAI-style tool call fragments from a stream
+ *
+ * Each delta carries an index and a piece of the call; the ID and name
+ * arrive first and the JSON arguments follow in chunks.
+ */
+export class ToolCallAccumulator {
+  private calls: Array<{ id?: string; name: string; arguments: string }> = [];
+
+  /**
+   * Add the `tool_calls` of a stream delta
+   */
+  add(deltas: ChatToolCallDelta[] | undefined): void {
+    for (const delta of deltas || []) {
+      const index = delta.index ?? this.calls.length;
+      const call = this.calls[index] || (this.calls[index] = { name: '', arguments: '' });
+
+      if (delta.id) call.id = delta.id;
+      if (delta.function?.name) call.name = delta.function.name;
+
+      const args = delta.function?.arguments;
+      if (args) {
+        call.arguments += typeof args === 'string' ? args : JSON.stringify(args);
+      }
+    }
+  }
+
+  /**
+   * Get the completed tool calls
+   */
+  getToolUses(): ToolUseContent[] {
+    return fromChatToolCalls(this.calls.filter(Boolean).map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: call.arguments }
+    })));
+  }
+}
+
+/**
+ * Build the events that report completed tool calls in a stream
+ */
+export function toolUseEvents(toolUses: ToolUseContent[], firstIndex: number): StreamEvent[] {
+  return toolUses.flatMap((toolUse, i): StreamEvent[] => [
+    { type: 'content_block_start', index: firstIndex + i, content_block: toolUse },
+    { type: 'content_block_stop', index: firstIndex + i }
+  ]);
+}
+
+/**
+ * Build the events a live stream would produce for a finished response
+ *
+ * Used to replay cached responses and to stream requests that have to be
+ * completed in full first.
+ */
+export function responseEvents(response: CompletionResponse): StreamEvent[] {
+  const text = getTextContent(response.content);
+  const message = { id: response.id, model: response.model };
+
+  return [
+    { type: 'message_start', message: { ...message, content: [] } },
+    { type: 'content_block_start', index: 0 },
+    ...(text ? [{ type: 'content_block_delta', index: 0, delta: { type: 'text', text } } as StreamEvent] : []),
+    { type: 'content_block_stop', index: 0 },
+    ...toolUseEvents(getToolUses(response.content), 1),
+    { type: 'message_delta', usage_metadata: response.usage },
+    {
+      type: 'message_stop',
+      message: {
+        ...message,
+        content: response.content,
+        stop_reason: response.stop_reason,
+        stop_sequence: response.stop_sequence
+      },
+      usage_metadata: response.usage
+    }
+  ];
+}
+
+/**
+ * Build the system prompt section describing tools for the prompt protocol
+ */
+export function buildToolPrompt(tools: ToolDefinition[], choice: ToolChoice = 'auto'): string {
+  const toolList = tools
+    .map(tool => `- ${tool.name}: ${tool.description}\n  Input schema: ${JSON.stringify(tool.input_schema)}`)
+    .join('\n');
+
+  let requirement = 'If no tool is needed, answer normally without a tool_call block.';
+  if (choice === 'required') {
+    requirement = 'You must call at least one tool.';
+  } else if (typeof choice === 'object') {
+    requirement = `You must call the ${choice.name} tool.`;
+  }
+
+  return `You can call the following tools:
+
+${toolList}
+
+To call a tool, reply with a fenced block like this, one block per call, and stop after the last block:
+
+\`\`\`${TOOL_CALL_FENCE}
+{"name": "<tool name>", "arguments": { ... }}
+\`\`\`
+
+The results will be sent back to you in the next message. ${requirement}`;
+}
+
+/**
+ * Format a tool call the way the prompt protocol asks the model to
+ */
+function formatToolCallBlock(toolUse: ToolUseContent): string {
+  return `\`\`\`${TOOL_CALL_FENCE}\n${JSON.stringify({ name: toolUse.name, arguments: toolUse.input })}\n\`\`\``;
+}
+
+/**
+ * Flatten tool content blocks into plain text messages
+ *
+ * Earlier tool calls are rendered in the same fenced format the model is
+ * asked to produce, and their results as text in the user's turn.
+ */
+export function flattenToolMessages(messages: Message[]): Message[] {
+  const toolNames = new Map<string, string>();
+
+  return messages.map(message => {
+    if (typeof message.content === 'string') {
+      return message;
+    }
+
+    const parts = message.content.map(block => {
+      switch (block.type) {
+        case 'tool_use':
+          toolNames.set(block.id, block.name);
+          return formatToolCallBlock(block);
+
+        case 'tool_result': {
+          const name = toolNames.get(block.tool_use_id) || block.tool_use_id;
+          const label = block.is_error ? `Tool ${name} failed` : `Result of tool ${name}`;
+          return `${label}:\n${block.content}`;
+        }
+
+        case 'image':
+          return '';
+
+        default:
+          return block.text;
+      }
+    });
+
+    const text = parts.filter(Boolean).join('\n\n');
+    const images = getImages(message.content);
+
+    // Images stay as blocks; only the tool content needs flattening
+    return {
+      role: message.role,
+      content: images.length > 0 ? [{ type: 'text', text }, ...images] : text
+    };
+  });
+}
+
+/**
+ * Rewrite completion options to use the prompt protocol instead of native tools
+ */
+export function applyPromptToolProtocol(options: CompletionOptions): CompletionOptions {
+  const { tools, toolChoice, ...rest } = options;
+  const messages = flattenToolMessages(options.messages);
+
+  if (!tools?.length || toolChoice === 'none') {
+    return { ...rest, messages };
+  }
+
+  const prompt = buildToolPrompt(tools, toolChoice);
+  return { ...rest, messages, system: rest.system ? `${rest.system}\n\n${prompt}` : prompt };
+}
+
+/**
+ * Extract tool calls written with the prompt protocol from model output
+ *
+ * Fenced `tool_call` (or `json`) blocks naming one of the tools become tool
+ * use blocks; everything else stays text.
+ */
+export function parsePromptToolCalls(text: string, tools: ToolDefinition[]): ContentBlock[] {
+  const toolNames = new Set(tools.map(tool => tool.name));
+  const fencePattern = new RegExp(`\`\`\`(?:${TOOL_CALL_FENCE}|json)[ \\t]*\\n([\\s\\S]*?)\`\`\``, 'g');
+  const blocks: ContentBlock[] = [];
+  let textStart = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = fencePattern.exec(text)) !== null) {
+    let call: any;
+    try {
+      call = JSON.parse(match[1]);
+    } catch {
+      continue;
+    }
+
+    if (!call || typeof call.name !== 'string' || !toolNames.has(call.name)) {
+      continue;
+    }
+
+    const before = text.slice(textStart, match.index).trim();
+    if (before) {
+      blocks.push({ type: 'text', text: before });
+    }
+
+    blocks.push({
+      type: 'tool_use',
+      id: createToolUseId(),
+      name: call.name,
+      input: call.arguments && typeof call.arguments === 'object' ? call.arguments : {}
+    });
+    textStart = match.index + match[0].length;
+  }
+
+  const rest = text.slice(textStart);
+  if (textStart === 0) {
+    return text ? [{ type: 'text', text }] : [];
+  }
+  if (rest.trim()) {
+    blocks.push({ type: 'text', text: rest.trim() });
+  }
+
+  return blocks;
+}
+
+/**
+ * Apply the prompt protocol to a completed response
+ */
+function parsePromptToolResponse(response: CompletionResponse, tools: ToolDefinition[]): CompletionResponse {
+  const content = parsePromptToolCalls(getTextContent(response.content), tools);
+  const hasToolUse = content.some(block => block.type === 'tool_use');
+
+  return {
+    ...response,
+    content,
+    stop_reason: hasToolUse ? 'tool_use' : response.stop_reason
+  };
+}
+
+/**
+ * Apply the prompt protocol to a stream
+ *
+ * Text is passed through as it arrives; once the message is complete the
+ * tool calls found in it are emitted and the final content rewritten.
+ */
+async function* parsePromptToolStream(
+  events: AsyncGenerator<StreamEvent>,
+  tools: ToolDefinition[]
+): AsyncGenerator<StreamEvent> {
+  for await (const event of events) {
+    if (event.type !== 'message_stop' || !event.message) {
+      yield event;
+      continue;
+    }
+
+    const content = parsePromptToolCalls(getTextContent(event.message.content), tools);
+    const toolUses = content.filter((block): block is ToolUseContent => block.type === 'tool_use');
+
+    yield* toolUseEvents(toolUses, 1);
+
+    yield {
+      ...event,
+      message: {
+        ...event.message,
+        content,
+        stop_reason: toolUses.length > 0 ? 'tool_use' : event.message.stop_reason
+      }
+    };
+  }
+}
+
+/**
+ * Check whether an error means the server can't take the tools field
+ */
+export function isToolsUnsupportedError(error: unknown): boolean {
+  let current: any = error;
+
+  // Clients often wrap the server's message, so walk the cause chain
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (TOOLS_UNSUPPORTED_PATTERN.test(String(current.message || ''))) {
+      return true;
+    }
+    if (current.details && TOOLS_UNSUPPORTED_PATTERN.test(JSON.stringify(current.details))) {
+      return true;
+    }
+    current = current.cause;
+  }
+
+  return false;
+}
+
+/**
+ * Chooses between native and prompt-based tool calling for a client
+ *
+ * In `auto` mode tools are sent natively until the server rejects them for
+ * a model; from then on that model uses the prompt protocol.
+ */
+export class ToolCallingSupport {
+  private promptModels = new Set<string>();
+
+  /**
+   * @param getMode Returns the client's current tool mode
+   */
+  constructor(private providerName: string, private getMode: () => ToolMode) {}
+
+  /**
+   * Complete with tools, falling back to the prompt protocol if needed
+   */
+  async complete(
+    options: CompletionOptions,
+    model: string,
+    send: (options: CompletionOptions) => Promise<CompletionResponse>
+  ): Promise<CompletionResponse> {
+    if (!options.tools?.length) {
+      return send(options);
+    }
+
+    if (this.usePrompt(model)) {
+      return parsePromptToolResponse(await send(applyPromptToolProtocol(options)), options.tools);
+    }
+
+    try {
+      return await send(options);
+    } catch (error) {
+      if (!this.fallBack(model, error)) {
+        throw error;
+      }
+      return parsePromptToolResponse(await send(applyPromptToolProtocol(options)), options.tools);
+    }
+  }
+
+  /**
+   * Stream with tools, falling back to the prompt protocol if needed
+   */
+  async *stream(
+    options: CompletionOptions,
+    model: string,
+    send: (options: CompletionOptions) => AsyncGenerator<StreamEvent>
+  ): AsyncGenerator<StreamEvent> {
+    if (!options.tools?.length) {
+      yield* send(options);
+      return;
+    }
+
+    if (this.usePrompt(model)) {
+      yield* parsePromptToolStream(send(applyPromptToolProtocol(options)), options.tools);
+      return;
+    }
+
+    let started = false;
+    try {
+      for await (const event of send(options)) {
+        started = true;
+        yield event;
+      }
+    } catch (error) {
+      // Once output has been shown a retry would repeat it
+      if (started || !this.fallBack(model, error)) {
+        throw error;
+      }
+      yield* parsePromptToolStream(send(applyPromptToolProtocol(options)), options.tools);
+    }
+  }
+
+  /**
+   * Whether requests for a model should use the prompt protocol
+   */
+  private usePrompt(model: string): boolean {
+    const mode = this.getMode();
+    return mode === 'prompt' || (mode === 'auto' && this.promptModels.has(model));
+  }
+
+  /**
+   * Decide whether to retry with the prompt protocol after an error
+   */
+  private fallBack(model: string, error: unknown): boolean {
+    if (this.getMode() !== 'auto' || !isToolsUnsupportedError(error)) {
+      return false;
+    }
+
+    logger.info(`${this.providerName} model ${model} does not support native tools, using prompt-based tool calls`);
+    this.promptModels.add(model);
+    return true;
+  }
+}
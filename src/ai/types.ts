@@ -4,6 +4,8 @@
  * Type definitions for AI services and functionality.
  */
 
+import type { ContentBlock } from './provider.js';
+
 /**
  * Role for a message in a conversation
  */
@@ -19,9 +21,9 @@ export interface Message {
   role: MessageRole;
   
   /**
-   * Content of the message
+   * Content of the message: plain text, or text and image parts
    */
-  content: string;
+  content: string | ContentBlock[];
 }
 
 /**
@@ -57,6 +59,46 @@ export interface AIModel {
    * Default parameters for the model
    */
   defaultParams?: Record<string, any>;
+  
+  /**
+   * Provider serving the model
+   */
+  provider?: string;
+  
+  /**
+   * Parameter count as reported by the provider (e.g. "7.2B")
+   */
+  parameterSize?: string;
+  
+  /**
+   * Quantization level (e.g. "Q4_K_M")
+   */
+  quantization?: string;
+  
+  /**
+   * Model family (e.g. "llama")
+   */
+  family?: string;
+  
+  /**
+   * Prompt template the server applies to chat messages
+   */
+  template?: string;
+  
+  /**
+   * Capabilities reported by the provider (e.g. "tools", "vision")
+   */
+  capabilities?: string[];
+  
+  /**
+   * Size of the model files on disk, in bytes
+   */
+  size?: number;
+  
+  /**
+   * When the model was last downloaded or changed
+   */
+  modifiedAt?: Date;
 }
 
 /**
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { UsageRecord, summarizeUsage } from './usage.js';
+
+/**
+ * Build a record; `day` and `hour` are in local time, as the summary groups by
+ */
+function record(day: number, hour: number, overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    timestamp: new Date(2024, 4, day, hour, 30).toISOString(),
+    command: 'ask',
+    provider: 'ollama',
+    model: 'qwen2.5-coder:7b',
+    inputTokens: 100,
+    outputTokens: 50,
+    durationMs: 1000,
+    tokensPerSecond: 50,
+    success: true,
+    stream: true,
+    ...overrides
+  };
+}
+
+const records: UsageRecord[] = [
+  record(2, 23, { command: 'explain', outputTokens: 200, durationMs: 4000 }),
+  record(1, 9, {}),
+  record(1, 0, { model: 'devstral:24b', outputTokens: 30, durationMs: 3000 }),
+  record(2, 8, { success: false, outputTokens: 0, durationMs: 60000, error: 'timed out' })
+];
+
+describe('summarizeUsage', () => {
+  it('groups by local day, in order', () => {
+    expect(summarizeUsage(records, ['day']).map(({ group, requests, failed }) => ({ group, requests, failed }))).toEqual([
+      { group: { day: '2024-05-01' }, requests: 2, failed: 0 },
+      { group: { day: '2024-05-02' }, requests: 2, failed: 1 }
+    ]);
+  });
+
+  it('groups by command and model together', () => {
+    expect(summarizeUsage(records, ['command', 'model']).map(summary => summary.group)).toEqual([
+      { command: 'ask', model: 'devstral:24b' },
+      { command: 'ask', model: 'qwen2.5-coder:7b' },
+      { command: 'explain', model: 'qwen2.5-coder:7b' }
+    ]);
+  });
+
+  it('adds up tokens, including those of failed requests', () => {
+    const [ask, explain] = summarizeUsage(records, ['command']);
+
+    expect(ask).toMatchObject({ requests: 3, failed: 1, inputTokens: 300, outputTokens: 80 });
+    expect(explain).toMatchObject({ requests: 1, failed: 0, inputTokens: 100, outputTokens: 200 });
+  });
+
+  it('measures latency and tokens/s over successful requests only', () => {
+    const [ask] = summarizeUsage(records, ['command']);
+
+    // 80 tokens in 4 seconds; the failed minute-long request is left out
+    expect(ask.averageDurationMs).toBe(2000);
+    expect(ask.tokensPerSecond).toBe(20);
+  });
+
+  it('rounds tokens/s to one decimal and reports 0 without successes', () => {
+    const [summary] = summarizeUsage([record(1, 9, { outputTokens: 100, durationMs: 3000 })], []);
+    expect(summary.tokensPerSecond).toBe(33.3);
+
+    const [failed] = summarizeUsage([record(1, 9, { success: false })], ['model']);
+    expect(failed).toMatchObject({ averageDurationMs: 0, tokensPerSecond: 0 });
+  });
+
+  it('returns a single group without fields and nothing without records', () => {
+    expect(summarizeUsage(records, [])).toHaveLength(1);
+    expect(summarizeUsage([], ['day'])).toEqual([]);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Usage Ledger
+ *
+ * Records every completion request, with its token counts, wall time and
+ * outcome, in an append-only JSONL file, and aggregates the records for the
+ * `usage` command. Only requests that reach the provider are recorded;
+ * answers from the response cache are not.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { logger } from '../utils/logger.js';
+import { isAbortError } from '../utils/async.js';
+import { AIProvider, CompletionOptions, CompletionResponse, StreamEvent } from './provider.js';
+import { ProviderWrapper } from './wrapper.js';
+
+/**
+ * One completion request in the ledger
+ */
+export interface UsageRecord {
+  /**
+   * When the request started, as an ISO timestamp
+   */
+  timestamp: string;
+  command: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /**
+   * Wall time from sending the request to the last token, in milliseconds
+   */
+  durationMs: number;
+  /**
+   * Output tokens per second of wall time
+   */
+  tokensPerSecond: number;
+  success: boolean;
+  stream: boolean;
+  /**
+   * Error message of a failed request
+   */
+  error?: string;
+}
+
+/**
+ * Fields usage can be grouped by
+ */
+export type UsageGroupKey = 'day' | 'command' | 'provider' | 'model';
+
+export const USAGE_GROUP_KEYS: UsageGroupKey[] = ['day', 'command', 'provider', 'model'];
+
+/**
+ * Aggregated usage of one group
+ */
+export interface UsageSummary {
+  /**
+   * Values of the fields the records were grouped by
+   */
+  group: Partial<Record<UsageGroupKey, string>>;
+  requests: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  /**
+   * Mean wall time of successful requests, in milliseconds
+   */
+  averageDurationMs: number;
+  /**
+   * Output tokens per second across successful requests
+   */
+  tokensPerSecond: number;
+}
+
+// Command the current requests are made for
+let activeCommand = 'unknown';
+
+/**
+ * Set the command that subsequent requests are recorded under
+ */
+export function setUsageCommand(command: string): void {
+  activeCommand = command;
+}
+
+/**
+ * Append-only JSONL file of usage records
+ */
+export class UsageLedger {
+  constructor(private filePath: string) {}
+
+  /**
+   * Get the path of the ledger file
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Add a record to the ledger
+   */
+  async append(record: UsageRecord): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+  }
+
+  /**
+   * Read the records, optionally only those made since a given time
+   *
+   * Lines that don't parse, such as one cut short by a crash, are skipped.
+   */
+  async read(since?: Date): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        const record: UsageRecord = JSON.parse(line);
+        if (!since || new Date(record.timestamp) >= since) {
+          records.push(record);
+        }
+      } catch {
+        logger.debug('Skipping malformed usage record', { line });
+      }
+    }
+
+    return records;
+  }
+}
+
+/**
+ * Create the usage ledger described by the application config
+ */
+export function createUsageLedger(config: any): UsageLedger {
+  const appDir = config.paths?.app || path.join(os.homedir(), '.knightcode');
+  return new UsageLedger(path.join(appDir, 'usage.jsonl'));
+}
+
+/**
+ * Get the local calendar day of a timestamp, as YYYY-MM-DD
+ */
+function getDay(timestamp: string): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Aggregate records by the given fields
+ *
+ * Groups are sorted by their field values in order. Latency and
+ * throughput only count successful requests, since failures end early.
+ */
+export function summarizeUsage(records: UsageRecord[], groupBy: UsageGroupKey[]): UsageSummary[] {
+  const groups = new Map<string, { group: UsageSummary['group']; records: UsageRecord[] }>();
+
+  for (const record of records) {
+    const group: UsageSummary['group'] = {};
+    for (const key of groupBy) {
+      group[key] = key === 'day' ? getDay(record.timestamp) : record[key];
+    }
+
+    const id = JSON.stringify(groupBy.map(key => group[key]));
+    if (!groups.has(id)) {
+      groups.set(id, { group, records: [] });
+    }
+    groups.get(id)!.records.push(record);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, { group, records: members }]) => {
+      const succeeded = members.filter(record => record.success);
+      const duration = succeeded.reduce((total, record) => total + record.durationMs, 0);
+      const output = succeeded.reduce((total, record) => total + record.outputTokens, 0);
+
+      return {
+        group,
+        requests: members.length,
+        failed: members.length - succeeded.length,
+        inputTokens: members.reduce((total, record) => total + record.inputTokens, 0),
+        outputTokens: members.reduce((total, record) => total + record.outputTokens, 0),
+        averageDurationMs: succeeded.length > 0 ? Math.round(duration / succeeded.length) : 0,
+        tokensPerSecond: duration > 0 ? Math.round(output / (duration / 1000) * 10) / 10 : 0
+      };
+    });
+}
+
+/**
+ * Provider wrapper that records each completion in the usage ledger
+ *
+ * Recording failures are logged and never fail the request.
+ */
+export class UsageTrackingProvider extends ProviderWrapper {
+  /**
+   * Wrap a provider, registered under `name`, with a ledger
+   */
+  constructor(
+    provider: AIProvider,
+    private name: string,
+    private ledger: UsageLedger
+  ) {
+    super(provider);
+  }
+
+  /**
+   * Complete text and record the request
+   */
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const started = Date.now();
+
+    try {
+      const response = await this.provider.complete(options);
+      await this.record(options, started, { model: response.model, usage: response.usage, stream: false });
+      return response;
+    } catch (error) {
+      await this.record(options, started, { stream: false, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a completion and record it once the stream ends
+   *
+   * A stream that ends without `message_stop`, for example because it was
+   * cancelled, is recorded as failed.
+   */
+  async *completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    const started = Date.now();
+    let model: string | undefined;
+    let usage: CompletionResponse['usage'] | undefined;
+    let completed = false;
+    let failure: unknown;
+
+    try {
+      for await (const event of this.provider.completeStream(options)) {
+        if (event.type === 'message_stop') {
+          model = event.message?.model;
+          usage = event.usage_metadata;
+          completed = true;
+        }
+        yield event;
+      }
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      await this.record(options, started, {
+        model,
+        usage,
+        stream: true,
+        error: completed ? undefined : failure ?? new Error('Stream ended early')
+      });
+    }
+  }
+
+  /**
+   * Append a record for a finished request
+   */
+  private async record(
+    options: CompletionOptions,
+    started: number,
+    result: { model?: string; usage?: CompletionResponse['usage']; stream: boolean; error?: unknown }
+  ): Promise<void> {
+    const durationMs = Date.now() - started;
+    const outputTokens = result.usage?.output_tokens || 0;
+
+    const record: UsageRecord = {
+      timestamp: new Date(started).toISOString(),
+      command: activeCommand,
+      provider: this.name,
+      model: result.model || options.model || this.provider.getModel(),
+      inputTokens: result.usage?.input_tokens || 0,
+      outputTokens,
+      durationMs,
+      tokensPerSecond: durationMs > 0 ? Math.round(outputTokens / (durationMs / 1000) * 10) / 10 : 0,
+      success: result.error === undefined,
+      stream: result.stream
+    };
+
+    if (result.error !== undefined) {
+      record.error = isAbortError(result.error)
+        ? 'Cancelled'
+        : result.error instanceof Error ? result.error.message : String(result.error);
+    }
+
+    try {
+      await this.ledger.append(record);
+    } catch (error) {
+      logger.warn('Could not write to the usage ledger', error);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Provider Wrapper
+ *
+ * Base class for providers that add behaviour around another provider,
+ * such as caching or usage recording. Every method is passed straight
+ * through; subclasses override the ones they change.
+ */
+
+import { AIProvider, CompletionOptions, CompletionResponse, EmbeddingResponse, LoadedModel, PullOptions, StreamEvent } from './provider.js';
+import { AIModel } from './types.js';
+
+export class ProviderWrapper implements AIProvider {
+  constructor(protected provider: AIProvider) {}
+
+  /**
+   * Get the wrapped provider
+   */
+  getProvider(): AIProvider {
+    return this.provider;
+  }
+
+  testConnection(): Promise<boolean> {
+    return this.provider.testConnection();
+  }
+
+  getModels(): Promise<string[]> {
+    return this.provider.getModels();
+  }
+
+  listModels(): Promise<AIModel[]> {
+    return this.provider.listModels();
+  }
+
+  pullModel(model: string, options?: PullOptions): Promise<void> {
+    return this.provider.pullModel(model, options);
+  }
+
+  deleteModel(model: string): Promise<void> {
+    return this.provider.deleteModel(model);
+  }
+
+  listLoadedModels(): Promise<LoadedModel[]> {
+    return this.provider.listLoadedModels();
+  }
+
+  loadModel(model?: string): Promise<void> {
+    return this.provider.loadModel(model);
+  }
+
+  unloadModel(model: string): Promise<void> {
+    return this.provider.unloadModel(model);
+  }
+
+  setModel(model: string): void {
+    this.provider.setModel(model);
+  }
+
+  getModel(): string {
+    return this.provider.getModel();
+  }
+
+  getModelInfo(model?: string): Promise<AIModel> {
+    return this.provider.getModelInfo(model);
+  }
+
+  complete(options: CompletionOptions): Promise<CompletionResponse> {
+    return this.provider.complete(options);
+  }
+
+  completeStream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+    return this.provider.completeStream(options);
+  }
+
+  embed(texts: string[], model?: string): Promise<EmbeddingResponse> {
+    return this.provider.embed(texts, model);
+  }
+
+  getConfig(): any {
+    return this.provider.getConfig();
+  }
+
+  updateConfig(config: any): void {
+    this.provider.updateConfig(config);
+  }
+
+  getProviderName(): string {
+    return this.provider.getProviderName();
+  }
+}
@@ -6,14 +6,15 @@
  * argument parsing, command dispatching, and error handling.
  */
 
-import { commandRegistry, executeCommand, generateCommandHelp } from './commands/index.js';
+import { commandRegistry, executeCommand, generateCommandHelp, parseArgs, ArgType, CommandDef } from './commands/index.js';
 import { logger } from './utils/logger.js';
 import { formatErrorForDisplay } from './errors/formatter.js';
-import { initAI } from './ai/index.js';
+import { initAI, getAIClient, isAIInitialized, resolveRoute, checkModelAvailable, RouteSettings } from './ai/index.js';
 import { authManager } from './auth/index.js';
 import { registerCommands } from './commands/register.js';
 import { UserError } from './errors/types.js';
 import { loadConfig } from './config/index.js';
+import { interruptActiveOperations } from './utils/interrupt.js';
 import pkg from '../package.json' with { type: 'json' };
 
 // Get version from package.json
@@ -22,6 +23,50 @@ const version = pkg.version;
 // Maximum width of the help output
 const HELP_WIDTH = 100;
 
+// Options handled by the CLI itself rather than the command; true marks
+// options that take a value
+const GLOBAL_OPTIONS: Record<string, boolean> = {
+  provider: true,
+  model: true,
+  config: true,
+  verbose: false,
+  quiet: false,
+  debug: false,
+  'no-cache': false,
+  fixture: true,
+  record: false
+};
+
+// Commands that need an initialized AI provider
+const AI_COMMANDS = new Set(['ask', 'explain', 'fix', 'generate', 'refactor', 'review', 'models']);
+
+// Actions that need an AI provider, for commands whose other actions only
+// read local files
+const AI_ACTIONS: Record<string, string[]> = {
+  prompt: ['run']
+};
+
+/**
+ * Check whether a command, with its arguments, needs an initialized AI provider
+ */
+function needsAI(command: CommandDef, args: string[]): boolean {
+  if (command.requiresAuth || AI_COMMANDS.has(command.name)) {
+    return true;
+  }
+  
+  const actions = AI_ACTIONS[command.name];
+  if (!actions) {
+    return false;
+  }
+  
+  try {
+    return actions.includes(parseArgs(args, command).action);
+  } catch {
+    // Invalid arguments are reported when the command runs
+    return false;
+  }
+}
+
 /**
  * Display help information
  */
@@ -85,6 +130,14 @@ Available Commands:`);
   console.log(`For more information on a specific command, use:
   knightcode help <command>
 
+Global Options:
+  --provider <name>  AI provider (ollama, lmstudio, openai-compatible, replay)
+  --model <name>     Model to use with the provider
+  --config <path>    Load configuration from a specific file
+  --no-cache         Don't read or write the response cache
+  --fixture <path>   Fixture file for the replay provider
+  --record           Record to the fixture instead of replaying it
+
 Examples:
   $ knightcode ask "How do I implement a binary search tree in TypeScript?"
   $ knightcode explain path/to/file.js
@@ -100,6 +153,25 @@ function displayVersion(): void {
   console.log(`Knightcode CLI v${version}`);
 }
 
+/**
+ * Check whether a command flag given before the command name takes a value
+ * 
+ * The command isn't known yet, so a flag takes the next argument when any
+ * command declares it with a value. Unknown flags take it unless it is
+ * another flag.
+ */
+function flagTakesValue(flag: string, next: string | undefined): boolean {
+  if (next === undefined || next.startsWith('-')) {
+    return false;
+  }
+  
+  const definitions = commandRegistry.list({ includeHidden: true })
+    .flatMap(command => command.args || [])
+    .filter(arg => arg.position === undefined && (flag === `--${arg.name}` || flag === `-${arg.shortFlag}`));
+  
+  return definitions.length === 0 || definitions.some(arg => arg.type !== ArgType.BOOLEAN);
+}
+
 /**
  * Parse command-line arguments
  */
@@ -107,58 +179,111 @@ function parseCommandLineArgs(): { commandName: string; args: string[]; options:
   // Get arguments, excluding node and script path
   const args = process.argv.slice(2);
   
-  // Handle empty command
-  if (args.length === 0) {
-    displayHelp();
-    process.exit(0);
-  }
-  
-  // Extract command name
-  const commandName = args[0].toLowerCase();
-  
-  // Handle help command
-  if (commandName === 'help') {
-    displayHelp(args[1]);
-    process.exit(0);
-  }
-  
-  // Handle version command
-  if (commandName === 'version' || commandName === '--version' || commandName === '-v') {
+  // Handle version flags
+  if (args[0] === '--version' || args[0] === '-v') {
     displayVersion();
     process.exit(0);
   }
   
-  // Parse options (flags starting with -- or -)
+  // Separate global options (allowed before or after the command name)
+  // from the command's own arguments
   const options: any = {};
   const filteredArgs: string[] = [];
+  let commandName: string | undefined;
   
-  for (let i = 1; i < args.length; i++) {
+  for (let i = 0; i < args.length; i++) {
     const arg = args[i];
-    if (arg.startsWith('--')) {
-      const [key, value] = arg.slice(2).split('=');
-      options[key] = value || true;
-    } else if (arg.startsWith('-') && arg.length === 2) {
-      // Handle short flags like -p
-      const key = arg.slice(1);
-      if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
-        options[key] = args[i + 1];
-        i++; // Skip the next argument
+    
+    if (!arg.startsWith('-') || arg === '-') {
+      if (commandName === undefined) {
+        commandName = arg.toLowerCase();
       } else {
+        filteredArgs.push(arg);
+      }
+      continue;
+    }
+    
+    if (!arg.startsWith('--')) {
+      // Short flags like -o belong to the command, as does a value that
+      // follows one given before the command name
+      filteredArgs.push(arg);
+      if (commandName === undefined && flagTakesValue(arg, args[i + 1])) {
+        filteredArgs.push(args[++i]);
+      }
+      continue;
+    }
+    
+    const equalsIndex = arg.indexOf('=');
+    const key = equalsIndex === -1 ? arg.slice(2) : arg.slice(2, equalsIndex);
+    const inlineValue = equalsIndex === -1 ? undefined : arg.slice(equalsIndex + 1);
+    
+    if (key in GLOBAL_OPTIONS) {
+      if (!GLOBAL_OPTIONS[key]) {
         options[key] = true;
+      } else if (inlineValue !== undefined) {
+        options[key] = inlineValue;
+      } else if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+        options[key] = args[++i];
+      } else {
+        console.error(`Missing value for option: --${key}`);
+        process.exit(1);
       }
+    } else if (inlineValue !== undefined) {
+      // The command parser expects "--flag value"
+      filteredArgs.push(`--${key}`, inlineValue);
     } else {
       filteredArgs.push(arg);
+      if (commandName === undefined && flagTakesValue(arg, args[i + 1])) {
+        filteredArgs.push(args[++i]);
+      }
     }
   }
   
+  // Handle empty command
+  if (commandName === undefined) {
+    displayHelp();
+    process.exit(0);
+  }
+  
+  // Handle help command
+  if (commandName === 'help') {
+    displayHelp(filteredArgs[0]);
+    process.exit(0);
+  }
+  
+  // Handle version command
+  if (commandName === 'version') {
+    displayVersion();
+    process.exit(0);
+  }
+  
   return { commandName, args: filteredArgs, options };
 }
 
+/**
+ * Handle Ctrl+C
+ * 
+ * Cancels a generation in progress and lets the command finish with its
+ * partial output; with nothing to cancel, exits as usual.
+ */
+function setupInterruptHandler(): void {
+  process.on('SIGINT', () => {
+    if (interruptActiveOperations()) {
+      logger.debug('Cancelled the operation in progress');
+      return;
+    }
+    
+    process.exit(130);
+  });
+}
+
 /**
  * Initialize the CLI
  */
 async function initCLI(): Promise<void> {
   try {
+    setupInterruptHandler();
+    
     // Register commands
     registerCommands();
     
@@ -175,17 +300,32 @@ async function initCLI(): Promise<void> {
     }
     
     // Only initialize AI for commands that require it
-    if (command.requiresAuth || command.name === 'ask' || command.name === 'explain' || 
-        command.name === 'fix' || command.name === 'generate' || command.name === 'refactor') {
+    if (needsAI(command, args)) {
+      let route: RouteSettings = {};
+      
       try {
-        // Load configuration and pass it to AI initialization
+        // Load configuration and pass it to AI initialization, with the
+        // command's route; --model beats the routed model
         const config = await loadConfig(options);
-        await initAI(config);
+        route = resolveRoute(config, command.name);
+        // Warming up would race with loading and unloading models
+        if (command.name === 'models' && config.ai) {
+          config.ai.warmUp = false;
+        }
+        if (options.model) {
+          route = { ...route, model: options.model };
+        }
+        await initAI(config, route);
       } catch (error) {
         // If AI initialization fails, show a helpful message but don't crash
         logger.warn('AI initialization failed, some features may not work');
         logger.debug('AI error:', error);
       }
+      
+      // Check the selected model up front, so a typo fails before any work
+      if (route.model && isAIInitialized() && getAIClient().getModel() === route.model) {
+        await checkModelAvailable(getAIClient(), route.model);
+      }
     }
     
     // Execute the command
@@ -10,6 +10,8 @@ import { ErrorCategory } from '../errors/types.js';
 import { logger } from '../utils/logger.js';
 import { isNonEmptyString } from '../utils/validation.js';
 import { registerCommands } from './register.js';
+import { setUsageCommand } from '../ai/usage.js';
+import { completeMention } from '../ai/mentions.js';
 
 /**
  * Command argument types
@@ -247,6 +249,7 @@ export function parseArgs(
   const result: Record<string, any> = {};
   const positionalArgs: string[] = [];
   const flagArgs: Map<string, CommandArgDef> = new Map();
+  const givenArrays = new Set<string>();
   const errors: string[] = [];
   
   // Initialize defaults
@@ -292,8 +295,16 @@ export function parseArgs(
         
         const value = args[++i];
         
-        // Convert value based on type
-        result[argDef.name] = convertArgValue(value, argDef);
+        // Convert value based on type; repeated array flags accumulate
+        const converted = convertArgValue(value, argDef);
+        if (argDef.type === ArgType.ARRAY && givenArrays.has(argDef.name)) {
+          result[argDef.name] = [...result[argDef.name], ...converted];
+        } else {
+          result[argDef.name] = converted;
+        }
+        if (argDef.type === ArgType.ARRAY) {
+          givenArrays.add(argDef.name);
+        }
         
         // Validate choices
         if (argDef.choices && !argDef.choices.includes(String(result[argDef.name]))) {
@@ -315,7 +326,15 @@ export function parseArgs(
     for (let i = 0; i < positionalArgDefs.length; i++) {
       const argDef = positionalArgDefs[i];
       
-      if (i < positionalArgs.length) {
+      if (argDef.type === ArgType.ARRAY && i === positionalArgDefs.length - 1) {
+        // A trailing array takes the remaining values
+        const values = positionalArgs.slice(i).flatMap(value => convertArgValue(value, argDef));
+        if (values.length > 0) {
+          result[argDef.name] = values;
+        } else if (argDef.required) {
+          errors.push(`Missing required argument: ${argDef.name}`);
+        }
+      } else if (i < positionalArgs.length) {
         // Value provided
         result[argDef.name] = convertArgValue(positionalArgs[i], argDef);
         
@@ -368,7 +387,7 @@ function convertArgValue(value: string, argDef: CommandArgDef): any {
       return value.toLowerCase() === 'true';
       
     case ArgType.ARRAY:
-      return value.split(',').map(v => v.trim());
+      return splitListValue(value);
       
     case ArgType.STRING:
     default:
@@ -376,6 +395,33 @@ function convertArgValue(value: string, argDef: CommandArgDef): any {
   }
 }
 
+/**
+ * Split a comma-separated list, keeping commas inside `{}` so brace globs
+ * such as `src/{a,b}.ts` stay whole
+ */
+function splitListValue(value: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  
+  for (const char of value) {
+    if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    }
+    current += char;
+  }
+  items.push(current.trim());
+  
+  return items;
+}
+
 /**
  * Generate help text for a command
  */
@@ -512,6 +558,7 @@ export async function executeCommand(
     
     // Log command execution
     logger.debug(`Executing command: ${command.name}`, { args: parsedArgs });
+    setUsageCommand(command.name);
     
     // Execute the command
     return await command.handler(parsedArgs);
@@ -521,6 +568,47 @@ export async function executeCommand(
   }
 }
 
+/**
+ * Split a line of input into words, keeping quoted text together
+ * 
+ * Lets REPL input such as `ask "why does @src/cli.ts exit?"` reach the
+ * command as one argument, the way a shell would pass it.
+ */
+function splitCommandLine(line: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: string | null = null;
+  
+  for (const char of line) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(current);
+        current = '';
+        inWord = false;
+      }
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  
+  if (inWord) {
+    words.push(current);
+  }
+  
+  return words;
+}
+
 /**
  * Initialize the command processor
  * 
@@ -564,26 +652,26 @@ export async function initCommandProcessor(
         // Command loop
         while (running) {
           try {
-            // Get command input from user
-            const input = await terminal.prompt({
-              type: 'input',
-              name: 'command',
-              message: 'claude-code>',
-              prefix: '',
-            });
+            // Get command input from user; Tab completes @file mentions
+            const input = await terminal.readLine('claude-code>', completeMention);
+            
+            if (input === null) {
+              running = false;
+              continue;
+            }
             
-            if (!input.command || input.command.trim() === '') {
+            if (input.trim() === '') {
               continue;
             }
             
             // Handle special exit commands
-            if (['exit', 'quit', 'q', '.exit'].includes(input.command.toLowerCase())) {
+            if (['exit', 'quit', 'q', '.exit'].includes(input.trim().toLowerCase())) {
               running = false;
               continue;
             }
             
             // Parse input into command and args
-            const parts = input.command.trim().split(/\s+/);
+            const parts = splitCommandLine(input);
             const commandName = parts[0];
             const commandArgs = parts.slice(1);
             
@@ -4,16 +4,25 @@
  * Registers all available CLI commands with the command registry.
  */
 
+import path from 'path';
 import { commandRegistry, ArgType, CommandDef } from './index.js';
 import { logger } from '../utils/logger.js';
-import { getAIClient, initAI } from '../ai/index.js';
-import { fileExists, readTextFile } from '../fs/operations.js';
+import { getAIClient, initAI, applyRoute, checkModelAvailable, loadPromptTemplates, listPromptTemplates, getPromptTemplate, usePromptTemplate, getTextContent, extractCode, extractCodeBlocks, getLanguageFromFilePath, CODE_EXPLANATION_SYSTEM_PROMPT, CODE_REVIEW_SYSTEM_PROMPT, EXPLANATION_DETAIL_LEVELS, collectReviewInput, buildReviewRequest, toReviewReport, toSarif, ReviewReport, ReviewSource, parseCodeTarget, resolveCodeRegion, getRegionText, getSurroundingContext, fitToContext, collectContextFiles, getContextFileOptions, formatContextReport, resolveMentions, ContextAttachment, createResponseCache, loadImage, createUsageLedger, summarizeUsage, USAGE_GROUP_KEYS, UsageGroupKey } from '../ai/index.js';
+import { fileExists, readTextFile, writeTextFile } from '../fs/operations.js';
 import { isNonEmptyString } from '../utils/validation.js';
 import { formatErrorForDisplay } from '../errors/formatter.js';
 import { authManager } from '../auth/index.js';
 import { createUserError } from '../errors/formatter.js';
 import { ErrorCategory } from '../errors/types.js';
 import { AuthMethod } from '../auth/types.js';
+import { CompletionOptions, LoadedModel } from '../ai/provider.js';
+import { AIModel } from '../ai/types.js';
+import { formatNumber, formatKeyValue, padString, indent, formatFileSize, formatDate, formatDuration, createTextTable, formatProgressBar, truncate } from '../utils/formatting.js';
+import { createInterruptible } from '../utils/interrupt.js';
+import { isAbortError } from '../utils/async.js';
+import { promptConfirm } from '../terminal/prompt.js';
+import FileOperationsManager from '../fileops/index.js';
+import chalk from 'chalk';
 
 /**
  * Register all commands
@@ -29,6 +38,11 @@ export function registerCommands(): void {
   registerRefactorCommand();
   registerFixCommand();
   registerGenerateCommand();
+  registerReviewCommand();
+  registerPromptCommand();
+  registerModelsCommand();
+  registerCacheCommand();
+  registerUsageCommand();
   registerConfigCommand();
   registerBugCommand();
   registerFeedbackCommand();
@@ -49,6 +63,166 @@ export function registerCommands(): void {
   logger.info('Commands registered successfully');
 }
 
+/**
+ * Stream a completion to stdout as tokens arrive
+ * 
+ * The command's route settings are applied, then the request is fitted
+ * into the model's context window, with a warning for anything that had
+ * to be cut. Returns the full response text
+ * so callers can post-process it. Providers that only emit a final
+ * `message_stop` are printed in one go. Ctrl+C cancels the generation and
+ * returns whatever was streamed up to that point, marked as cancelled.
+ */
+async function streamCompletion(
+  options: CompletionOptions,
+  emptyMessage: string,
+  attachments: ContextAttachment[] = []
+): Promise<{ text: string; cancelled: boolean }> {
+  const aiClient = getAIClient();
+  let text = '';
+  
+  const budget = await fitToContext(aiClient, applyRoute(options), { attachments });
+  for (const notice of budget.notices) {
+    console.warn(`Warning: ${notice}`);
+  }
+  if (budget.notices.length > 0) {
+    console.warn('');
+  }
+  
+  const interruptible = createInterruptible();
+  try {
+    for await (const event of aiClient.completeStream({ ...budget.options, signal: interruptible.signal })) {
+      if (event.type === 'content_block_delta' && event.delta?.text) {
+        text += event.delta.text;
+        process.stdout.write(event.delta.text);
+      } else if (event.type === 'message_stop' && !text) {
+        text = event.message ? getTextContent(event.message.content) : '';
+        process.stdout.write(text);
+      }
+    }
+  } catch (error) {
+    if (!interruptible.interrupted || !isAbortError(error)) {
+      throw error;
+    }
+  } finally {
+    interruptible.release();
+  }
+  
+  if (text) {
+    process.stdout.write('\n');
+  } else if (!interruptible.interrupted) {
+    console.log(emptyMessage);
+  }
+  
+  if (interruptible.interrupted) {
+    console.warn('Generation cancelled.');
+  }
+  
+  return { text, cancelled: interruptible.interrupted };
+}
+
+/**
+ * Print a diff from FileOperationsManager.generateDiff in color
+ * 
+ * Long runs of unchanged lines are collapsed to keep the changes in view.
+ */
+function printDiff(diff: string): void {
+  const lines = diff.split('\n');
+  const context = 3;
+  
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].startsWith('+ ')) {
+      console.log(chalk.green(lines[i++]));
+      continue;
+    }
+    if (lines[i].startsWith('- ')) {
+      console.log(chalk.red(lines[i++]));
+      continue;
+    }
+    
+    let end = i;
+    while (end < lines.length && !lines[end].startsWith('+ ') && !lines[end].startsWith('- ')) {
+      end++;
+    }
+    
+    // Keep a few lines around each change, none before the first or after the last
+    const head = i === 0 ? 0 : context;
+    const tail = end === lines.length ? 0 : context;
+    if (end - i > head + tail + 1) {
+      lines.slice(i, i + head).forEach(line => console.log(chalk.dim(line)));
+      console.log(chalk.cyan(`  ... ${end - i - head - tail} unchanged lines`));
+      lines.slice(end - tail, end).forEach(line => console.log(chalk.dim(line)));
+    } else {
+      lines.slice(i, end).forEach(line => console.log(chalk.dim(line)));
+    }
+    i = end;
+  }
+}
+
+/**
+ * Write the code from a reply to a file
+ * 
+ * The reply's code block for the file is extracted and shown as a diff
+ * against the current file, then written once confirmed. `yes` skips the
+ * question, which can't be asked when the terminal isn't interactive, and
+ * is needed to write a reply without a code block.
+ */
+async function writeCodeFromReply(reply: string, target: string, yes: boolean): Promise<void> {
+  // Without fences there's no telling code from commentary
+  if (!yes && extractCodeBlocks(reply).length === 0) {
+    throw createUserError(`The reply has no code block; ${target} was not changed`, {
+      category: ErrorCategory.VALIDATION,
+      resolution: 'Pass --yes to write the whole reply as code.'
+    });
+  }
+  
+  const code = extractCode(reply, target);
+  if (!code) {
+    console.warn(`No code found in the reply; ${target} was not changed.`);
+    return;
+  }
+  
+  const configModule = await import('../config/index.js');
+  const fileOps = new FileOperationsManager(await configModule.loadConfig());
+  
+  console.log('');
+  if (await fileExists(fileOps.getAbsolutePath(target))) {
+    const current = await fileOps.readFile(target);
+    if (!current.success) {
+      throw current.error;
+    }
+    if (current.content === code) {
+      console.log(`No changes to ${target}.`);
+      return;
+    }
+    console.log(`Changes to ${target}:`);
+    printDiff(fileOps.generateDiff(current.content || '', code));
+  } else {
+    console.log(`New file ${target}:`);
+    printDiff(code.replace(/\n$/, '').split('\n').map(line => `+ ${line}`).join('\n'));
+  }
+  console.log('');
+  
+  if (!yes) {
+    if (!process.stdin.isTTY || !process.stdout.isTTY) {
+      throw createUserError(`Not writing ${target} without confirmation`, {
+        category: ErrorCategory.VALIDATION,
+        resolution: 'Pass --yes to write without asking.'
+      });
+    }
+    if (!await promptConfirm(`Write ${target}?`, { default: false })) {
+      console.log(`${target} was not changed.`);
+      return;
+    }
+  }
+  
+  const result = await fileOps.writeFile(target, code, { createDirs: true });
+  if (!result.success) {
+    throw result.error;
+  }
+  console.log(`${result.created ? 'Created' : 'Updated'} ${target}.`);
+}
+
 /**
  * Register login command
  */
@@ -190,25 +364,41 @@ function registerAskCommand(): void {
     category: 'Assistance',
     handler: async (args) => {
       try {
-        const { question } = args;
+        const { question, image, context } = args;
         
         if (!isNonEmptyString(question)) {
           console.error('Please provide a question to ask Knightcode.');
           return;
         }
         
+        // Load images up front so a bad file fails before the request
+        const imagePaths: string[] = image || [];
+        const images = await Promise.all(imagePaths.map(imagePath => loadImage(imagePath)));
+        
+        // Read context files and @mentions up front too, and say which ones
+        // were used; files cut to fit the context window are reported when
+        // sending
+        const configModule = await import('../config/index.js');
+        const contextOptions = getContextFileOptions(await configModule.loadConfig());
+        const files = await collectContextFiles(context || [], contextOptions);
+        const mentioned = await resolveMentions(question, contextOptions);
+        warnUnresolvedMentions(mentioned.unresolved);
+        const attachments = [...files.attachments, ...mentioned.attachments];
+        const skipped = [...files.skipped, ...mentioned.skipped];
+        if (attachments.length > 0 || skipped.length > 0) {
+          console.log(formatContextReport({ attachments, skipped }) + '\n');
+        }
+        
         console.log('Asking Knightcode...\n');
         
-        // Get AI client and send question
-        const aiClient = getAIClient();
-        const result = await aiClient.complete({
-          messages: [{ role: 'user', content: question }],
+        // Stream the answer as it is generated
+        await streamCompletion({
+          messages: [{
+            role: 'user',
+            content: images.length > 0 ? [{ type: 'text', text: mentioned.text }, ...images] : mentioned.text
+          }],
           maxTokens: 2048
-        });
-        
-        // Extract and print the response
-        const responseText = result.content[0]?.text || 'No response received';
-        console.log(responseText);
+        }, 'No response received', attachments);
       } catch (error) {
         console.error('Error asking Knightcode:', formatErrorForDisplay(error));
       }
@@ -223,21 +413,23 @@ function registerAskCommand(): void {
       },
       {
         name: 'context',
-        description: 'Provide additional context files',
-        type: ArgType.STRING,
+        description: 'Files, directories or globs to include as context (comma-separated; repeatable)',
+        type: ArgType.ARRAY,
         shortFlag: 'c'
       },
       {
-        name: 'model',
-        description: 'Specific Knightcode model to use',
-        type: ArgType.STRING,
-        shortFlag: 'm',
-        choices: ['claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku']
+        name: 'image',
+        description: 'Image to send to a vision model (PNG, JPEG, GIF or WebP; repeatable)',
+        type: ArgType.ARRAY,
+        shortFlag: 'i'
       }
     ],
     examples: [
       'ask "How do I implement a binary search tree in TypeScript?"',
-      'ask "What\'s wrong with this code?" --context ./path/to/file.js'
+      'ask "What\'s wrong with this code?" --context ./path/to/file.js',
+      'ask "How do these modules fit together?" --context "src/ai,src/config/*.ts"',
+      'ask "Why does @src/cli.ts:200-260 not call @src/index.ts?"',
+      'ask "Why is this layout broken?" --image screenshot.png'
     ],
     requiresAuth: true
   };
@@ -255,7 +447,7 @@ function registerExplainCommand(): void {
     category: 'Assistance',
     handler: async (args) => {
       try {
-        const { file } = args;
+        const { file, detail } = args;
         
         // Validate file path
         if (!isNonEmptyString(file)) {
@@ -263,30 +455,43 @@ function registerExplainCommand(): void {
           return;
         }
         
+        // The target may name lines (file.ts:120-180) or a symbol (file.ts#parseArgs)
+        const target = parseCodeTarget(file);
+        
         // Check if file exists
-        if (!await fileExists(file)) {
-          console.error(`File not found: ${file}`);
+        if (!await fileExists(target.path)) {
+          console.error(`File not found: ${target.path}`);
           return;
         }
         
-        console.log(`Explaining ${file}...\n`);
-        
         // Read the file
-        const fileContent = await readTextFile(file);
+        const fileContent = await readTextFile(target.path);
+        const region = resolveCodeRegion(fileContent, target);
         
-        // Construct the prompt
-        const prompt = `Please explain this code:\n\n\`\`\`\n${fileContent}\n\`\`\``;
+        let prompt = 'Please explain this code.';
+        let attachments: ContextAttachment[] = [{ name: target.path, content: fileContent }];
         
-        // Get AI client and send request
-        const aiClient = getAIClient();
-        const result = await aiClient.complete({
-          messages: [{ role: 'user', content: prompt }],
-          maxTokens: 2048
-        });
+        if (region) {
+          const name = `${target.path}:${region.startLine}-${region.endLine}`;
+          const language = getLanguageFromFilePath(target.path);
+          const surrounding = getSurroundingContext(fileContent, region);
+          
+          prompt = `Please explain ${target.symbol ? `${target.symbol} (${name})` : name}.`;
+          attachments = [{ name, content: getRegionText(fileContent, region), language }];
+          if (surrounding) {
+            prompt += ` The imports and type definitions it uses from ${target.path} are included for reference; don't explain them separately.`;
+            attachments.unshift({ name: `${target.path} (imports and types)`, content: surrounding, language });
+          }
+        }
+        
+        console.log(`Explaining ${region ? `${target.path} lines ${region.startLine}-${region.endLine}` : target.path}...\n`);
         
-        // Extract and print the response
-        const responseText = result.content[0]?.text || 'No explanation received';
-        console.log(responseText);
+        // Stream the explanation as it is generated
+        await streamCompletion({
+          messages: [{ role: 'user', content: `${prompt}\n\n${EXPLANATION_DETAIL_LEVELS[detail] || EXPLANATION_DETAIL_LEVELS.intermediate}` }],
+          system: CODE_EXPLANATION_SYSTEM_PROMPT,
+          maxTokens: 2048
+        }, 'No explanation received', attachments);
       } catch (error) {
         console.error('Error explaining code:', formatErrorForDisplay(error));
       }
@@ -294,7 +499,7 @@ function registerExplainCommand(): void {
     args: [
       {
         name: 'file',
-        description: 'File to explain',
+        description: 'File to explain, optionally narrowed to lines (file.ts:120-180) or a symbol (file.ts#parseArgs)',
         type: ArgType.STRING,
         position: 0,
         required: true
@@ -310,7 +515,9 @@ function registerExplainCommand(): void {
     ],
     examples: [
       'explain path/to/file.js',
-      'explain path/to/file.py --detail detailed'
+      'explain path/to/file.py --detail detailed',
+      'explain src/cli.ts:120-180',
+      'explain src/cli.ts#parseCommandLineArgs --detail basic'
     ],
     requiresAuth: true
   };
@@ -328,7 +535,7 @@ function registerRefactorCommand(): void {
     category: 'Code Generation',
     handler: async (args) => {
       try {
-        const { file, focus } = args;
+        const { file, focus, output, write, yes } = args;
         
         // Validate file path
         if (!isNonEmptyString(file)) {
@@ -348,18 +555,18 @@ function registerRefactorCommand(): void {
         const fileContent = await readTextFile(file);
         
         // Construct the prompt
-        const prompt = `Please refactor this code to improve ${focus}:\n\n\`\`\`\n${fileContent}\n\`\`\``;
+        const prompt = `Please refactor this code to improve ${focus}.`;
         
-        // Get AI client and send request
-        const aiClient = getAIClient();
-        const result = await aiClient.complete({
+        // Stream the refactored code as it is generated
+        const reply = await streamCompletion({
           messages: [{ role: 'user', content: prompt }],
           maxTokens: 2048
-        });
+        }, 'No refactored code received', [{ name: file, content: fileContent }]);
         
-        // Extract and print the response
-        const responseText = result.content[0]?.text || 'No refactored code received';
-        console.log(responseText);
+        const target = output || (write ? file : undefined);
+        if (target && reply.text && !reply.cancelled) {
+          await writeCodeFromReply(reply.text, target, Boolean(yes));
+        }
       } catch (error) {
         console.error('Error refactoring code:', formatErrorForDisplay(error));
       }
@@ -382,15 +589,28 @@ function registerRefactorCommand(): void {
       },
       {
         name: 'output',
-        description: 'Output file path (defaults to stdout)',
+        description: 'Write the refactored code to this file, after showing a diff',
         type: ArgType.STRING,
         shortFlag: 'o'
+      },
+      {
+        name: 'write',
+        description: 'Write the refactored code back to the file, after showing a diff',
+        type: ArgType.BOOLEAN,
+        shortFlag: 'w'
+      },
+      {
+        name: 'yes',
+        description: 'Write without asking for confirmation',
+        type: ArgType.BOOLEAN,
+        shortFlag: 'y'
       }
     ],
     examples: [
       'refactor path/to/file.js',
       'refactor path/to/file.py --focus performance',
-      'refactor path/to/file.ts --output path/to/refactored.ts'
+      'refactor path/to/file.ts --output path/to/refactored.ts',
+      'refactor path/to/file.ts --write --yes'
     ],
     requiresAuth: true
   };
@@ -408,7 +628,7 @@ function registerFixCommand(): void {
     category: 'Assistance',
     handler: async (args) => {
       try {
-        const { file, issue } = args;
+        const { file, issue, output, write, yes } = args;
         
         // Validate file path
         if (!isNonEmptyString(file)) {
@@ -428,22 +648,22 @@ function registerFixCommand(): void {
         const fileContent = await readTextFile(file);
         
         // Construct the prompt
-        let prompt = `Please fix this code:\n\n\`\`\`\n${fileContent}\n\`\`\``;
+        let prompt = 'Please fix this code.';
         
         if (isNonEmptyString(issue)) {
           prompt += `\n\nThe specific issue is: ${issue}`;
         }
         
-        // Get AI client and send request
-        const aiClient = getAIClient();
-        const result = await aiClient.complete({
+        // Stream the fixed code as it is generated
+        const reply = await streamCompletion({
           messages: [{ role: 'user', content: prompt }],
           maxTokens: 2048
-        });
+        }, 'No fixed code received', [{ name: file, content: fileContent }]);
         
-        // Extract and print the response
-        const responseText = result.content[0]?.text || 'No fixed code received';
-        console.log(responseText);
+        const target = output || (write ? file : undefined);
+        if (target && reply.text && !reply.cancelled) {
+          await writeCodeFromReply(reply.text, target, Boolean(yes));
+        }
       } catch (error) {
         console.error('Error fixing code:', formatErrorForDisplay(error));
       }
@@ -464,15 +684,28 @@ function registerFixCommand(): void {
       },
       {
         name: 'output',
-        description: 'Output file path (defaults to stdout)',
+        description: 'Write the fixed code to this file, after showing a diff',
         type: ArgType.STRING,
         shortFlag: 'o'
+      },
+      {
+        name: 'write',
+        description: 'Write the fixed code back to the file, after showing a diff',
+        type: ArgType.BOOLEAN,
+        shortFlag: 'w'
+      },
+      {
+        name: 'yes',
+        description: 'Write without asking for confirmation',
+        type: ArgType.BOOLEAN,
+        shortFlag: 'y'
       }
     ],
     examples: [
       'fix path/to/file.js',
       'fix path/to/file.py --issue "Infinite loop in the sort function"',
-      'fix path/to/file.ts --output path/to/fixed.ts'
+      'fix path/to/file.ts --output path/to/fixed.ts',
+      'fix path/to/file.ts --write'
     ],
     requiresAuth: true
   };
@@ -490,7 +723,7 @@ function registerGenerateCommand(): void {
     category: 'Code Generation',
     handler: async (args) => {
       try {
-        const { prompt, language } = args;
+        const { prompt, language, output, yes } = args;
         
         // Validate prompt
         if (!isNonEmptyString(prompt)) {
@@ -498,21 +731,28 @@ function registerGenerateCommand(): void {
           return;
         }
         
+        // Files named with @mentions are attached for reference
+        const configModule = await import('../config/index.js');
+        const mentioned = await resolveMentions(prompt, getContextFileOptions(await configModule.loadConfig()));
+        warnUnresolvedMentions(mentioned.unresolved);
+        if (mentioned.attachments.length > 0 || mentioned.skipped.length > 0) {
+          console.log(formatContextReport(mentioned) + '\n');
+        }
+        
         console.log(`Generating ${language} code...\n`);
         
         // Construct the prompt
-        const fullPrompt = `Generate ${language} code that ${prompt}. Please provide only the code without explanations.`;
+        const fullPrompt = `Generate ${language} code that ${mentioned.text}. Please provide only the code without explanations.`;
         
-        // Get AI client and send request
-        const aiClient = getAIClient();
-        const result = await aiClient.complete({
+        // Stream the generated code as it is produced
+        const reply = await streamCompletion({
           messages: [{ role: 'user', content: fullPrompt }],
           maxTokens: 2048
-        });
+        }, 'No code generated', mentioned.attachments);
         
-        // Extract and print the response
-        const responseText = result.content[0]?.text || 'No code generated';
-        console.log(responseText);
+        if (output && reply.text && !reply.cancelled) {
+          await writeCodeFromReply(reply.text, output, Boolean(yes));
+        }
       } catch (error) {
         console.error('Error generating code:', formatErrorForDisplay(error));
       }
@@ -534,15 +774,223 @@ function registerGenerateCommand(): void {
       },
       {
         name: 'output',
-        description: 'Output file path (defaults to stdout)',
+        description: 'Write the generated code to this file, after showing a diff',
         type: ArgType.STRING,
         shortFlag: 'o'
+      },
+      {
+        name: 'yes',
+        description: 'Write without asking for confirmation',
+        type: ArgType.BOOLEAN,
+        shortFlag: 'y'
       }
     ],
     examples: [
       'generate "a function that sorts an array using quick sort"',
       'generate "a REST API server with Express" --language TypeScript',
-      'generate "a binary search tree implementation" --output bst.js'
+      'generate "a binary search tree implementation" --output bst.js',
+      'generate "tests for @src/utils/formatting.ts" --language TypeScript'
+    ],
+    requiresAuth: true
+  };
+  
+  commandRegistry.register(command);
+}
+
+/**
+ * Warn about @mentions that look like paths but name nothing
+ */
+function warnUnresolvedMentions(unresolved: string[]): void {
+  for (const mention of unresolved) {
+    console.warn(`Warning: ${mention} does not name a file or directory; sending it as text.`);
+  }
+}
+
+/**
+ * Print review findings grouped by file
+ */
+function printReviewReport(report: ReviewReport): void {
+  const colors: Record<string, (text: string) => string> = {
+    critical: text => chalk.red.bold(text),
+    major: text => chalk.red(text),
+    minor: text => chalk.yellow(text),
+    info: text => chalk.blue(text)
+  };
+  
+  if (report.summary) {
+    console.log(`${report.summary}\n`);
+  }
+  
+  if (report.findings.length === 0) {
+    console.log('No issues found.');
+    return;
+  }
+  
+  const width = Math.max(...report.findings.map(finding => String(finding.line).length));
+  const categoryWidth = Math.max(...report.findings.map(finding => finding.category.length));
+  let file: string | undefined;
+  
+  for (const finding of report.findings) {
+    if (finding.file !== file) {
+      file = finding.file;
+      console.log(`${file === report.findings[0].file ? '' : '\n'}${chalk.bold(file)}`);
+    }
+    const severity = padString(finding.severity, 8);
+    console.log(`  ${padString(String(finding.line), width, ' ', false)}  ${(colors[finding.severity] || (text => text))(severity)}  ${chalk.dim(padString(finding.category, categoryWidth))}  ${finding.message}`);
+    if (finding.suggestion) {
+      console.log(chalk.dim(indent(`Suggestion: ${finding.suggestion}`, width + 14)));
+    }
+  }
+  
+  const files = new Set(report.findings.map(finding => finding.file)).size;
+  const counts = ['critical', 'major', 'minor', 'info']
+    .map(severity => [severity, report.findings.filter(finding => finding.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+  console.log(`\n${report.findings.length} finding${report.findings.length === 1 ? '' : 's'} in ${files} file${files === 1 ? '' : 's'} (${counts.join(', ')})`);
+}
+
+/**
+ * Register review command
+ */
+function registerReviewCommand(): void {
+  const command: CommandDef = {
+    name: 'review',
+    description: 'Review uncommitted or staged changes, a branch, a patch file, or files',
+    category: 'Assistance',
+    handler: async (args) => {
+      try {
+        const { files, staged, base, patch, json, sarif, output } = args;
+        
+        // Failures exit non-zero, so CI steps that consume the report notice
+        if ([staged, base, patch, files].filter(Boolean).length > 1) {
+          console.error('Choose one of --staged, --base, --patch or file paths.');
+          process.exitCode = 1;
+          return;
+        }
+        
+        if (output && !json && !sarif) {
+          console.error('--output writes a --json or --sarif report; add one of them.');
+          process.exitCode = 1;
+          return;
+        }
+        
+        const source: ReviewSource = staged ? { kind: 'staged' }
+          : base ? { kind: 'base', base }
+          : patch ? { kind: 'patch', patch }
+          : files ? { kind: 'files', files }
+          : { kind: 'working' };
+        
+        // Progress goes to stderr when stdout carries a JSON or SARIF report
+        const structured = Boolean(json || sarif);
+        const log = structured && !output ? console.error : console.log;
+        
+        const configModule = await import('../config/index.js');
+        const config = await configModule.loadConfig();
+        await loadPromptTemplates(config);
+        
+        const input = await collectReviewInput(source, getContextFileOptions(config));
+        if (input.skipped.length > 0) {
+          log(formatContextReport({ attachments: [], skipped: input.skipped }) + '\n');
+        }
+        if (input.files.length === 0) {
+          log('Nothing left to review.');
+          return;
+        }
+        
+        log(`Reviewing ${input.description} (${input.files.length} file${input.files.length === 1 ? '' : 's'})...\n`);
+        
+        const aiClient = getAIClient();
+        const system = getPromptTemplate('reviewCode')?.system || CODE_REVIEW_SYSTEM_PROMPT;
+        const budget = await fitToContext(aiClient, applyRoute(buildReviewRequest(input, system)), { attachments: input.attachments });
+        for (const notice of budget.notices) {
+          console.warn(`Warning: ${notice}`);
+        }
+        
+        const interruptible = createInterruptible();
+        let reply: ReviewReport;
+        try {
+          // The reply has been validated against the review schema
+          reply = (await aiClient.complete({ ...budget.options, signal: interruptible.signal })).parsed as ReviewReport;
+        } catch (error) {
+          if (interruptible.interrupted && isAbortError(error)) {
+            console.warn('Review cancelled.');
+            process.exitCode = 130;
+            return;
+          }
+          throw error;
+        } finally {
+          interruptible.release();
+        }
+        
+        const report = toReviewReport(reply, input);
+        
+        if (structured) {
+          const text = JSON.stringify(sarif ? toSarif(report, config.version) : report, null, 2);
+          if (output) {
+            await writeTextFile(output, `${text}\n`);
+            log(`Wrote ${report.findings.length} finding${report.findings.length === 1 ? '' : 's'} to ${output}.`);
+          } else {
+            console.log(text);
+          }
+          return;
+        }
+        
+        printReviewReport(report);
+      } catch (error) {
+        console.error('Error reviewing code:', formatErrorForDisplay(error));
+        process.exitCode = 1;
+      }
+    },
+    args: [
+      {
+        name: 'files',
+        description: 'Files, directories or globs to review in full, instead of a diff',
+        type: ArgType.ARRAY,
+        position: 0
+      },
+      {
+        name: 'staged',
+        description: 'Review the staged changes',
+        type: ArgType.BOOLEAN,
+        shortFlag: 's'
+      },
+      {
+        name: 'base',
+        description: 'Review the changes on this branch since it left this branch or commit',
+        type: ArgType.STRING,
+        shortFlag: 'b'
+      },
+      {
+        name: 'patch',
+        description: 'Review the changes in a unified diff file',
+        type: ArgType.STRING,
+        shortFlag: 'p'
+      },
+      {
+        name: 'json',
+        description: 'Print the findings as JSON',
+        type: ArgType.BOOLEAN
+      },
+      {
+        name: 'sarif',
+        description: 'Print the findings as SARIF 2.1.0, for code scanning tools',
+        type: ArgType.BOOLEAN
+      },
+      {
+        name: 'output',
+        description: 'Write the --json or --sarif report to this file instead of printing it',
+        type: ArgType.STRING,
+        shortFlag: 'o'
+      }
+    ],
+    examples: [
+      'review',
+      'review --staged',
+      'review --base main',
+      'review --patch changes.diff',
+      'review src/auth/login.ts src/auth/session.ts',
+      'review --base main --sarif --output review.sarif'
     ],
     requiresAuth: true
   };
@@ -550,6 +998,573 @@ function registerGenerateCommand(): void {
   commandRegistry.register(command);
 }
 
+/**
+ * Parse --var values into template variables
+ *
+ * The array parser splits on commas, so a piece without `=` belongs to the
+ * value before it.
+ */
+function parseTemplateVars(pieces: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  let last: string | undefined;
+  
+  for (const piece of pieces) {
+    const equalsIndex = piece.indexOf('=');
+    
+    if (equalsIndex > 0) {
+      last = piece.slice(0, equalsIndex).trim();
+      values[last] = piece.slice(equalsIndex + 1);
+    } else if (last !== undefined) {
+      values[last] += `,${piece}`;
+    } else {
+      throw createUserError(`Invalid template variable: ${piece}`, {
+        category: ErrorCategory.VALIDATION,
+        resolution: 'Pass variables as --var name=value.'
+      });
+    }
+  }
+  
+  return values;
+}
+
+/**
+ * Register prompt command
+ */
+function registerPromptCommand(): void {
+  const command: CommandDef = {
+    name: 'prompt',
+    description: 'List, show, or run prompt templates',
+    category: 'Assistance',
+    handler: async (args) => {
+      const { action, name, var: vars, file } = args;
+      const configModule = await import('../config/index.js');
+      const config = await configModule.loadConfig();
+      await loadPromptTemplates(config);
+      
+      if (action !== 'list' && !isNonEmptyString(name)) {
+        throw createUserError(`Please provide the name of the template to ${action}.`, {
+          category: ErrorCategory.VALIDATION
+        });
+      }
+      
+      const template = action === 'list' ? undefined : getPromptTemplate(name);
+      if (action !== 'list' && !template) {
+        throw createUserError(`Prompt template "${name}" not found`, {
+          category: ErrorCategory.VALIDATION,
+          resolution: 'Run "knightcode prompt list" to see the available templates.'
+        });
+      }
+      
+      switch (action) {
+        case 'list': {
+          const rows = listPromptTemplates().map(({ name: templateName, template: entry }) => [
+            templateName,
+            entry.source ? path.relative(process.cwd(), entry.source) : 'built-in',
+            entry.description || ''
+          ]);
+          console.log(createTextTable(rows, ['NAME', 'SOURCE', 'DESCRIPTION']));
+          break;
+        }
+        
+        case 'show': {
+          const rows: Array<[string, string | undefined]> = [
+            ['Description', template!.description],
+            ['Source', template!.source || 'built-in'],
+            ['Required', template!.required?.join(', ')],
+            ['Defaults', template!.defaults && Object.entries(template!.defaults).map(([key, value]) => `${key}=${value}`).join(', ')]
+          ];
+          
+          console.log(rows
+            .filter(([, value]) => value)
+            .map(([label, value]) => `${padString(`${label}:`, 13)}${value}`)
+            .join('\n'));
+          if (template!.system) {
+            console.log(`\nSystem:\n${indent(template!.system.trim(), 2)}`);
+          }
+          console.log(`\nTemplate:\n${indent(template!.template, 2)}`);
+          break;
+        }
+        
+        case 'run': {
+          const values = parseTemplateVars(vars || []);
+          
+          // Files are attached like --context, so they get the same
+          // exclusion and size checks and are fitted to the context window;
+          // {code} and {file} refer to them unless given with --var
+          const files = await collectContextFiles(file || [], getContextFileOptions(config));
+          if (files.attachments.length > 0 || files.skipped.length > 0) {
+            console.log(formatContextReport(files) + '\n');
+          }
+          
+          const names = files.attachments.map(attachment => attachment.name);
+          if (names.length > 0) {
+            values.code ??= `The code is in the attached ${names.length === 1 ? 'file' : 'files'} ${names.join(', ')}.`;
+            values.file ??= names.join(', ');
+          }
+          
+          const { prompt, system } = usePromptTemplate(name, values);
+          
+          await streamCompletion({
+            system,
+            messages: [{ role: 'user', content: prompt }],
+            maxTokens: 2048
+          }, 'No response received', files.attachments);
+          break;
+        }
+      }
+    },
+    args: [
+      {
+        name: 'action',
+        description: 'What to do',
+        type: ArgType.STRING,
+        position: 0,
+        default: 'list',
+        choices: ['list', 'show', 'run']
+      },
+      {
+        name: 'name',
+        description: 'Template name',
+        type: ArgType.STRING,
+        position: 1
+      },
+      {
+        name: 'var',
+        description: 'Template variable as name=value (repeatable)',
+        type: ArgType.ARRAY,
+        shortFlag: 'v'
+      },
+      {
+        name: 'file',
+        description: 'File, directory or glob to attach for {code} (repeatable)',
+        type: ArgType.ARRAY,
+        shortFlag: 'f'
+      }
+    ],
+    examples: [
+      'prompt list',
+      'prompt show security-review',
+      'prompt run security-review --file src/auth/login.ts',
+      'prompt run migrate-logger --file src/server.ts --var logger=pino'
+    ]
+  };
+  
+  commandRegistry.register(command);
+}
+
+/**
+ * Register models command
+ */
+function registerModelsCommand(): void {
+  const command: CommandDef = {
+    name: 'models',
+    description: 'List, download, remove, inspect and unload the models of the current AI provider',
+    category: 'AI',
+    handler: async (args) => {
+      const { action, name } = args;
+      const aiClient = getAIClient();
+      
+      if (['pull', 'rm', 'use'].includes(action) && !isNonEmptyString(name)) {
+        throw createUserError(`Please provide the name of the model to ${action === 'rm' ? 'remove' : action}.`, {
+          category: ErrorCategory.VALIDATION
+        });
+      }
+      
+      switch (action) {
+        case 'list': {
+          const models = await aiClient.listModels();
+          if (models.length === 0) {
+            console.log(`No models found for ${aiClient.getProviderName()}.`);
+            break;
+          }
+          
+          const current = aiClient.getModel();
+          const rows = models.map(model => [
+            `${model.id === current ? '*' : ' '} ${model.id}`,
+            model.size ? formatFileSize(model.size) : '-',
+            model.modifiedAt ? formatDate(model.modifiedAt) : '-',
+            model.parameterSize || '-',
+            model.quantization || '-'
+          ]);
+          console.log(createTextTable(rows, ['  NAME', 'SIZE', 'MODIFIED', 'PARAMETERS', 'QUANTIZATION']));
+          break;
+        }
+        
+        case 'show': {
+          const info = await aiClient.getModelInfo(name || undefined);
+          console.log(formatModelInfo(info));
+          break;
+        }
+        
+        case 'pull':
+          await pullModel(name);
+          break;
+        
+        case 'rm':
+          await aiClient.deleteModel(name);
+          console.log(`Removed ${name}.`);
+          break;
+        
+        case 'loaded': {
+          const models = await aiClient.listLoadedModels();
+          if (models.length === 0) {
+            console.log('No models are loaded.');
+            break;
+          }
+          
+          const rows = models.map(model => [
+            model.id,
+            model.size ? formatFileSize(model.size) : '-',
+            formatProcessor(model),
+            model.contextLength ? formatNumber(model.contextLength) : '-',
+            formatUnloadTime(model.expiresAt)
+          ]);
+          console.log(createTextTable(rows, ['NAME', 'SIZE', 'PROCESSOR', 'CONTEXT', 'UNLOADS IN']));
+          break;
+        }
+        
+        case 'unload': {
+          // Without a name, free everything that is loaded
+          const models = isNonEmptyString(name)
+            ? [name]
+            : (await aiClient.listLoadedModels()).map(model => model.id);
+          if (models.length === 0) {
+            console.log('No models are loaded.');
+            break;
+          }
+          
+          for (const model of models) {
+            await aiClient.unloadModel(model);
+            console.log(`Unloaded ${model}.`);
+          }
+          break;
+        }
+        
+        case 'use': {
+          await checkModelAvailable(aiClient, name);
+          
+          const scope = args.project ? 'project' : 'user';
+          const configModule = await import('../config/index.js');
+          const filePath = configModule.saveConfigValue('ai.model', name, scope);
+          
+          // A model set in the provider's own section takes precedence
+          const provider = aiClient.getProviderName();
+          const sectionModel = configModule.readConfigFile(scope).ai?.[provider]?.model;
+          if (sectionModel && sectionModel !== name) {
+            configModule.saveConfigValue(`ai.${provider}.model`, name, scope);
+          }
+          
+          aiClient.setModel(name);
+          console.log(`Now using ${name} (saved to ${filePath}).`);
+          
+          // Project settings are loaded on top of the user's
+          if (scope === 'user' && (configModule.isProjectSetting('ai.model') || configModule.isProjectSetting(`ai.${provider}.model`))) {
+            console.log(chalk.yellow('The project configuration sets its own model, which still applies here; use --project to change it.'));
+          }
+          break;
+        }
+      }
+    },
+    args: [
+      {
+        name: 'action',
+        description: 'What to do',
+        type: ArgType.STRING,
+        position: 0,
+        default: 'list',
+        choices: ['list', 'show', 'pull', 'rm', 'use', 'loaded', 'unload']
+      },
+      {
+        name: 'name',
+        description: 'Model name (for show, defaults to the current model; for unload, to all loaded models)',
+        type: ArgType.STRING,
+        position: 1
+      },
+      {
+        name: 'project',
+        description: 'Save the model chosen with use to the project\'s .knightcode.json instead of your user config',
+        type: ArgType.BOOLEAN
+      }
+    ],
+    examples: [
+      'models',
+      'models show devstral:24b',
+      'models pull qwen2.5-coder:7b',
+      'models rm codellama:7b',
+      'models use qwen2.5-coder:7b',
+      'models use qwen2.5-coder:7b --project',
+      'models loaded',
+      'models unload devstral:24b'
+    ]
+  };
+  
+  commandRegistry.register(command);
+}
+
+/**
+ * Describe where a loaded model runs, like `ollama ps`
+ */
+function formatProcessor(model: LoadedModel): string {
+  if (!model.size || model.vramSize === undefined) {
+    return '-';
+  }
+  
+  const gpu = Math.round(model.vramSize / model.size * 100);
+  if (gpu >= 100) {
+    return '100% GPU';
+  }
+  if (gpu <= 0) {
+    return '100% CPU';
+  }
+  return `${100 - gpu}%/${gpu}% CPU/GPU`;
+}
+
+/**
+ * Describe how long until a loaded model is unloaded
+ */
+function formatUnloadTime(expiresAt?: Date): string {
+  if (!expiresAt) {
+    return '-';
+  }
+  
+  const remaining = expiresAt.getTime() - Date.now();
+  
+  // Models kept loaded indefinitely expire centuries from now
+  if (remaining > 365 * 24 * 60 * 60 * 1000) {
+    return 'never';
+  }
+  
+  return remaining > 0 ? formatDuration(remaining) : 'now';
+}
+
+/**
+ * Download a model, showing a progress bar while layers download
+ * 
+ * Ctrl+C cancels the download.
+ */
+async function pullModel(name: string): Promise<void> {
+  const aiClient = getAIClient();
+  const interactive = Boolean(process.stdout.isTTY);
+  let lastStatus = '';
+  let lineOpen = false;
+  
+  const interruptible = createInterruptible();
+  try {
+    await aiClient.pullModel(name, {
+      signal: interruptible.signal,
+      onProgress: ({ status, completed, total }) => {
+        const hasBytes = Boolean(total);
+        
+        if (status !== lastStatus) {
+          if (lineOpen) {
+            process.stdout.write('\n');
+            lineOpen = false;
+          }
+          lastStatus = status;
+          if (!hasBytes || !interactive) {
+            console.log(status);
+          }
+        }
+        
+        // Redraw the bar in place; piped output only gets the status lines
+        if (hasBytes && interactive) {
+          const bytes = `${formatFileSize(completed || 0)} / ${formatFileSize(total!)}`;
+          process.stdout.write(`\r${truncate(status, 28)} ${formatProgressBar(completed || 0, total!)} ${bytes}\x1b[K`);
+          lineOpen = true;
+        }
+      }
+    });
+    
+    if (lineOpen) {
+      process.stdout.write('\n');
+    }
+    console.log(`Pulled ${name}.`);
+  } catch (error) {
+    if (lineOpen) {
+      process.stdout.write('\n');
+    }
+    if (interruptible.interrupted && isAbortError(error)) {
+      console.warn('Download cancelled.');
+      return;
+    }
+    throw error;
+  } finally {
+    interruptible.release();
+  }
+}
+
+/**
+ * Format model details for display
+ */
+function formatModelInfo(info: AIModel): string {
+  const rows: Array<[string, string | undefined]> = [
+    ['Model', info.name === info.id ? info.id : `${info.name} (${info.id})`],
+    ['Provider', info.provider],
+    ['Family', info.family],
+    ['Parameters', info.parameterSize],
+    ['Quantization', info.quantization],
+    ['Context length', info.maxContextLength ? `${formatNumber(info.maxContextLength)} tokens` : undefined],
+    ['Capabilities', info.capabilities?.join(', ')]
+  ];
+  
+  const lines = rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `${padString(`${label}:`, 16)}${value}`);
+  
+  if (info.defaultParams && Object.keys(info.defaultParams).length > 0) {
+    lines.push('', 'Default parameters:', formatKeyValue(info.defaultParams, { indent: 2 }));
+  }
+  
+  if (info.template) {
+    lines.push('', 'Template:', indent(info.template.trim()));
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Register cache command
+ */
+function registerCacheCommand(): void {
+  const command: CommandDef = {
+    name: 'cache',
+    description: 'Inspect or clear the AI response cache',
+    category: 'AI',
+    handler: async (args) => {
+      const { action } = args;
+      const configModule = await import('../config/index.js');
+      const config = await configModule.loadConfig();
+      const cache = createResponseCache(config);
+      
+      switch (action) {
+        case 'stats': {
+          const stats = await cache.stats();
+          const rows: Array<[string, string | undefined]> = [
+            ['Directory', stats.directory],
+            ['Enabled', config.ai?.cache?.enabled ? 'yes' : 'no'],
+            ['Entries', formatNumber(stats.entries)],
+            ['Size', formatFileSize(stats.totalSize)],
+            ['Expired', stats.expired > 0 ? formatNumber(stats.expired) : undefined],
+            ['Oldest', stats.oldest && formatDate(stats.oldest)],
+            ['Newest', stats.newest && formatDate(stats.newest)]
+          ];
+          
+          console.log(rows
+            .filter(([, value]) => value)
+            .map(([label, value]) => `${padString(`${label}:`, 12)}${value}`)
+            .join('\n'));
+          break;
+        }
+        
+        case 'clear': {
+          const removed = await cache.clear();
+          console.log(`Removed ${formatNumber(removed)} cached response${removed === 1 ? '' : 's'}.`);
+          break;
+        }
+      }
+    },
+    args: [
+      {
+        name: 'action',
+        description: 'What to do',
+        type: ArgType.STRING,
+        position: 0,
+        default: 'stats',
+        choices: ['stats', 'clear']
+      }
+    ],
+    examples: [
+      'cache stats',
+      'cache clear'
+    ]
+  };
+  
+  commandRegistry.register(command);
+}
+
+/**
+ * Register usage command
+ */
+function registerUsageCommand(): void {
+  const command: CommandDef = {
+    name: 'usage',
+    description: 'Report token usage and latency of AI requests',
+    category: 'AI',
+    handler: async (args) => {
+      const { by, days, json } = args;
+      
+      const groupBy: UsageGroupKey[] = by;
+      const unknown = groupBy.filter(key => !USAGE_GROUP_KEYS.includes(key));
+      if (unknown.length > 0) {
+        throw createUserError(`Cannot group usage by ${unknown.join(', ')}`, {
+          category: ErrorCategory.VALIDATION,
+          resolution: `Group by any of: ${USAGE_GROUP_KEYS.join(', ')}`
+        });
+      }
+      
+      const configModule = await import('../config/index.js');
+      const config = await configModule.loadConfig();
+      const ledger = createUsageLedger(config);
+      
+      const since = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+      const summaries = summarizeUsage(await ledger.read(since), groupBy);
+      
+      if (json) {
+        console.log(JSON.stringify(summaries, null, 2));
+        return;
+      }
+      
+      if (summaries.length === 0) {
+        console.log(`No usage recorded${since ? ` in the last ${days} days` : ''}.`);
+        return;
+      }
+      
+      const rows = summaries.map(summary => [
+        ...groupBy.map(key => summary.group[key] || '-'),
+        formatNumber(summary.requests),
+        formatNumber(summary.failed),
+        formatNumber(summary.inputTokens),
+        formatNumber(summary.outputTokens),
+        summary.averageDurationMs ? `${(summary.averageDurationMs / 1000).toFixed(1)}s` : '-',
+        summary.tokensPerSecond ? summary.tokensPerSecond.toFixed(1) : '-'
+      ]);
+      
+      console.log(createTextTable(rows, [
+        ...groupBy.map(key => key.toUpperCase()),
+        'REQUESTS', 'FAILED', 'INPUT', 'OUTPUT', 'AVG TIME', 'TOKENS/S'
+      ]));
+    },
+    args: [
+      {
+        name: 'by',
+        description: `Fields to group by, comma-separated (${USAGE_GROUP_KEYS.join(', ')})`,
+        type: ArgType.ARRAY,
+        default: ['day', 'command', 'model']
+      },
+      {
+        name: 'days',
+        description: 'Only include the last N days (0 for all)',
+        type: ArgType.NUMBER,
+        default: 30
+      },
+      {
+        name: 'json',
+        description: 'Print the report as JSON',
+        type: ArgType.BOOLEAN,
+        default: false
+      }
+    ],
+    examples: [
+      'usage',
+      'usage --by model',
+      'usage --by day,model --days 7',
+      'usage --json'
+    ]
+  };
+  
+  commandRegistry.register(command);
+}
+
 /**
  * Register config command
  */
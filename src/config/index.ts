@@ -18,12 +18,36 @@ import { ErrorCategory } from '../errors/types.js';
 const DEFAULT_CONFIG = {
   // AI configuration - prioritize local providers
   ai: {
-    provider: 'ollama', // Default to Ollama, fallback to LM Studio
-    model: 'devstral:24b', // Default Ollama model
+    provider: 'ollama',
+    // Providers tried in order when the preferred one is unreachable.
+    // Anthropic is remote and deliberately not a fallback by default.
+    fallback: ['ollama', 'lmstudio'],
+    // Modules that register additional providers (package names or paths)
+    providerModules: [],
+    // No default model: each provider client picks its own (devstral:24b on Ollama).
+    // The same goes for embeddingModel (nomic-embed-text on Ollama).
     temperature: 0.7,
     maxTokens: 4096,
     maxHistoryLength: 20,
-    timeout: 60000
+    timeout: 60000,
+    // Load the model in the background when AI starts, so the first request
+    // doesn't wait for it (see ai.ollama.keepAlive for how long it stays)
+    warmUp: false,
+    // Response cache, off unless enabled; by default only reproducible
+    // requests (temperature 0 or a fixed seed) are cached
+    cache: {
+      enabled: false,
+      ttl: 7 * 24 * 60 * 60 * 1000, // 7 days
+      maxSize: 100 * 1024 * 1024, // 100MB
+      deterministicOnly: true
+    },
+    // Ledger of token counts and latency per request, read by `usage`
+    usage: {
+      enabled: true
+    },
+    // Provider, model, temperature and maxTokens per command name or task
+    // type, e.g. { "explain": { "model": "qwen2.5-coder:3b" } }
+    routes: {}
   },
   
   // API configuration - only used if local providers fail
@@ -61,6 +85,28 @@ const DEFAULT_CONFIG = {
     maxReadSizeBytes: 10 * 1024 * 1024 // 10MB
   },
   
+  // Code analysis configuration; excludePatterns and maxFileSize also
+  // decide which files `ask --context` attaches
+  codeAnalysis: {
+    excludePatterns: [
+      'node_modules/**',
+      '.git/**',
+      'dist/**',
+      'build/**',
+      '**/*.min.js',
+      '**/*.bundle.js',
+      '**/vendor/**',
+      '.DS_Store',
+      '**/*.log',
+      '**/*.lock',
+      '**/package-lock.json',
+      '**/pnpm-lock.yaml',
+      '.env*',
+      '**/*.map'
+    ],
+    maxFileSize: 1024 * 1024 // 1MB
+  },
+  
   // Execution configuration
   execution: {
     shell: process.env.SHELL || 'bash'
@@ -78,13 +124,35 @@ const DEFAULT_CONFIG = {
 };
 
 /**
- * Configuration file paths to check
+ * Default locations for application data, populated at load time
  */
-const CONFIG_PATHS = [
-  // Current directory
-  path.join(process.cwd(), '.knightcode.json'),
-  path.join(process.cwd(), '.knightcode.js'),
+function getDefaultPaths(): Record<string, string> {
+  const home = os.homedir();
+  const app = path.join(home, '.knightcode');
   
+  return {
+    home,
+    app,
+    cache: process.env.XDG_CACHE_HOME
+      ? path.join(process.env.XDG_CACHE_HOME, 'knightcode')
+      : path.join(app, 'cache'),
+    logs: path.join(app, 'logs'),
+    workspace: process.cwd()
+  };
+}
+
+/**
+ * Project configuration files, checked in order in the current directory
+ */
+const PROJECT_CONFIG_PATHS = [
+  path.join(process.cwd(), '.knightcode.json'),
+  path.join(process.cwd(), '.knightcode.js')
+];
+
+/**
+ * User configuration files, checked in order
+ */
+const USER_CONFIG_PATHS = [
   // User home directory
   path.join(os.homedir(), '.knightcode', 'config.json'),
   path.join(os.homedir(), '.knightcode.json'),
@@ -126,6 +194,105 @@ function loadConfigFromFile(configPath: string): any {
   }
 }
 
+/**
+ * Load the first configuration file that exists from a list
+ */
+function loadFirstConfigFile(configPaths: string[]): { path: string; config: any } | null {
+  for (const configPath of configPaths) {
+    const fileConfig = loadConfigFromFile(configPath);
+    if (fileConfig) {
+      return { path: configPath, config: fileConfig };
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Which config file a change is saved to: the user's own, or the project's
+ */
+export type ConfigScope = 'user' | 'project';
+
+// Config files the current configuration was loaded from
+let configFilePaths: Record<ConfigScope, string | null> = { user: null, project: null };
+
+// Settings whose value came from the project config file
+let projectSettings = new Set<string>();
+
+/**
+ * Get the file configuration changes are saved to
+ * 
+ * This is the config file of that scope the configuration was loaded from
+ * (or the one given with --config), otherwise ~/.knightcode/config.json
+ * for the user and .knightcode.json in the current directory for the
+ * project.
+ */
+export function getConfigFilePath(scope: ConfigScope = 'user'): string {
+  return configFilePaths[scope] || (scope === 'user' ? USER_CONFIG_PATHS[0] : PROJECT_CONFIG_PATHS[0]);
+}
+
+/**
+ * Check whether a setting's value came from the project config file
+ * 
+ * The key is a dotted path such as "api.baseUrl". Such values are chosen by
+ * whoever wrote the repository rather than the user, so they must not be
+ * trusted with the user's credentials.
+ */
+export function isProjectSetting(key: string): boolean {
+  return projectSettings.has(key);
+}
+
+/**
+ * Read the settings stored in the config file, without defaults or
+ * overrides from the environment and command line
+ */
+export function readConfigFile(scope: ConfigScope = 'user'): any {
+  return loadConfigFromFile(getConfigFilePath(scope)) || {};
+}
+
+/**
+ * Save a configuration value to the config file
+ * 
+ * The key is a dotted path such as "ai.model". Other settings in the file
+ * are left as they are. Returns the path of the file that was written.
+ */
+export function saveConfigValue(key: string, value: any, scope: ConfigScope = 'user'): string {
+  const filePath = getConfigFilePath(scope);
+  
+  if (filePath.endsWith('.js')) {
+    throw createUserError(`Cannot save settings to the JavaScript config file ${filePath}`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: `Set ${key} in that file yourself.`
+    });
+  }
+  
+  try {
+    const fileConfig = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : {};
+    
+    const keyPath = key.split('.');
+    let section = fileConfig;
+    for (const part of keyPath.slice(0, -1)) {
+      if (typeof section[part] !== 'object' || section[part] === null) {
+        section[part] = {};
+      }
+      section = section[part];
+    }
+    section[keyPath[keyPath.length - 1]] = value;
+    
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(fileConfig, null, 2)}\n`, 'utf8');
+  } catch (error) {
+    throw createUserError(`Failed to save configuration to ${filePath}`, {
+      cause: error,
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'Check that the file is valid JSON and writable.'
+    });
+  }
+  
+  logger.debug(`Saved ${key} to ${filePath}`);
+  return filePath;
+}
+
 /**
  * Load configuration from environment variables
  */
@@ -144,6 +311,23 @@ function loadConfigFromEnv(): any {
     envConfig.ai.model = process.env.KNIGHTCODE_AI_MODEL;
   }
   
+  // Check for provider modules, a comma-separated list
+  if (process.env.KNIGHTCODE_PROVIDER_MODULES) {
+    envConfig.ai = envConfig.ai || {};
+    envConfig.ai.providerModules = process.env.KNIGHTCODE_PROVIDER_MODULES
+      .split(',')
+      .map(specifier => specifier.trim())
+      .filter(Boolean);
+  }
+  
+  // Check for a bearer key for OpenAI-compatible servers (vLLM, llama-server, LocalAI).
+  // OPENAI_API_KEY is deliberately not read: the key is sent to whatever server
+  // ai.openaiCompatible.baseUrl names.
+  if (process.env.KNIGHTCODE_OPENAI_API_KEY) {
+    envConfig.ai = envConfig.ai || {};
+    envConfig.ai.openaiCompatible = { apiKey: process.env.KNIGHTCODE_OPENAI_API_KEY };
+  }
+  
   // Check for API key (for Anthropic)
   if (process.env.CLAUDE_API_KEY) {
     envConfig.api = envConfig.api || {};
@@ -200,6 +384,25 @@ function mergeConfigs(...configs: any[]): any {
   return result;
 }
 
+/**
+ * List the dotted paths of the values set in a configuration object
+ */
+function listSettings(config: any, prefix = ''): string[] {
+  const keys: string[] = [];
+  
+  for (const [key, value] of Object.entries(config || {})) {
+    if (value === null || value === undefined) continue;
+    
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      keys.push(...listSettings(value, `${prefix}${key}.`));
+    } else {
+      keys.push(`${prefix}${key}`);
+    }
+  }
+  
+  return keys;
+}
+
 /**
  * Validate critical configuration
  */
@@ -208,7 +411,7 @@ function validateConfig(config: any): void {
   if (!config.ai.provider) {
     throw createUserError('AI provider is not configured', {
       category: ErrorCategory.CONFIGURATION,
-      resolution: 'Specify a valid AI provider (ollama, lmstudio, or anthropic) in your configuration'
+      resolution: 'Specify an AI provider (ollama, lmstudio, openai-compatible, anthropic, or one registered by a provider module) in your configuration'
     });
   }
   
@@ -248,21 +451,35 @@ export async function loadConfig(options: any = {}): Promise<any> {
   logger.debug('Loading configuration', { options });
   
   // Initialize with defaults
-  let config = { ...DEFAULT_CONFIG };
+  let config = mergeConfigs(DEFAULT_CONFIG, { paths: getDefaultPaths() });
+  configFilePaths = { user: null, project: null };
+  projectSettings = new Set();
   
-  // Load configuration from files
-  for (const configPath of CONFIG_PATHS) {
-    const fileConfig = loadConfigFromFile(configPath);
-    if (fileConfig) {
-      config = mergeConfigs(config, fileConfig);
-      logger.debug(`Loaded configuration from ${configPath}`);
-      break; // Stop after first successful load
+  // Load the user configuration, then the project's on top of it
+  const userFile = loadFirstConfigFile(USER_CONFIG_PATHS);
+  const projectFile = loadFirstConfigFile(PROJECT_CONFIG_PATHS);
+  
+  // Provider modules are imported and run, so a checked-out repository
+  // must not be able to name them
+  if (projectFile?.config.ai?.providerModules?.length) {
+    throw createUserError(`ai.providerModules cannot be set in the project configuration ${projectFile.path}`, {
+      category: ErrorCategory.CONFIGURATION,
+      resolution: 'List provider modules in ~/.knightcode/config.json or KNIGHTCODE_PROVIDER_MODULES instead.'
+    });
+  }
+  
+  for (const [scope, file] of [['user', userFile], ['project', projectFile]] as const) {
+    if (file) {
+      config = mergeConfigs(config, file.config);
+      configFilePaths[scope] = file.path;
+      logger.debug(`Loaded configuration from ${file.path}`);
     }
   }
   
   // Load configuration from environment variables
   const envConfig = loadConfigFromEnv();
   config = mergeConfigs(config, envConfig);
+  const overrides = [envConfig];
   
   // Override with command line options
   if (options) {
@@ -293,11 +510,27 @@ export async function loadConfig(options: any = {}): Promise<any> {
       cliConfig.ai.model = options.model;
     }
     
+    // Bypass the response cache
+    if (options['no-cache']) {
+      cliConfig.ai = cliConfig.ai || {};
+      cliConfig.ai.cache = { enabled: false };
+    }
+    
+    // Replay provider fixture, recorded instead of played back with --record
+    if (options.fixture || options.record) {
+      cliConfig.ai = cliConfig.ai || {};
+      cliConfig.ai.replay = {};
+      if (options.fixture) cliConfig.ai.replay.fixture = options.fixture;
+      if (options.record) cliConfig.ai.replay.mode = 'record';
+    }
+    
     if (options.config) {
       // Load from specified config file
       const customConfig = loadConfigFromFile(options.config);
       if (customConfig) {
         config = mergeConfigs(config, customConfig);
+        overrides.push(customConfig);
+        configFilePaths = { user: path.resolve(options.config), project: path.resolve(options.config) };
       } else {
         throw createUserError(`Could not load configuration from ${options.config}`, {
           category: ErrorCategory.CONFIGURATION,
@@ -308,6 +541,15 @@ export async function loadConfig(options: any = {}): Promise<any> {
     
     // Merge CLI options
     config = mergeConfigs(config, cliConfig);
+    overrides.push(cliConfig);
+  }
+  
+  if (projectFile) {
+    for (const key of listSettings(projectFile.config)) {
+      if (!overrides.some(override => listSettings(override).includes(key))) {
+        projectSettings.add(key);
+      }
+    }
   }
   
   // Validate the configuration
@@ -321,4 +563,4 @@ export async function loadConfig(options: any = {}): Promise<any> {
   return config;
 }
 
-export default { loadConfig }; 
\ No newline at end of file
+export default { loadConfig, saveConfigValue, readConfigFile, getConfigFilePath, isProjectSetting }; 
\ No newline at end of file
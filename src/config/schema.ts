@@ -10,13 +10,71 @@ import { z } from 'zod';
 // Define log level enum
 const LogLevel = z.enum(['error', 'warn', 'info', 'verbose', 'debug', 'trace']);
 
+// Per-provider connection settings
+const LocalProviderConfigSchema = z.object({
+  baseUrl: z.string().url().optional(),
+  apiKey: z.string().optional(),
+  model: z.string().optional(),
+  embeddingModel: z.string().optional(),
+  embeddingBatchSize: z.number().int().positive().optional(),
+  // Ollama only: how long models stay loaded, e.g. "30m" or "-1"
+  keepAlive: z.string().optional(),
+  toolMode: z.enum(['auto', 'native', 'prompt']).optional()
+});
+
+// Response cache schema
+const CacheConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  ttl: z.number().nonnegative().default(7 * 24 * 60 * 60 * 1000), // 0 = never expire
+  maxSize: z.number().nonnegative().default(100 * 1024 * 1024), // 0 = unlimited
+  deterministicOnly: z.boolean().default(true)
+});
+
+// Usage ledger schema
+const UsageConfigSchema = z.object({
+  enabled: z.boolean().default(true)
+});
+
+// Replay provider schema
+const ReplayConfigSchema = z.object({
+  fixture: z.string().optional(),
+  mode: z.enum(['record', 'replay']).default('replay'),
+  // Provider whose traffic is recorded
+  provider: z.string().default('ollama'),
+  model: z.string().optional()
+});
+
+// Per-command route schema
+const RouteConfigSchema = z.object({
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional()
+});
+
 // AI configuration schema
 const AIConfigSchema = z.object({
-  provider: z.enum(['ollama', 'lmstudio', 'anthropic']).default('ollama'),
+  // Built-in providers are ollama, lmstudio, openai-compatible, anthropic
+  // and replay;
+  // provider modules can register more
+  provider: z.string().default('ollama'),
+  fallback: z.array(z.string()).default(['ollama', 'lmstudio']),
+  providerModules: z.array(z.string()).default([]),
   model: z.string().optional(),
+  // Model used by embed(); each provider has its own default
+  embeddingModel: z.string().optional(),
+  ollama: LocalProviderConfigSchema.optional(),
+  lmstudio: LocalProviderConfigSchema.optional(),
+  openaiCompatible: LocalProviderConfigSchema.optional(),
+  replay: ReplayConfigSchema.optional(),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().positive().default(4096),
-  timeout: z.number().positive().default(60000)
+  timeout: z.number().positive().default(60000),
+  warmUp: z.boolean().default(false),
+  cache: CacheConfigSchema.default({}),
+  usage: UsageConfigSchema.default({}),
+  // Keyed by command name or task type
+  routes: z.record(RouteConfigSchema).default({})
 });
 
 // API configuration schema
@@ -129,5 +187,9 @@ export {
   CodeAnalysisConfigSchema,
   GitConfigSchema,
   EditorConfigSchema,
-  PathsConfigSchema
+  PathsConfigSchema,
+  CacheConfigSchema,
+  UsageConfigSchema,
+  ReplayConfigSchema,
+  RouteConfigSchema
 }; 
\ No newline at end of file
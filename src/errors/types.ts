@@ -74,7 +74,7 @@ export class UserError extends Error {
   details?: Record<string, any>;
 
   constructor(message: string, options: ErrorOptions = {}) {
-    super(message);
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
     this.name = 'UserError';
     this.category = options.category || ErrorCategory.UNKNOWN;
     this.level = options.level || ErrorLevel.ERROR;
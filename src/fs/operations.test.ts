@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals';
+import { globToRegExp, isGlobPattern, matchGlobs } from './operations.js';
+
+describe('isGlobPattern', () => {
+  it('detects glob characters', () => {
+    expect(isGlobPattern('src/**/*.ts')).toBe(true);
+    expect(isGlobPattern('src/{a,b}.ts')).toBe(true);
+    expect(isGlobPattern('file?.ts')).toBe(true);
+    expect(isGlobPattern('src/cli.ts')).toBe(false);
+  });
+});
+
+describe('globToRegExp', () => {
+  const matches = (pattern: string, file: string): boolean => globToRegExp(pattern).test(file);
+
+  it('matches * within a single path segment', () => {
+    expect(matches('src/*.ts', 'src/cli.ts')).toBe(true);
+    expect(matches('src/*.ts', 'src/ai/index.ts')).toBe(false);
+  });
+
+  it('matches **/ across zero or more directories', () => {
+    expect(matches('src/**/*.ts', 'src/cli.ts')).toBe(true);
+    expect(matches('src/**/*.ts', 'src/ai/providers/ollama.ts')).toBe(true);
+    expect(matches('dist/**', 'dist/src/cli.js')).toBe(true);
+    expect(matches('src/**/*.ts', 'lib/cli.ts')).toBe(false);
+  });
+
+  it('matches ? and character classes', () => {
+    expect(matches('file?.ts', 'file1.ts')).toBe(true);
+    expect(matches('file?.ts', 'file10.ts')).toBe(false);
+    expect(matches('v[0-9].md', 'v2.md')).toBe(true);
+    expect(matches('[!.]*', '.env')).toBe(false);
+    expect(matches('[!.]*', 'env')).toBe(true);
+  });
+
+  it('matches brace alternatives, including globs inside them', () => {
+    expect(matches('src/{a,b}.ts', 'src/a.ts')).toBe(true);
+    expect(matches('src/{a,b}.ts', 'src/b.ts')).toBe(true);
+    expect(matches('src/{a,b}.ts', 'src/c.ts')).toBe(false);
+    expect(matches('**/*.{ts,tsx}', 'src/app.tsx')).toBe(true);
+    expect(matches('{src,test}/*.ts', 'test/x.ts')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(matches('a.ts', 'abts')).toBe(false);
+    expect(matches('(x)+.md', '(x)+.md')).toBe(true);
+    expect(matches('src/{a', 'src/{a')).toBe(true);
+  });
+});
+
+describe('matchGlobs', () => {
+  const patterns = ['node_modules/**', '*.lock', '.env*', 'dist/**'];
+
+  it('returns the first pattern a path matches', () => {
+    expect(matchGlobs('yarn.lock', patterns)).toBe('*.lock');
+    expect(matchGlobs('node_modules/chalk/index.js', patterns)).toBe('node_modules/**');
+  });
+
+  it('matches patterns without a slash against any name in the path', () => {
+    expect(matchGlobs('config/.env.local', patterns)).toBe('.env*');
+  });
+
+  it('matches patterns with a slash from any directory down', () => {
+    expect(matchGlobs('packages/app/node_modules/x/y.js', patterns)).toBe('node_modules/**');
+  });
+
+  it('matches a directory given with a trailing slash', () => {
+    expect(matchGlobs('dist/', patterns)).toBe('dist/**');
+  });
+
+  it('returns undefined when nothing matches', () => {
+    expect(matchGlobs('src/cli.ts', patterns)).toBeUndefined();
+  });
+
+  it('ignores a leading ./ in patterns', () => {
+    expect(matchGlobs('src/gen/types.ts', ['./src/gen/**'])).toBe('./src/gen/**');
+  });
+});
@@ -395,12 +395,20 @@ export async function getFileInfo(filePath: string): Promise<Stats> {
 
 /**
  * Find files matching a pattern
+ * 
+ * Entries for which `exclude` returns true are left out, and excluded
+ * directories are not searched.
  */
 export async function findFiles(
   directory: string,
-  options: { pattern?: RegExp; recursive?: boolean; includeDirectories?: boolean } = {}
+  options: {
+    pattern?: RegExp;
+    recursive?: boolean;
+    includeDirectories?: boolean;
+    exclude?: (entryPath: string, isDirectory: boolean) => boolean;
+  } = {}
 ): Promise<string[]> {
-  const { pattern, recursive = true, includeDirectories = false } = options;
+  const { pattern, recursive = true, includeDirectories = false, exclude } = options;
   
   if (!isValidDirectoryPath(directory)) {
     throw createUserError(`Invalid directory path: ${directory}`, {
@@ -426,6 +434,10 @@ export async function findFiles(
       for (const entry of entries) {
         const fullPath = path.join(dir, entry.name);
         
+        if (exclude?.(fullPath, entry.isDirectory())) {
+          continue;
+        }
+        
         if (entry.isDirectory()) {
           if (includeDirectories && (!pattern || pattern.test(entry.name))) {
             results.push(fullPath);
@@ -545,4 +557,80 @@ export async function createTempFile(
       resolution: 'Check temporary directory permissions and try again.'
     });
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Check whether a path contains glob characters
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ * 
+ * Supports `*` (within a path segment), `**` (across segments), `?`,
+ * `[abc]` classes and `{a,b}` alternatives. Paths use forward slashes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const alternatives = pattern.slice(i + 1, end).split(',');
+        source += `(?:${alternatives.map(alternative => globToRegExp(alternative).source.slice(1, -1)).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the glob pattern a relative path matches, if any
+ * 
+ * Patterns without a slash match a file or directory name anywhere, like
+ * `.env*`; other patterns match the path from any directory down, so
+ * `node_modules/**` also covers nested `node_modules` directories.
+ */
+export function matchGlobs(relativePath: string, patterns: string[]): string | undefined {
+  const segments = relativePath.split(path.sep).join('/').split('/');
+  
+  return patterns.find(pattern => {
+    const regex = globToRegExp(pattern.replace(/^\.\//, ''));
+    
+    if (!pattern.includes('/')) {
+      return segments.some(segment => regex.test(segment));
+    }
+    
+    return segments.some((_, i) => regex.test(segments.slice(i).join('/')));
+  });
+}
@@ -16,6 +16,7 @@ import { initExecutionEnvironment } from './execution/index.js';
 import { initErrorHandling } from './errors/index.js';
 import { initTelemetry } from './telemetry/index.js';
 import { logger } from './utils/logger.js';
+import { interruptActiveOperations } from './utils/interrupt.js';
 
 /**
  * Application instance that holds references to all initialized subsystems
@@ -153,6 +154,13 @@ export async function shutdown(app: AppInstance): Promise<void> {
 function setupProcessHandlers(app: AppInstance): void {
   process.on('SIGINT', async () => {
     logger.info('Received SIGINT signal');
+    
+    // The first Ctrl+C only cancels the generation in progress
+    if (interruptActiveOperations()) {
+      logger.info('Cancelled the operation in progress');
+      return;
+    }
+    
     await shutdown(app);
     process.exit(0);
   });
@@ -11,9 +11,9 @@ import ora from 'ora';
 import terminalLink from 'terminal-link';
 import { table } from 'table';
 import { logger } from '../utils/logger.js';
-import { TerminalInterface, TerminalConfig, PromptOptions, SpinnerInstance } from './types.js';
+import { TerminalInterface, TerminalConfig, PromptOptions, SpinnerInstance, LineCompleter } from './types.js';
 import { formatOutput, clearScreen, getTerminalSize } from './formatting.js';
-import { createPrompt } from './prompt.js';
+import { createPrompt, promptLine } from './prompt.js';
 
 /**
  * Initialize the terminal interface
@@ -227,6 +227,13 @@ class Terminal implements TerminalInterface {
     return createPrompt(options, this.config);
   }
 
+  /**
+   * Read a line of input, with optional tab completion
+   */
+  async readLine(message: string, completer?: LineCompleter): Promise<string | null> {
+    return promptLine(message, completer);
+  }
+
   /**
    * Create a spinner for showing progress
    */
@@ -5,7 +5,8 @@
  */
 
 import inquirer from 'inquirer';
-import { PromptOptions, TerminalConfig } from './types.js';
+import readline from 'readline';
+import { PromptOptions, TerminalConfig, LineCompleter } from './types.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -159,4 +160,45 @@ export async function promptEditor(message: string, options: {
   }, { theme: 'system', useColors: true, showProgressIndicators: true, codeHighlighting: true });
   
   return result[options.name || 'editor'];
-} 
\ No newline at end of file
+}
+
+/**
+ * Read a line of input, with optional tab completion
+ * 
+ * Uses readline rather than Inquirer, whose input prompt can't complete.
+ * Resolves to null when input ends (Ctrl+D) or is interrupted (Ctrl+C).
+ */
+export async function promptLine(message: string, completer?: LineCompleter): Promise<string | null> {
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    logger.warn('Terminal is not interactive, cannot prompt for input');
+    throw new Error('Cannot prompt for input in non-interactive terminal');
+  }
+  
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    completer: completer
+      ? (line: string, callback: (error: Error | null, result: [string[], string]) => void) => {
+        completer(line).then(result => callback(null, result), () => callback(null, [[], line]));
+      }
+      : undefined
+  });
+  
+  return new Promise(resolve => {
+    let answered = false;
+    
+    rl.on('SIGINT', () => rl.close());
+    rl.on('close', () => {
+      if (!answered) {
+        process.stdout.write('\n');
+        resolve(null);
+      }
+    });
+    
+    rl.question(`${message} `, answer => {
+      answered = true;
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
@@ -185,6 +185,12 @@ export type PromptOptions =
   | CheckboxPromptOptions
   | EditorPromptOptions;
 
+/**
+ * Tab completion for a line of input: returns the candidates and the text
+ * they replace
+ */
+export type LineCompleter = (line: string) => Promise<[string[], string]>;
+
 /**
  * Terminal interface for user interaction
  */
@@ -244,6 +250,13 @@ export interface TerminalInterface {
    */
   prompt<T>(options: PromptOptions): Promise<T>;
   
+  /**
+   * Read a line of input, with optional tab completion
+   * 
+   * Resolves to null when input ends (Ctrl+D) or is interrupted (Ctrl+C).
+   */
+  readLine(message: string, completer?: LineCompleter): Promise<string | null>;
+  
   /**
    * Create a spinner for showing progress
    */
@@ -0,0 +1,151 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { createAbortError, delay, isAbortError, withRetry, withTimeout } from './async.js';
+
+/**
+ * A function for withTimeout that never settles, keeping the signal it got
+ */
+function hang(): { fn: (signal: AbortSignal) => Promise<string>; signal: () => AbortSignal | undefined } {
+  let received: AbortSignal | undefined;
+  return {
+    fn: (signal: AbortSignal): Promise<string> => {
+      received = signal;
+      return new Promise<string>(() => undefined);
+    },
+    signal: (): AbortSignal | undefined => received
+  };
+}
+
+describe('isAbortError', () => {
+  it('finds an abort error anywhere in the cause chain', () => {
+    expect(isAbortError(createAbortError())).toBe(true);
+    expect(isAbortError(new Error('wrapped', { cause: createAbortError('stop') }))).toBe(true);
+    expect(isAbortError(new Error('other'))).toBe(false);
+    expect(isAbortError(undefined)).toBe(false);
+  });
+});
+
+describe('delay', () => {
+  it('resolves after the wait', async () => {
+    await expect(delay(5)).resolves.toBeUndefined();
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(delay(60000, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('rejects with the abort reason when aborted during the wait', async () => {
+    const controller = new AbortController();
+    const reason = new Error('Cancelled by user');
+    const waiting = delay(60000, controller.signal);
+    controller.abort(reason);
+
+    await expect(waiting).rejects.toBe(reason);
+  });
+});
+
+describe('withTimeout', () => {
+  it('passes the result through', async () => {
+    const fn = withTimeout(async (value: number, _signal: AbortSignal) => value * 2, 1000);
+    await expect(fn(21)).resolves.toBe(42);
+  });
+
+  it('does not call the function when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = jest.fn(async (_signal: AbortSignal) => 'done');
+
+    await expect(withTimeout(fn, 1000, { signal: controller.signal })()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('rejects and aborts the function\'s signal when cancelled before the timeout', async () => {
+    const controller = new AbortController();
+    const { fn, signal } = hang();
+    const running = withTimeout(fn, 60000, { signal: controller.signal })();
+    controller.abort();
+
+    await expect(running).rejects.toMatchObject({ name: 'AbortError' });
+    expect(signal()?.aborted).toBe(true);
+    expect(isAbortError(signal()?.reason)).toBe(true);
+  });
+
+  it('times out, and ignores a cancellation that comes after', async () => {
+    const controller = new AbortController();
+    const { fn, signal } = hang();
+    const running = withTimeout(fn, 5, { signal: controller.signal })();
+
+    await expect(running).rejects.toThrow('Operation timed out after 5ms');
+    controller.abort();
+
+    expect(signal()?.reason).toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('keeps the signal linked after resolving, so a streamed body can still be cancelled', async () => {
+    const controller = new AbortController();
+    let received: AbortSignal | undefined;
+    const fn = withTimeout(async (signal: AbortSignal) => {
+      received = signal;
+      return 'headers';
+    }, 1000, { signal: controller.signal });
+
+    await expect(fn()).resolves.toBe('headers');
+    expect(received?.aborted).toBe(false);
+
+    controller.abort();
+    expect(received?.aborted).toBe(true);
+  });
+});
+
+describe('withRetry', () => {
+  const fast = { initialDelayMs: 1, maxDelayMs: 2 };
+
+  it('retries until the function succeeds', async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce('ok');
+    const onRetry = jest.fn();
+
+    await expect(withRetry(fn, { ...fast, onRetry })()).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ message: 'ECONNRESET' }), 1);
+  });
+
+  it('stops when the signal is aborted while waiting to retry', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn(async () => {
+      // Cancel during the wait before the first retry
+      setTimeout(() => controller.abort(), 5);
+      throw new Error('ECONNRESET');
+    });
+
+    await expect(withRetry(fn, { initialDelayMs: 60000, maxDelayMs: 60000, signal: controller.signal })())
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('never retries a cancelled operation', async () => {
+    const fn = jest.fn(async () => {
+      throw createAbortError();
+    });
+
+    await expect(withRetry(fn, fast)()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up on errors that are not retryable, or after the last retry', async () => {
+    const fatal = jest.fn(async () => {
+      throw new Error('401');
+    });
+    await expect(withRetry(fatal, { ...fast, isRetryable: error => error.message !== '401' })()).rejects.toThrow('401');
+    expect(fatal).toHaveBeenCalledTimes(1);
+
+    const flaky = jest.fn(async () => {
+      throw new Error('503');
+    });
+    await expect(withRetry(flaky, { ...fast, maxRetries: 2 })()).rejects.toThrow('503');
+    expect(flaky).toHaveBeenCalledTimes(3);
+  });
+});
@@ -40,6 +40,21 @@ export interface RetryOptions {
    * Optional callback to execute before each retry
    */
   onRetry?: (error: Error, attempt: number) => void;
+  
+  /**
+   * Signal that cancels the operation, including any pending retry
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for operations that can be cancelled
+ */
+export interface AbortOptions {
+  /**
+   * Signal that cancels the operation when aborted
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -51,39 +66,115 @@ const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   maxDelayMs: 10000
 };
 
+/**
+ * Create the error an operation fails with when it is cancelled
+ * 
+ * The abort reason is used as is when it's already an error.
+ */
+export function createAbortError(reason?: unknown): Error {
+  if (reason instanceof Error) {
+    return reason;
+  }
+  
+  const error = new Error(typeof reason === 'string' ? reason : 'The operation was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Check whether an error, or any error that caused it, comes from a
+ * cancelled operation
+ */
+export function isAbortError(error: unknown): boolean {
+  for (let current: any = error; current; current = current.cause) {
+    if (current.name === 'AbortError') {
+      return true;
+    }
+  }
+  
+  return false;
+}
+
 /**
  * Sleep for the specified number of milliseconds
+ * 
+ * Rejects with an abort error as soon as the signal is aborted.
  */
-export async function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export async function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal.reason));
+      return;
+    }
+    
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError(signal!.reason));
+    };
+    
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
  * Execute a function with a timeout
  * 
+ * The function receives an AbortSignal as its last argument, which is
+ * aborted when the timeout expires or `options.signal` is aborted; pass it
+ * on to `fetch` so the underlying request is cancelled too. The signal
+ * stays linked to `options.signal` after the function resolves, so a
+ * streamed response body can still be cancelled.
+ * 
  * @param fn Function to execute with timeout
  * @param timeoutMs Timeout in milliseconds
+ * @param options Cancellation options
  * @returns A function that wraps the original function with timeout
  */
-export function withTimeout<T extends (...args: any[]) => Promise<any>>(
-  fn: T,
-  timeoutMs: number
-): (...args: Parameters<T>) => Promise<ReturnType<T>> {
-  return async (...args: Parameters<T>): Promise<ReturnType<T>> => {
+export function withTimeout<A extends any[], R>(
+  fn: (...args: [...A, AbortSignal]) => Promise<R>,
+  timeoutMs: number,
+  options: AbortOptions = {}
+): (...args: A) => Promise<R> {
+  return async (...args: A): Promise<R> => {
+    const { signal } = options;
+    const controller = new AbortController();
+    
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError(signal.reason));
+        return;
+      }
+      
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        const error = createAbortError(signal!.reason);
+        controller.abort(error);
+        reject(error);
+      };
+      
       const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
         const error = new Error(`Operation timed out after ${timeoutMs}ms`);
         error.name = 'TimeoutError';
+        controller.abort(error);
         reject(error);
       }, timeoutMs);
       
-      fn(...args)
+      signal?.addEventListener('abort', onAbort, { once: true });
+      
+      fn(...args, controller.signal)
         .then(result => {
           clearTimeout(timeoutId);
           resolve(result);
         })
         .catch(error => {
           clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
           reject(error);
         });
     });
@@ -108,7 +199,8 @@ export function withRetry<T extends (...args: any[]) => Promise<any>>(
     maxDelayMs: options.maxDelayMs ?? 10000,
     backoff: options.backoff ?? true,
     isRetryable: options.isRetryable,
-    onRetry: options.onRetry
+    onRetry: options.onRetry,
+    signal: options.signal
   };
   
   // Return a function that wraps the original function with retry logic
@@ -124,7 +216,7 @@ export function withRetry<T extends (...args: any[]) => Promise<any>>(
         
         // Wait before retry
         const delayMs = calculateRetryDelay(attempt, retryOptions);
-        await delay(delayMs);
+        await delay(delayMs, retryOptions.signal);
         
         // Execute retry callback if provided
         if (retryOptions.onRetry) {
@@ -136,6 +228,11 @@ export function withRetry<T extends (...args: any[]) => Promise<any>>(
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         
+        // A cancelled operation is never retried
+        if (isAbortError(lastError) || retryOptions.signal?.aborted) {
+          throw lastError;
+        }
+        
         // Check if we've reached the maximum number of retries
         if (attempt >= retryOptions.maxRetries) {
           throw lastError;
@@ -385,6 +482,8 @@ export async function runSequentially<T>(
 }
 
 export default {
+  createAbortError,
+  isAbortError,
   delay,
   withTimeout,
   withRetry,
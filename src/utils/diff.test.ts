@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import { getChangedRanges, parseUnifiedDiff } from './diff.js';
+
+const gitDiff = `diff --git a/src/math.ts b/src/math.ts
+index 59c16e6..ebde08a 100644
+--- a/src/math.ts
++++ b/src/math.ts
+@@ -2,3 +2,7 @@ export function div(a: number, b: number) {
+   let r = a / b;
+   return r;
+ }
++
++export function half(a: number) {
++  return div(a, 2);
++}
+@@ -20 +24,0 @@ export function mul(a: number, b: number) {
+-// TODO
+diff --git a/docs/old.md b/docs/new.md
+similarity 90%
+rename from docs/old.md
+rename to docs/new.md
+diff --git a/README.md b/README.md
+deleted file mode 100644
+index 1111111..0000000
+--- a/README.md
++++ /dev/null
+@@ -1,2 +0,0 @@
+-# Title
+--- not a header
+diff --git a/logo.png b/logo.png
+new file mode 100644
+index 0000000..2222222
+Binary files /dev/null and b/logo.png differ
+`;
+
+describe('parseUnifiedDiff', () => {
+  const files = parseUnifiedDiff(gitDiff);
+
+  it('splits a git diff into files', () => {
+    expect(files.map(file => [file.path, file.status, file.binary])).toEqual([
+      ['src/math.ts', 'modified', false],
+      ['docs/new.md', 'renamed', false],
+      ['README.md', 'deleted', false],
+      ['logo.png', 'added', true]
+    ]);
+    expect(files[1].oldPath).toBe('docs/old.md');
+  });
+
+  it('reads hunk headers, including omitted counts', () => {
+    expect(files[0].hunks.map(({ oldStart, oldLines, newStart, newLines }) => ({ oldStart, oldLines, newStart, newLines }))).toEqual([
+      { oldStart: 2, oldLines: 3, newStart: 2, newLines: 7 },
+      { oldStart: 20, oldLines: 1, newStart: 24, newLines: 0 }
+    ]);
+    expect(files[0].hunks[0].lines).toHaveLength(7);
+  });
+
+  it('keeps removed lines that look like file headers inside their hunk', () => {
+    expect(files[2].hunks[0].lines).toEqual(['-# Title', '--- not a header']);
+  });
+
+  it('keeps each file\'s own part of the diff', () => {
+    expect(files[0].patch.startsWith('diff --git a/src/math.ts b/src/math.ts')).toBe(true);
+    expect(files[0].patch.endsWith('-// TODO')).toBe(true);
+  });
+
+  it('parses plain diffs without git headers', () => {
+    const plain = `--- a.txt\t2024-01-01
++++ a.txt\t2024-01-02
+@@ -1 +1 @@
+-old
++new
+\\ No newline at end of file
+--- /dev/null
++++ b.txt
+@@ -0,0 +1,2 @@
++one
++two
+`;
+    expect(parseUnifiedDiff(plain).map(file => [file.path, file.status, file.hunks.length])).toEqual([
+      ['a.txt', 'modified', 1],
+      ['b.txt', 'added', 1]
+    ]);
+  });
+
+  it('accepts CRLF line endings', () => {
+    const [file] = parseUnifiedDiff('--- a/x.ts\r\n+++ b/x.ts\r\n@@ -1 +1 @@\r\n-a\r\n+b\r\n');
+    expect(file.path).toBe('x.ts');
+    expect(file.hunks[0].lines).toEqual(['-a', '+b']);
+  });
+
+  it('returns no files for an empty diff', () => {
+    expect(parseUnifiedDiff('')).toEqual([]);
+  });
+});
+
+describe('getChangedRanges', () => {
+  it('returns the lines each hunk covers after the change, skipping pure deletions', () => {
+    expect(getChangedRanges(parseUnifiedDiff(gitDiff)[0])).toEqual([{ start: 2, end: 8 }]);
+  });
+});
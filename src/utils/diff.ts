@@ -0,0 +1,180 @@
+/**
+ * Unified Diff Utilities
+ *
+ * Parses the unified diffs produced by `git diff` and `diff -u`.
+ */
+
+/**
+ * A hunk of a unified diff
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+
+  /**
+   * Hunk lines, each starting with ' ', '+' or '-'
+   */
+  lines: string[];
+}
+
+/**
+ * The changes to one file in a unified diff
+ */
+export interface DiffFile {
+  /**
+   * Path after the change, or before it for a deleted file
+   */
+  path: string;
+  oldPath?: string;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  binary: boolean;
+  hunks: DiffHunk[];
+
+  /**
+   * This file's part of the diff, as it appeared in the input
+   */
+  patch: string;
+}
+
+/**
+ * Strip the `a/` or `b/` prefix git puts on paths
+ */
+function stripPrefix(diffPath: string): string {
+  const trimmed = diffPath.split('\t')[0].trim();
+  return /^[ab]\//.test(trimmed) ? trimmed.slice(2) : trimmed;
+}
+
+/**
+ * Parse a unified diff into its files
+ *
+ * Accepts git's extended headers as well as plain `---`/`+++` pairs.
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  let file: DiffFile | undefined;
+  let hunk: DiffHunk | undefined;
+  let patch: string[] = [];
+  // Lines of the current hunk still to come, from its header counts
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  const finish = (): void => {
+    if (file) {
+      file.patch = patch.join('\n').trimEnd();
+      files.push(file);
+    }
+    file = undefined;
+    hunk = undefined;
+    patch = [];
+  };
+
+  const start = (): DiffFile => {
+    finish();
+    file = { path: '', status: 'modified', binary: false, hunks: [], patch: '' };
+    return file;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (file && hunk && (oldLeft > 0 || newLeft > 0) && /^[ +-]/.test(line)) {
+      hunk.lines.push(line);
+      if (line[0] !== '+') {
+        oldLeft--;
+      }
+      if (line[0] !== '-') {
+        newLeft--;
+      }
+      patch.push(line);
+      continue;
+    }
+
+    // "\ No newline at end of file"
+    if (file && hunk && line.startsWith('\\')) {
+      patch.push(line);
+      continue;
+    }
+
+    hunk = undefined;
+
+    if (line.startsWith('diff --git ')) {
+      const current = start();
+      const paths = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      if (paths) {
+        current.oldPath = paths[1];
+        current.path = paths[2];
+      }
+      patch.push(line);
+      continue;
+    }
+
+    // A plain diff starts each file at its `---` line
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ') && (!file || file.hunks.length > 0)) {
+      start();
+    }
+
+    if (!file) {
+      continue;
+    }
+
+    const current: DiffFile = file;
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+
+    if (header) {
+      hunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+        lines: []
+      };
+      oldLeft = hunk.oldLines;
+      newLeft = hunk.newLines;
+      current.hunks.push(hunk);
+    } else if (line.startsWith('--- ')) {
+      const oldPath = stripPrefix(line.slice(4));
+      if (oldPath === '/dev/null') {
+        current.status = 'added';
+      } else {
+        current.oldPath = oldPath;
+      }
+    } else if (line.startsWith('+++ ')) {
+      const newPath = stripPrefix(line.slice(4));
+      if (newPath === '/dev/null') {
+        current.status = 'deleted';
+        current.path = current.oldPath || current.path;
+      } else {
+        current.path = newPath;
+      }
+    } else if (line.startsWith('new file mode')) {
+      current.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      current.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      current.status = 'renamed';
+      current.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      current.path = line.slice('rename to '.length);
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      current.binary = true;
+    }
+
+    patch.push(line);
+  }
+
+  finish();
+
+  return files.filter(item => item.path);
+}
+
+/**
+ * Get the lines each hunk covers after the change, 1-based and inclusive
+ */
+export function getChangedRanges(file: DiffFile): Array<{ start: number; end: number }> {
+  return file.hunks
+    .filter(hunk => hunk.newLines > 0)
+    .map(hunk => ({ start: hunk.newStart, end: hunk.newStart + hunk.newLines - 1 }));
+}
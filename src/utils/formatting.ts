@@ -197,6 +197,19 @@ export function createTextTable(rows: string[][], headers?: string[]): string {
   return formattedRows.join('\n');
 }
 
+/**
+ * Create a text progress bar, e.g. "[=========>          ]  45%"
+ */
+export function formatProgressBar(completed: number, total: number, width: number = 30): string {
+  const fraction = total > 0 ? Math.min(1, Math.max(0, completed / total)) : 0;
+  const filled = Math.round(fraction * width);
+  const bar = filled >= width
+    ? '='.repeat(width)
+    : `${'='.repeat(Math.max(0, filled - 1))}${filled > 0 ? '>' : ''}${' '.repeat(width - filled)}`;
+  
+  return `[${bar}] ${padString(`${Math.floor(fraction * 100)}%`, 4, ' ', false)}`;
+}
+
 /**
  * Format a key-value object as a string
  */
@@ -277,6 +290,7 @@ export default {
   padString,
   centerString,
   createTextTable,
+  formatProgressBar,
   formatKeyValue,
   camelToTitleCase,
   formatErrorDetails
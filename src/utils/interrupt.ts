@@ -0,0 +1,69 @@
+/**
+ * Interrupt Handling
+ *
+ * Lets Ctrl+C cancel the operation in progress, such as an AI generation,
+ * instead of ending the process. SIGINT handlers call
+ * `interruptActiveOperations()` first and only exit when nothing was
+ * running.
+ */
+
+import { createAbortError } from './async.js';
+
+/**
+ * An operation that Ctrl+C can cancel
+ */
+export interface Interruptible {
+  /**
+   * Aborted when the user interrupts the operation
+   */
+  signal: AbortSignal;
+
+  /**
+   * Whether the user interrupted the operation
+   */
+  readonly interrupted: boolean;
+
+  /**
+   * Stop listening for interrupts; call once the operation finishes
+   */
+  release(): void;
+}
+
+// Controllers of the operations currently in progress
+const activeControllers = new Set<AbortController>();
+
+/**
+ * Start an operation that Ctrl+C can cancel
+ */
+export function createInterruptible(): Interruptible {
+  const controller = new AbortController();
+  activeControllers.add(controller);
+
+  return {
+    signal: controller.signal,
+    get interrupted() {
+      return controller.signal.aborted;
+    },
+    release: () => {
+      activeControllers.delete(controller);
+    }
+  };
+}
+
+/**
+ * Cancel the interruptible operations in progress
+ *
+ * Returns false when there was nothing to cancel.
+ */
+export function interruptActiveOperations(): boolean {
+  if (activeControllers.size === 0) {
+    return false;
+  }
+
+  for (const controller of activeControllers) {
+    controller.abort(createAbortError('Cancelled by the user'));
+  }
+  activeControllers.clear();
+
+  return true;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from '@jest/globals';
+import { validateJsonSchema } from './validation.js';
+
+const findingSchema = {
+  type: 'object',
+  properties: {
+    line: { type: 'integer', minimum: 1 },
+    severity: { type: 'string', enum: ['major', 'minor'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 }
+  },
+  required: ['line', 'severity'],
+  additionalProperties: false
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateJsonSchema({ line: 3, severity: 'minor', tags: ['a'] }, findingSchema)).toEqual([]);
+  });
+
+  it('reports type mismatches, telling integers from numbers', () => {
+    expect(validateJsonSchema({ line: 1.5, severity: 'minor' }, findingSchema)).toEqual(['$.line: expected integer, got number']);
+    expect(validateJsonSchema(2, { type: 'number' })).toEqual([]);
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateJsonSchema([], { type: 'object' })).toEqual(['$: expected object, got array']);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(validateJsonSchema({ line: 0, severity: 'blocker', tags: ['a', 1, 'c'], extra: true }, findingSchema)).toEqual([
+      '$.line: must be at least 1',
+      '$.severity: must be one of "major", "minor"',
+      '$.tags: must have at most 2 items',
+      '$.tags[1]: expected string, got integer',
+      '$: unexpected property "extra"'
+    ]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateJsonSchema({}, findingSchema)).toEqual([
+      '$: missing required property "line"',
+      '$: missing required property "severity"'
+    ]);
+  });
+
+  it('checks string limits and patterns', () => {
+    const schema = { type: 'string', minLength: 2, maxLength: 4, pattern: '^[a-z]+$' };
+    expect(validateJsonSchema('abc', schema)).toEqual([]);
+    expect(validateJsonSchema('A', schema)).toEqual(['$: must be at least 2 characters', '$: must match ^[a-z]+$']);
+  });
+
+  it('validates additional properties against a schema', () => {
+    const schema = { type: 'object', additionalProperties: { type: 'number' } };
+    expect(validateJsonSchema({ a: 1, b: 'x' }, schema)).toEqual(['$.b: expected number, got string']);
+  });
+
+  it('supports anyOf', () => {
+    const schema = { anyOf: [{ type: 'string' }, { type: 'integer' }] };
+    expect(validateJsonSchema(3, schema)).toEqual([]);
+    expect(validateJsonSchema(true, schema)).not.toEqual([]);
+  });
+});
@@ -216,6 +216,122 @@ export function createAnyValidator(...validators: Array<(value: unknown) => bool
   };
 }
 
+/**
+ * Get the JSON Schema type name of a value
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * 
+ * Supports the keywords models are usually given: type, enum, const,
+ * properties, required, additionalProperties, items, anyOf, oneOf, allOf,
+ * and the length, size and range limits. Unknown keywords are ignored.
+ * Returns a list of errors, each prefixed with the path of the offending
+ * value; an empty list means the value is valid.
+ */
+export function validateJsonSchema(value: unknown, schema: Record<string, any>, path: string = '$'): string[] {
+  if (typeof schema !== 'object' || schema === null) {
+    return [];
+  }
+  
+  const errors: string[] = [];
+  const actualType = jsonTypeOf(value);
+  
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = types.some(type => type === actualType || (type === 'number' && actualType === 'integer'));
+    if (!matches) {
+      return [`${path}: expected ${types.join(' or ')}, got ${actualType}`];
+    }
+  }
+  
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+  
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+  
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+  
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (isObject(schema.items)) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${i}]`)));
+    }
+  }
+  
+  if (isObject(value)) {
+    const properties: Record<string, any> = schema.properties || {};
+    
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+    
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (key in properties) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+  
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateJsonSchema(value, subschema, path));
+    }
+  }
+  
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((subschema: any) => validateJsonSchema(value, subschema, path).length === 0)) {
+    errors.push(`${path}: does not match any of the allowed shapes`);
+  }
+  
+  if (Array.isArray(schema.oneOf)) {
+    const matching = schema.oneOf.filter((subschema: any) => validateJsonSchema(value, subschema, path).length === 0).length;
+    if (matching !== 1) {
+      errors.push(`${path}: must match exactly one of the allowed shapes (matched ${matching})`);
+    }
+  }
+  
+  return errors;
+}
+
 export default {
   isDefined,
   isNonEmptyString,
@@ -231,6 +347,7 @@ export default {
   isValidDirectoryPath,
   isValidJson,
   validateObject,
+  validateJsonSchema,
   createEnumValidator,
   createOneOfValidator,
   createAllValidator,